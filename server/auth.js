@@ -0,0 +1,79 @@
+const crypto = require('crypto');
+
+// Sessions last one working day; operators sign in again at the start of the next one
+const SESSION_TTL_MS = 12 * 60 * 60 * 1000;
+
+// --- Password Hashing ---
+// Stored as "scrypt$<salt>$<hash>" so the algorithm can be changed later without a schema change
+function hashPassword(password) {
+  const salt = crypto.randomBytes(16).toString('hex');
+  const hash = crypto.scryptSync(password, salt, 64).toString('hex');
+  return `scrypt$${salt}$${hash}`;
+}
+
+function verifyPassword(password, storedHash) {
+  if (typeof password !== 'string' || typeof storedHash !== 'string') return false;
+  const [scheme, salt, hash] = storedHash.split('$');
+  if (scheme !== 'scrypt' || !salt || !hash) return false;
+  const expected = Buffer.from(hash, 'hex');
+  const actual = crypto.scryptSync(password, salt, expected.length);
+  return crypto.timingSafeEqual(expected, actual);
+}
+
+// --- Session Tokens ---
+// A token is "<base64url payload>.<base64url HMAC-SHA256 signature>"
+function sign(data, secret) {
+  return crypto.createHmac('sha256', secret).update(data).digest('base64url');
+}
+
+function createSessionToken(claims, secret, ttlMs = SESSION_TTL_MS) {
+  const now = Date.now();
+  const payload = Buffer.from(JSON.stringify({ ...claims, iat: now, exp: now + ttlMs })).toString('base64url');
+  return `${payload}.${sign(payload, secret)}`;
+}
+
+function verifySessionToken(token, secret) {
+  if (typeof token !== 'string') return null;
+  const [payload, signature] = token.split('.');
+  if (!payload || !signature) return null;
+
+  const expected = Buffer.from(sign(payload, secret));
+  const actual = Buffer.from(signature);
+  if (expected.length !== actual.length || !crypto.timingSafeEqual(expected, actual)) return null;
+
+  try {
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString('utf8'));
+    if (!claims.exp || claims.exp < Date.now()) return null;
+    return claims;
+  } catch {
+    return null;
+  }
+}
+
+// --- Ticket Signatures ---
+// Printed on entry receipts as "<serial>-<signature>". The signature is cut to 12 uppercase hex
+// characters so the barcode stays short and survives scanners that change letter case.
+const TICKET_SIGNATURE_LENGTH = 12;
+
+function signTicket(data, secret) {
+  return crypto.createHmac('sha256', secret).update(`ticket:${data}`).digest('hex').slice(0, TICKET_SIGNATURE_LENGTH).toUpperCase();
+}
+
+function verifyTicketSignature(data, signature, secret) {
+  if (typeof signature !== 'string' || signature.length !== TICKET_SIGNATURE_LENGTH) return false;
+  return crypto.timingSafeEqual(Buffer.from(signTicket(data, secret)), Buffer.from(signature.toUpperCase()));
+}
+
+function generateSecret() {
+  return crypto.randomBytes(32).toString('hex');
+}
+
+module.exports = {
+  hashPassword,
+  verifyPassword,
+  createSessionToken,
+  verifySessionToken,
+  signTicket,
+  verifyTicketSignature,
+  generateSecret
+};
@@ -0,0 +1,355 @@
+// Versioned schema changes, applied in order and recorded in schema_migrations so each runs once.
+// Append new migrations to the end; never edit one that has already been released.
+const migrations = [
+  {
+    version: 1,
+    name: 'initial schema',
+    // Everything created before migrations existed; IF NOT EXISTS keeps it safe on those databases
+    up: async (client) => {
+      await client.query(`
+        CREATE TABLE IF NOT EXISTS vehicles (
+          id TEXT PRIMARY KEY,
+          vehicleNumber TEXT NOT NULL,
+          vehicleType TEXT NOT NULL,
+          entryTime TEXT NOT NULL,
+          exitTime TEXT,
+          fee REAL
+        );
+
+        CREATE TABLE IF NOT EXISTS permanent_clients (
+          id TEXT PRIMARY KEY,
+          name TEXT NOT NULL,
+          vehicleNumber TEXT NOT NULL,
+          contact TEXT NOT NULL,
+          paymentStatus TEXT NOT NULL DEFAULT 'unpaid',
+          entryTime TEXT NOT NULL
+        );
+
+        CREATE TABLE IF NOT EXISTS settings (
+          key TEXT PRIMARY KEY,
+          value TEXT NOT NULL
+        );
+
+        CREATE TABLE IF NOT EXISTS daily_stats (
+          date TEXT PRIMARY KEY,
+          totalVehicles INTEGER NOT NULL,
+          totalRevenue REAL NOT NULL
+        );
+
+        CREATE TABLE IF NOT EXISTS users (
+          id TEXT PRIMARY KEY,
+          username TEXT NOT NULL UNIQUE,
+          display_name TEXT,
+          password_hash TEXT NOT NULL,
+          role TEXT NOT NULL DEFAULT 'attendant',
+          active BOOLEAN NOT NULL DEFAULT TRUE,
+          created_at TEXT NOT NULL
+        );
+
+        CREATE TABLE IF NOT EXISTS audit_log (
+          id BIGSERIAL PRIMARY KEY,
+          created_at TEXT NOT NULL,
+          actor_id TEXT,
+          actor_username TEXT,
+          action TEXT NOT NULL,
+          entity_type TEXT NOT NULL,
+          entity_id TEXT,
+          before_data TEXT,
+          after_data TEXT
+        );
+
+        CREATE TABLE IF NOT EXISTS changes (
+          seq BIGSERIAL PRIMARY KEY,
+          entity_type TEXT NOT NULL,
+          entity_id TEXT NOT NULL,
+          op TEXT NOT NULL,
+          data TEXT,
+          client_id TEXT,
+          created_at TEXT NOT NULL
+        );
+
+        CREATE TABLE IF NOT EXISTS idempotency_keys (
+          key TEXT PRIMARY KEY,
+          status_code INTEGER NOT NULL,
+          response TEXT NOT NULL,
+          created_at TEXT NOT NULL
+        );
+
+        ALTER TABLE vehicles ADD COLUMN IF NOT EXISTS updated_at TEXT;
+        ALTER TABLE vehicles ADD COLUMN IF NOT EXISTS client_id TEXT;
+        ALTER TABLE permanent_clients ADD COLUMN IF NOT EXISTS updated_at TEXT;
+        ALTER TABLE permanent_clients ADD COLUMN IF NOT EXISTS client_id TEXT;
+      `);
+
+      // Rows written before versioning get a version derived from their own timestamps
+      await client.query('UPDATE vehicles SET updated_at = COALESCE(exitTime, entryTime) WHERE updated_at IS NULL');
+      await client.query('UPDATE permanent_clients SET updated_at = entryTime WHERE updated_at IS NULL');
+    }
+  },
+  {
+    version: 2,
+    name: 'canonical record columns',
+    // Unquoted camelCase columns were folded to lower case by PostgreSQL, so move everything to
+    // explicit snake_case and add the permanent client fields the app already collects
+    up: async (client) => {
+      await client.query(`
+        ALTER TABLE vehicles RENAME COLUMN vehiclenumber TO vehicle_number;
+        ALTER TABLE vehicles RENAME COLUMN vehicletype TO vehicle_type;
+        ALTER TABLE vehicles RENAME COLUMN entrytime TO entry_time;
+        ALTER TABLE vehicles RENAME COLUMN exittime TO exit_time;
+
+        ALTER TABLE permanent_clients RENAME COLUMN name TO client_name;
+        ALTER TABLE permanent_clients RENAME COLUMN vehiclenumber TO vehicle_number;
+        ALTER TABLE permanent_clients RENAME COLUMN paymentstatus TO payment_status;
+        ALTER TABLE permanent_clients RENAME COLUMN entrytime TO entry_time;
+        ALTER TABLE permanent_clients ADD COLUMN vehicle_type TEXT NOT NULL DEFAULT 'car';
+        ALTER TABLE permanent_clients ADD COLUMN cnic TEXT;
+        ALTER TABLE permanent_clients ADD COLUMN monthly_fee REAL;
+        ALTER TABLE permanent_clients ADD COLUMN payment_date TEXT;
+
+        ALTER TABLE daily_stats RENAME COLUMN totalvehicles TO total_vehicles;
+        ALTER TABLE daily_stats RENAME COLUMN totalrevenue TO total_income;
+      `);
+    }
+  },
+  {
+    version: 3,
+    name: 'vehicle types',
+    // Categories used to be the fixed car/bike/rickshaw keys of settings.pricing; they become rows
+    // carrying their own pricing, seeded from the saved settings when there are any
+    up: async (client) => {
+      await client.query(`
+        CREATE TABLE vehicle_types (
+          id TEXT PRIMARY KEY,
+          label TEXT NOT NULL,
+          icon TEXT NOT NULL DEFAULT 'car',
+          pricing TEXT NOT NULL,
+          sort_order INTEGER NOT NULL DEFAULT 0,
+          updated_at TEXT
+        )
+      `);
+
+      const settingsResult = await client.query('SELECT value FROM settings WHERE key = $1', ['app_settings']);
+      const { pricing, ...settings } = settingsResult.rows.length > 0 ? JSON.parse(settingsResult.rows[0].value) : {};
+      const seeds = [
+        { id: 'car', label: 'Car', icon: 'car', pricing: { baseHours: 2, baseFee: 50, extraHourFee: 25 } },
+        { id: 'bike', label: 'Bike', icon: 'bike', pricing: { baseHours: 2, baseFee: 20, extraHourFee: 10 } },
+        { id: 'rickshaw', label: 'Rickshaw', icon: 'truck', pricing: { baseHours: 2, baseFee: 30, extraHourFee: 15 } }
+      ];
+      const now = new Date().toISOString();
+      for (const [index, seed] of seeds.entries()) {
+        await client.query('INSERT INTO vehicle_types (id, label, icon, pricing, sort_order, updated_at) VALUES ($1, $2, $3, $4, $5, $6)',
+          [seed.id, seed.label, seed.icon, JSON.stringify(pricing?.[seed.id] || seed.pricing), index, now]);
+      }
+      if (settingsResult.rows.length > 0) {
+        await client.query('UPDATE settings SET value = $1 WHERE key = $2', [JSON.stringify(settings), 'app_settings']);
+      }
+    }
+  },
+  {
+    version: 4,
+    name: 'vehicle type capacity',
+    // Number of spaces for each category; NULL means the lot does not limit it
+    up: async (client) => {
+      await client.query('ALTER TABLE vehicle_types ADD COLUMN capacity INTEGER');
+    }
+  },
+  {
+    version: 5,
+    name: 'ticket numbers',
+    // Vehicles entered before this keep no ticket number; last_number is the latest issued per counter per day
+    up: async (client) => {
+      await client.query('ALTER TABLE vehicles ADD COLUMN ticket_number TEXT');
+      await client.query(`
+        CREATE TABLE ticket_sequences (
+          counter TEXT NOT NULL,
+          day TEXT NOT NULL,
+          last_number INTEGER NOT NULL,
+          PRIMARY KEY (counter, day)
+        )
+      `);
+    }
+  },
+  {
+    version: 6,
+    name: 'lost tickets',
+    // JSON with the driver's CNIC, a note and the penalty charged; NULL for a normal exit
+    up: async (client) => {
+      await client.query('ALTER TABLE vehicles ADD COLUMN lost_ticket TEXT');
+    }
+  },
+  {
+    version: 7,
+    name: 'fee discounts',
+    // fee stays what was charged; calculated_fee is what the tariff asked for and discount (JSON) explains the gap
+    up: async (client) => {
+      await client.query('ALTER TABLE vehicles ADD COLUMN calculated_fee REAL');
+      await client.query('ALTER TABLE vehicles ADD COLUMN discount TEXT');
+    }
+  },
+  {
+    version: 8,
+    name: 'payment methods',
+    // Earlier exits have no method recorded; they were all paid in cash
+    up: async (client) => {
+      await client.query('ALTER TABLE vehicles ADD COLUMN payment_method TEXT');
+      await client.query('ALTER TABLE vehicles ADD COLUMN amount_tendered REAL');
+      await client.query('ALTER TABLE vehicles ADD COLUMN change_given REAL');
+    }
+  },
+  {
+    version: 9,
+    name: 'shifts',
+    // One open shift per counter at a time; expected_cash is worked out when the shift is closed
+    up: async (client) => {
+      await client.query(`
+        CREATE TABLE shifts (
+          id TEXT PRIMARY KEY,
+          counter TEXT NOT NULL,
+          opened_by TEXT NOT NULL,
+          opened_at TEXT NOT NULL,
+          opening_float REAL NOT NULL,
+          closed_by TEXT,
+          closed_at TEXT,
+          counted_cash REAL,
+          expected_cash REAL,
+          note TEXT,
+          updated_at TEXT
+        )
+      `);
+      await client.query('ALTER TABLE vehicles ADD COLUMN entry_shift_id TEXT');
+      await client.query('ALTER TABLE vehicles ADD COLUMN exit_shift_id TEXT');
+    }
+  },
+  {
+    version: 10,
+    name: 'client invoices',
+    // One invoice per permanent client per month, with any number of payments against it. A client
+    // marked paid under the old single flag gets a settled invoice for the month of that payment.
+    up: async (client) => {
+      await client.query(`
+        CREATE TABLE invoices (
+          id TEXT PRIMARY KEY,
+          client_id TEXT NOT NULL,
+          period TEXT NOT NULL,
+          amount REAL NOT NULL,
+          due_date TEXT NOT NULL,
+          issued_at TEXT NOT NULL,
+          updated_at TEXT,
+          UNIQUE (client_id, period)
+        );
+
+        CREATE TABLE invoice_payments (
+          id TEXT PRIMARY KEY,
+          invoice_id TEXT NOT NULL,
+          amount REAL NOT NULL,
+          method TEXT NOT NULL,
+          paid_at TEXT NOT NULL,
+          received_by TEXT,
+          note TEXT
+        );
+      `);
+      const paidClients = await client.query(`SELECT id, monthly_fee, payment_date FROM permanent_clients
+        WHERE payment_status = 'paid' AND payment_date IS NOT NULL AND monthly_fee > 0`);
+      for (const row of paidClients.rows) {
+        const paidAt = new Date(row.payment_date);
+        if (isNaN(paidAt.getTime())) continue;
+        const period = `${paidAt.getFullYear()}-${String(paidAt.getMonth() + 1).padStart(2, '0')}`;
+        const invoiceId = `${row.id}-${period}`;
+        await client.query('INSERT INTO invoices (id, client_id, period, amount, due_date, issued_at, updated_at) VALUES ($1, $2, $3, $4, $5, $6, $6)',
+          [invoiceId, row.id, period, row.monthly_fee, `${period}-10`, paidAt.toISOString()]);
+        await client.query('INSERT INTO invoice_payments (id, invoice_id, amount, method, paid_at, note) VALUES ($1, $2, $3, $4, $5, $6)',
+          [`${invoiceId}-1`, invoiceId, row.monthly_fee, 'cash', paidAt.toISOString(), 'Carried over from the old paid flag']);
+      }
+    }
+  },
+  {
+    version: 11,
+    name: 'pass usage',
+    // Set on visits covered by a permanent client's pass, which are recorded with no fee
+    up: async (client) => {
+      await client.query('ALTER TABLE vehicles ADD COLUMN pass_client_id TEXT');
+    }
+  },
+  {
+    version: 12,
+    name: 'subscription plans',
+    // Plans themselves live in settings; clients record which one they are on and the term it covers.
+    // Existing clients have no plan and no end date, so they keep their monthly invoices and never expire.
+    up: async (client) => {
+      await client.query('ALTER TABLE permanent_clients ADD COLUMN plan_id TEXT');
+      await client.query('ALTER TABLE permanent_clients ADD COLUMN start_date TEXT');
+      await client.query('ALTER TABLE permanent_clients ADD COLUMN end_date TEXT');
+      await client.query('ALTER TABLE invoices ADD COLUMN covers_to TEXT');
+    }
+  },
+  {
+    version: 13,
+    name: 'report indexes',
+    // Reports select visits by when they came in or left; times are ISO text, so these order correctly
+    up: async (client) => {
+      await client.query('CREATE INDEX IF NOT EXISTS vehicles_entry_time ON vehicles (entry_time)');
+      await client.query('CREATE INDEX IF NOT EXISTS vehicles_exit_time ON vehicles (exit_time)');
+    }
+  },
+  {
+    version: 14,
+    name: 'visit operators',
+    // The operators who recorded each entry and exit, for reports by operator. Earlier visits take them
+    // from the audit log, which has named the actor of every entry and exit since it was added.
+    up: async (client) => {
+      await client.query('ALTER TABLE vehicles ADD COLUMN entered_by TEXT');
+      await client.query('ALTER TABLE vehicles ADD COLUMN exited_by TEXT');
+      await client.query(`UPDATE vehicles SET entered_by = first_entry.actor_username
+        FROM (SELECT DISTINCT ON (entity_id) entity_id, actor_username FROM audit_log
+          WHERE entity_type = 'vehicle' AND action = 'vehicle.entry' ORDER BY entity_id, id) first_entry
+        WHERE vehicles.id = first_entry.entity_id`);
+      await client.query(`UPDATE vehicles SET exited_by = first_exit.actor_username
+        FROM (SELECT DISTINCT ON (entity_id) entity_id, actor_username FROM audit_log
+          WHERE entity_type = 'vehicle' AND action IN ('vehicle.exit', 'vehicle.lost_ticket') ORDER BY entity_id, id) first_exit
+        WHERE vehicles.id = first_exit.entity_id AND vehicles.exit_time IS NOT NULL`);
+    }
+  },
+  {
+    version: 15,
+    name: 'ticket number index',
+    // Scanned tickets are looked up by the ticket number printed in their barcode
+    up: async (client) => {
+      await client.query('CREATE INDEX IF NOT EXISTS vehicles_ticket_number ON vehicles (ticket_number)');
+    }
+  }
+];
+
+async function runMigrations(pool) {
+  await pool.query(`
+    CREATE TABLE IF NOT EXISTS schema_migrations (
+      version INTEGER PRIMARY KEY,
+      name TEXT NOT NULL,
+      applied_at TEXT NOT NULL
+    )
+  `);
+  const appliedRows = await pool.query('SELECT version FROM schema_migrations');
+  const applied = new Set(appliedRows.rows.map(row => Number(row.version)));
+
+  for (const migration of migrations) {
+    if (applied.has(migration.version)) continue;
+
+    // Each migration runs in its own transaction on a dedicated connection
+    const client = await pool.connect();
+    try {
+      await client.query('BEGIN');
+      await migration.up(client);
+      await client.query('INSERT INTO schema_migrations (version, name, applied_at) VALUES ($1, $2, $3)',
+        [migration.version, migration.name, new Date().toISOString()]);
+      await client.query('COMMIT');
+      console.log(`Applied migration ${migration.version}: ${migration.name}`);
+    } catch (error) {
+      await client.query('ROLLBACK');
+      throw new Error(`Migration ${migration.version} (${migration.name}) failed: ${error.message}`);
+    } finally {
+      client.release();
+    }
+  }
+}
+
+module.exports = { runMigrations };
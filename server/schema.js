@@ -0,0 +1,280 @@
+// Canonical record shapes for everything the API reads and writes.
+// Field names match the client types in src/types/parking.ts; `column` is where each field is stored.
+// Request bodies are validated and mapped to columns here, and rows are mapped back before leaving the server.
+// Aliases accept the names used by older clients and by backups downloaded before the columns were renamed.
+
+// Vehicle categories live in the vehicle_types table, so `type` fields are checked against it by the routes
+const PAYMENT_STATUSES = ['paid', 'unpaid'];
+const ROUNDING_MINUTES = [15, 30, 60];
+const CNIC_PATTERN = /^\d{5}-\d{7}-\d{1}$/;
+const DISCOUNT_KINDS = ['percent', 'fixed', 'waiver'];
+const PAYMENT_METHODS = ['cash', 'card', 'jazzcash', 'easypaisa'];
+const PERIOD_PATTERN = /^\d{4}-(0[1-9]|1[0-2])$/;
+const DAY_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+// Stored as JSON inside vehicles.lost_ticket; matches LostTicket in src/types/parking.ts
+const lostTicketSchema = {
+  entity: 'lost_ticket',
+  fields: {
+    cnic: { type: 'string', required: true, pattern: CNIC_PATTERN },
+    note: { type: 'string', required: true },
+    penalty: { type: 'number', required: true }
+  }
+};
+
+// Stored as JSON inside vehicles.discount; matches FeeDiscount in src/types/parking.ts
+const discountSchema = {
+  entity: 'discount',
+  fields: {
+    kind: { type: 'string', required: true, values: DISCOUNT_KINDS },
+    value: { type: 'number' },
+    reasonCode: { type: 'string', required: true },
+    note: { type: 'string' }
+  }
+};
+
+const vehicleSchema = {
+  entity: 'vehicle',
+  table: 'vehicles',
+  fields: {
+    id: { column: 'id', type: 'string' },
+    number: { column: 'vehicle_number', type: 'string', required: true, aliases: ['vehicleNumber', 'vehiclenumber'] },
+    type: { column: 'vehicle_type', type: 'string', required: true, aliases: ['vehicleType', 'vehicletype'] },
+    entryTime: { column: 'entry_time', type: 'date', required: true, aliases: ['entrytime'] },
+    exitTime: { column: 'exit_time', type: 'date', aliases: ['exittime'] },
+    fee: { column: 'fee', type: 'number' },
+    calculatedFee: { column: 'calculated_fee', type: 'number' },
+    discount: { column: 'discount', type: 'json', schema: discountSchema },
+    paymentMethod: { column: 'payment_method', type: 'string', values: PAYMENT_METHODS },
+    amountTendered: { column: 'amount_tendered', type: 'number' },
+    changeGiven: { column: 'change_given', type: 'number' },
+    // Assigned by the server at entry; accepted from backups so restored tickets keep their numbers
+    ticketNumber: { column: 'ticket_number', type: 'string' },
+    lostTicket: { column: 'lost_ticket', type: 'json', schema: lostTicketSchema },
+    entryShiftId: { column: 'entry_shift_id', type: 'string' },
+    exitShiftId: { column: 'exit_shift_id', type: 'string' },
+    // Permanent client whose pass covered the visit; such visits are charged nothing
+    passClientId: { column: 'pass_client_id', type: 'string' },
+    // Usernames of the operators who recorded the entry and the exit; set by the server, kept by backups
+    enteredBy: { column: 'entered_by', type: 'string' },
+    exitedBy: { column: 'exited_by', type: 'string' },
+    updatedAt: { column: 'updated_at', type: 'date', readOnly: true }
+  }
+};
+
+const permanentClientSchema = {
+  entity: 'permanent_client',
+  table: 'permanent_clients',
+  constants: { isPermanent: true },
+  fields: {
+    id: { column: 'id', type: 'string' },
+    number: { column: 'vehicle_number', type: 'string', required: true, aliases: ['vehicleNumber', 'vehiclenumber'] },
+    clientName: { column: 'client_name', type: 'string', required: true, aliases: ['name'] },
+    // Clients saved before the vehicle type was stored were all treated as cars
+    type: { column: 'vehicle_type', type: 'string', required: true, aliases: ['vehicleType'], default: 'car' },
+    cnic: { column: 'cnic', type: 'string' },
+    monthlyFee: { column: 'monthly_fee', type: 'number' },
+    contact: { column: 'contact', type: 'string', required: true },
+    // Superseded by invoices; still accepted so older clients and backups keep working
+    paymentStatus: { column: 'payment_status', type: 'string', values: PAYMENT_STATUSES, aliases: ['paymentstatus'] },
+    paymentDate: { column: 'payment_date', type: 'date' },
+    entryTime: { column: 'entry_time', type: 'date', required: true, aliases: ['entrytime'] },
+    // Subscription plan from Settings and the term it currently covers; the server works out endDate
+    planId: { column: 'plan_id', type: 'string' },
+    startDate: { column: 'start_date', type: 'string', pattern: DAY_PATTERN },
+    endDate: { column: 'end_date', type: 'string', pattern: DAY_PATTERN },
+    updatedAt: { column: 'updated_at', type: 'date', readOnly: true }
+  }
+};
+
+// Stored as JSON inside vehicle_types.pricing; matches VehiclePricing in src/types/parking.ts
+const pricingSchema = {
+  entity: 'pricing',
+  fields: {
+    baseHours: { type: 'number', required: true },
+    baseFee: { type: 'number', required: true },
+    extraHourFee: { type: 'number', required: true },
+    nightHourFee: { type: 'number' },
+    gracePeriodMinutes: { type: 'number' },
+    overnightFee: { type: 'number' },
+    dailyMaximum: { type: 'number' },
+    roundingMinutes: { type: 'number', values: ROUNDING_MINUTES }
+  }
+};
+
+const vehicleTypeSchema = {
+  entity: 'vehicle_type',
+  table: 'vehicle_types',
+  fields: {
+    id: { column: 'id', type: 'string', required: true },
+    label: { column: 'label', type: 'string', required: true },
+    icon: { column: 'icon', type: 'string', default: 'car' },
+    pricing: { column: 'pricing', type: 'json', schema: pricingSchema, required: true },
+    sortOrder: { column: 'sort_order', type: 'number', default: 0 },
+    capacity: { column: 'capacity', type: 'number' },
+    updatedAt: { column: 'updated_at', type: 'date', readOnly: true }
+  }
+};
+
+// A cash drawer session on one counter. The closing fields stay empty while the shift is open;
+// expectedCash is the opening float plus the cash taken for exits recorded against the shift
+const shiftSchema = {
+  entity: 'shift',
+  table: 'shifts',
+  fields: {
+    id: { column: 'id', type: 'string' },
+    counter: { column: 'counter', type: 'string', required: true },
+    openedBy: { column: 'opened_by', type: 'string', required: true },
+    openedAt: { column: 'opened_at', type: 'date', required: true },
+    openingFloat: { column: 'opening_float', type: 'number', required: true },
+    closedBy: { column: 'closed_by', type: 'string' },
+    closedAt: { column: 'closed_at', type: 'date' },
+    countedCash: { column: 'counted_cash', type: 'number' },
+    expectedCash: { column: 'expected_cash', type: 'number' },
+    note: { column: 'note', type: 'string' },
+    updatedAt: { column: 'updated_at', type: 'date', readOnly: true }
+  }
+};
+
+// One month's charge for a permanent client, generated from its monthlyFee. Period is YYYY-MM and
+// dueDate YYYY-MM-DD; whether it is paid, due or overdue is worked out from its payments
+const invoiceSchema = {
+  entity: 'invoice',
+  table: 'invoices',
+  fields: {
+    id: { column: 'id', type: 'string', required: true },
+    clientId: { column: 'client_id', type: 'string', required: true },
+    period: { column: 'period', type: 'string', required: true, pattern: PERIOD_PATTERN },
+    amount: { column: 'amount', type: 'number', required: true },
+    dueDate: { column: 'due_date', type: 'string', required: true, pattern: DAY_PATTERN },
+    issuedAt: { column: 'issued_at', type: 'date', required: true },
+    // Last day of the term, on invoices raised for a subscription plan
+    coversTo: { column: 'covers_to', type: 'string', pattern: DAY_PATTERN },
+    updatedAt: { column: 'updated_at', type: 'date', readOnly: true }
+  }
+};
+
+const invoicePaymentSchema = {
+  entity: 'invoice_payment',
+  table: 'invoice_payments',
+  fields: {
+    id: { column: 'id', type: 'string' },
+    invoiceId: { column: 'invoice_id', type: 'string', required: true },
+    amount: { column: 'amount', type: 'number', required: true },
+    method: { column: 'method', type: 'string', values: PAYMENT_METHODS, default: 'cash' },
+    paidAt: { column: 'paid_at', type: 'date', required: true },
+    receivedBy: { column: 'received_by', type: 'string' },
+    note: { column: 'note', type: 'string' }
+  }
+};
+
+// Only the totals are stored; the per-type counts and vehicle lists are rebuilt on the client
+const dailyStatsSchema = {
+  entity: 'daily_stats',
+  table: 'daily_stats',
+  fields: {
+    date: { column: 'date', type: 'string', required: true },
+    totalVehicles: { column: 'total_vehicles', type: 'number', required: true, aliases: ['totalvehicles'] },
+    totalIncome: { column: 'total_income', type: 'number', required: true, aliases: ['totalRevenue', 'totalrevenue'] }
+  }
+};
+
+function parseValue(field, value) {
+  switch (field.type) {
+    case 'string':
+      if (typeof value !== 'string' && typeof value !== 'number') return { error: 'must be text' };
+      if (field.required && String(value).trim() === '') return { error: 'is required' };
+      if (field.values && !field.values.includes(String(value))) return { error: `must be one of ${field.values.join(', ')}` };
+      if (field.pattern && !field.pattern.test(String(value).trim())) return { error: 'is not in the expected format' };
+      return { value: String(value).trim() };
+    case 'number': {
+      const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+      if (typeof number !== 'number' || !Number.isFinite(number) || number < 0) return { error: 'must be a non-negative number' };
+      if (field.values && !field.values.includes(number)) return { error: `must be one of ${field.values.join(', ')}` };
+      return { value: number };
+    }
+    // Nested objects are validated against their own schema; cleared fields are left out
+    case 'json': {
+      if (!value || typeof value !== 'object' || Array.isArray(value)) return { error: 'must be an object' };
+      const { record, errors } = parseBody(field.schema, value);
+      if (errors.length > 0) return { error: `is invalid (${errors.join(', ')})` };
+      return { value: Object.fromEntries(Object.entries(record).filter(([, nested]) => nested !== null)) };
+    }
+    case 'date': {
+      const date = new Date(value);
+      if ((typeof value !== 'string' && typeof value !== 'number') || isNaN(date.getTime())) return { error: 'must be a valid date' };
+      return { value: date.toISOString() };
+    }
+    default:
+      return { value };
+  }
+}
+
+// Validates a request body against a schema. With `partial`, missing required fields are allowed
+// (updates only touch what they send). Unknown and read-only fields are ignored.
+function parseBody(schema, body, { partial = false } = {}) {
+  const record = {};
+  const errors = [];
+  const source = body && typeof body === 'object' ? body : {};
+
+  for (const [name, field] of Object.entries(schema.fields)) {
+    if (field.readOnly) continue;
+    const key = [name, ...(field.aliases || [])].find(candidate => source[candidate] !== undefined);
+    const raw = key !== undefined ? source[key] : undefined;
+    if (raw === undefined) {
+      if (partial) continue;
+      if (field.default !== undefined) record[name] = field.default;
+      else if (field.required) errors.push(`${name} is required`);
+      continue;
+    }
+    // Sending null or an empty string clears an optional field
+    if (raw === null || raw === '') {
+      if (field.required) errors.push(`${name} is required`);
+      else record[name] = null;
+      continue;
+    }
+    const { value, error } = parseValue(field, raw);
+    if (error) errors.push(`${name} ${error}`);
+    else record[name] = value;
+  }
+
+  return { record, errors };
+}
+
+// Maps a parsed record to [column, value] pairs in schema order
+function toColumns(schema, record) {
+  return Object.entries(schema.fields)
+    .filter(([name]) => record[name] !== undefined)
+    .map(([name, field]) => [field.column, field.type === 'json' && record[name] !== null ? JSON.stringify(record[name]) : record[name]]);
+}
+
+// Maps a database row back to the canonical record; empty columns are left out
+function fromRow(schema, row) {
+  if (!row) return null;
+  const record = {};
+  for (const [name, field] of Object.entries(schema.fields)) {
+    const value = row[field.column];
+    if (value === null || value === undefined) continue;
+    if (field.type === 'number') record[name] = Number(value);
+    else if (field.type === 'json') record[name] = JSON.parse(value);
+    else record[name] = value;
+  }
+  return { ...record, ...schema.constants };
+}
+
+module.exports = {
+  PAYMENT_STATUSES,
+  PAYMENT_METHODS,
+  PERIOD_PATTERN,
+  DAY_PATTERN,
+  vehicleSchema,
+  permanentClientSchema,
+  vehicleTypeSchema,
+  shiftSchema,
+  invoiceSchema,
+  invoicePaymentSchema,
+  dailyStatsSchema,
+  parseBody,
+  toColumns,
+  fromRow
+};
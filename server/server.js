@@ -2,7 +2,14 @@ const express = require('express');
 const cors = require('cors');
 const path = require('path');
 const fs = require('fs').promises;
+const { AsyncLocalStorage } = require('async_hooks');
+const { promisify } = require('util');
+const zlib = require('zlib');
+const { randomUUID } = require('crypto');
 const { Pool } = require('pg');
+const { hashPassword, verifyPassword, createSessionToken, verifySessionToken, signTicket, verifyTicketSignature, generateSecret } = require('./auth');
+const { runMigrations } = require('./migrations');
+const { PERIOD_PATTERN, DAY_PATTERN, vehicleSchema, permanentClientSchema, vehicleTypeSchema, shiftSchema, invoiceSchema, invoicePaymentSchema, dailyStatsSchema, parseBody, toColumns, fromRow } = require('./schema');
 
 const app = express();
 const PORT = process.env.PORT || 3001;
@@ -18,59 +25,24 @@ let db = pool;
 
 // Middleware
 app.use(cors());
-app.use(express.json());
+// Backup imports post whole datasets, well past the default 100kb
+app.use(express.json({ limit: '25mb' }));
 
-// Default settings object
+// Default settings object; vehicle categories and their pricing are seeded into vehicle_types by migrations.js
 const defaultSettings = {
   siteName: "Park Master Pro",
-  pricing: {
-    car: { baseHours: 2, baseFee: 50, extraHourFee: 25 },
-    bike: { baseHours: 2, baseFee: 20, extraHourFee: 10 },
-    rickshaw: { baseHours: 2, baseFee: 30, extraHourFee: 15 }
-  },
-  credentials: {
-    username: process.env.ADMIN_USERNAME || "admin",
-    password: process.env.ADMIN_PASSWORD || "admin123"
-  },
   viewMode: "grid"
 };
 
+// Secret used to sign session tokens; loaded or generated in initializeDatabase
+let sessionSecret = process.env.SESSION_SECRET || null;
+
 // --- Database Initialization and Migration ---
 async function initializeDatabase() {
   console.log('Connecting to PostgreSQL database...');
 
-  // Create tables if they don't exist (PostgreSQL syntax)
-  await db.query(`
-    CREATE TABLE IF NOT EXISTS vehicles (
-      id TEXT PRIMARY KEY,
-      vehicleNumber TEXT NOT NULL,
-      vehicleType TEXT NOT NULL,
-      entryTime TEXT NOT NULL,
-      exitTime TEXT,
-      fee REAL
-    );
-
-    CREATE TABLE IF NOT EXISTS permanent_clients (
-      id TEXT PRIMARY KEY,
-      name TEXT NOT NULL,
-      vehicleNumber TEXT NOT NULL,
-      contact TEXT NOT NULL,
-      paymentStatus TEXT NOT NULL DEFAULT 'unpaid',
-      entryTime TEXT NOT NULL
-    );
-
-    CREATE TABLE IF NOT EXISTS settings (
-      key TEXT PRIMARY KEY,
-      value TEXT NOT NULL
-    );
-
-    CREATE TABLE IF NOT EXISTS daily_stats (
-      date TEXT PRIMARY KEY,
-      totalVehicles INTEGER NOT NULL,
-      totalRevenue REAL NOT NULL
-    );
-  `);
-
+  // Create and upgrade tables through the versioned migrations in migrations.js
+  await runMigrations(pool);
   console.log('Database tables created/verified.');
 
   // Check if settings are initialized
@@ -80,29 +52,66 @@ async function initializeDatabase() {
     console.log('Default settings initialized.');
   }
 
+  await initializeAuth();
+
   // One-time migration from JSON files
   await migrateDataFromJsons();
 }
 
+// Operators live in the users table with salted password hashes; credentials never sit inside app_settings
+async function initializeAuth() {
+  const userCount = await db.query('SELECT COUNT(*) AS count FROM users');
+  if (Number(userCount.rows[0].count) === 0) {
+    // Seed the first owner from the single admin account used by earlier versions, if there is one
+    const credentialsRow = await db.query('SELECT value FROM settings WHERE key = $1', ['admin_credentials']);
+    const settingsRow = await db.query('SELECT value FROM settings WHERE key = $1', ['app_settings']);
+    const { credentials, ...settings } = JSON.parse(settingsRow.rows[0].value);
+
+    let username = process.env.ADMIN_USERNAME || credentials?.username || 'admin';
+    let passwordHash = hashPassword(process.env.ADMIN_PASSWORD || credentials?.password || 'admin123');
+    if (credentialsRow.rows.length > 0) {
+      ({ username, passwordHash } = JSON.parse(credentialsRow.rows[0].value));
+    }
+
+    await db.query('INSERT INTO users (id, username, display_name, password_hash, role, active, created_at) VALUES ($1, $2, $3, $4, $5, $6, $7)',
+      [Date.now().toString(), username, 'Owner', passwordHash, 'owner', true, new Date().toISOString()]);
+    await db.query('UPDATE settings SET value = $1 WHERE key = $2', [JSON.stringify(settings), 'app_settings']);
+    await db.query('DELETE FROM settings WHERE key = $1', ['admin_credentials']);
+    console.log('Owner account initialized.');
+  }
+
+  if (!sessionSecret) {
+    const secretRow = await db.query('SELECT value FROM settings WHERE key = $1', ['session_secret']);
+    if (secretRow.rows.length > 0) {
+      sessionSecret = secretRow.rows[0].value;
+    } else {
+      sessionSecret = generateSecret();
+      await db.query('INSERT INTO settings (key, value) VALUES ($1, $2)', ['session_secret', sessionSecret]);
+    }
+  }
+}
+
 async function migrateDataFromJsons() {
   const DATA_DIR = path.join(__dirname, 'data');
-  const filesToMigrate = {
-    vehicles: path.join(DATA_DIR, 'vehicles.json'),
-    permanent_clients: path.join(DATA_DIR, 'permanent-clients.json'),
-    daily_stats: path.join(DATA_DIR, 'daily-stats.json')
-  };
+  const filesToMigrate = [
+    [vehicleSchema, path.join(DATA_DIR, 'vehicles.json')],
+    [permanentClientSchema, path.join(DATA_DIR, 'permanent-clients.json')],
+    [dailyStatsSchema, path.join(DATA_DIR, 'daily-stats.json')]
+  ];
 
-  for (const [table, filePath] of Object.entries(filesToMigrate)) {
+  for (const [schema, filePath] of filesToMigrate) {
     try {
       await fs.access(filePath);
       const data = JSON.parse(await fs.readFile(filePath, 'utf8'));
       if (data.length > 0) {
         console.log(`Migrating data from ${path.basename(filePath)}...`);
         for (const item of data) {
-          const keys = Object.keys(item);
-          const placeholders = keys.map((_, i) => `$${i + 1}`).join(', ');
-          const values = Object.values(item);
-          await db.query(`INSERT INTO ${table} (${keys.join(', ')}) VALUES (${placeholders}) ON CONFLICT DO NOTHING`, values);
+          const { record, errors } = parseBody(schema, item);
+          if (errors.length > 0) {
+            console.warn(`Skipping invalid ${schema.entity} in ${path.basename(filePath)}: ${errors.join('; ')}`);
+            continue;
+          }
+          await insertRecord(schema, record, { onConflict: 'DO NOTHING' });
         }
         await fs.rename(filePath, `${filePath}.migrated`);
         console.log(`Migration successful for ${path.basename(filePath)}.`);
@@ -114,42 +123,246 @@ async function migrateDataFromJsons() {
 }
 
 // --- PostgreSQL Helper Functions ---
+// Queries made inside withTransaction run on its dedicated connection; everything else uses the pool
+const transactionConnection = new AsyncLocalStorage();
+
+function currentConnection() {
+  return transactionConnection.getStore() || db;
+}
+
 // Convert SQLite-style queries (?) to PostgreSQL-style ($1, $2, etc.)
 async function dbGet(query, ...params) {
   let paramIndex = 1;
   const pgQuery = query.replace(/\?/g, () => `$${paramIndex++}`);
-  const result = await db.query(pgQuery, params);
+  const result = await currentConnection().query(pgQuery, params);
   return result.rows[0] || null;
 }
 
 async function dbAll(query, ...params) {
   let paramIndex = 1;
   const pgQuery = query.replace(/\?/g, () => `$${paramIndex++}`);
-  const result = await db.query(pgQuery, params);
+  const result = await currentConnection().query(pgQuery, params);
   return result.rows;
 }
 
 async function dbRun(query, ...params) {
   let paramIndex = 1;
   const pgQuery = query.replace(/\?/g, () => `$${paramIndex++}`);
-  const result = await db.query(pgQuery, params);
+  const result = await currentConnection().query(pgQuery, params);
   return { changes: result.rowCount };
 }
 
+// BEGIN on the shared pool could land on a different connection from the statements after it,
+// so a transaction holds one connection until it commits or rolls back
+async function withTransaction(work) {
+  const connection = await pool.connect();
+  try {
+    await connection.query('BEGIN');
+    const result = await transactionConnection.run(connection, work);
+    await connection.query('COMMIT');
+    return result;
+  } catch (error) {
+    await connection.query('ROLLBACK');
+    throw error;
+  } finally {
+    connection.release();
+  }
+}
+
+// --- Record Helpers ---
+// Build INSERT/UPDATE statements from records already validated by schema.parseBody
+async function insertRecord(schema, record, { extraColumns = [], onConflict = '' } = {}) {
+  const columns = [...toColumns(schema, record), ...extraColumns];
+  const placeholders = columns.map(() => '?').join(', ');
+  return dbRun(`INSERT INTO ${schema.table} (${columns.map(([column]) => column).join(', ')}) VALUES (${placeholders}) ${onConflict ? `ON CONFLICT ${onConflict}` : ''}`,
+    ...columns.map(([, value]) => value));
+}
+
+async function updateRecord(schema, id, record, { extraColumns = [], where = '' } = {}) {
+  const columns = [...toColumns(schema, record), ...extraColumns];
+  return dbRun(`UPDATE ${schema.table} SET ${columns.map(([column]) => `${column} = ?`).join(', ')} WHERE id = ? ${where}`,
+    ...columns.map(([, value]) => value), id);
+}
+
+async function findRecord(schema, id) {
+  return fromRow(schema, await dbGet(`SELECT * FROM ${schema.table} WHERE id = ?`, id));
+}
+
+// Vehicles and clients may only use a category that exists in vehicle_types
+async function checkVehicleType(record, errors) {
+  if (record.type === undefined || record.type === null) return;
+  const vehicleType = await dbGet('SELECT id FROM vehicle_types WHERE id = ?', record.type);
+  if (!vehicleType) errors.push(`type "${record.type}" is not a configured vehicle type`);
+}
+
+function sendValidationError(res, schema, errors) {
+  return res.status(400).json({ error: `Invalid ${schema.entity.replace('_', ' ')}: ${errors.join('; ')}`, details: errors });
+}
+
+// --- Audit Log ---
+// Append-only: rows are only ever inserted here, and no route updates or deletes them.
+// A failed audit write is logged but never undoes the operation it describes.
+async function recordAudit(actor, action, entityType, entityId, before, after) {
+  try {
+    await dbRun('INSERT INTO audit_log (created_at, actor_id, actor_username, action, entity_type, entity_id, before_data, after_data) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
+      new Date().toISOString(),
+      actor?.id || null,
+      actor?.username || null,
+      action,
+      entityType,
+      entityId != null ? String(entityId) : null,
+      before !== undefined ? JSON.stringify(before) : null,
+      after !== undefined ? JSON.stringify(after) : null);
+  } catch (error) {
+    console.error(`Failed to write audit record for ${action}:`, error);
+  }
+}
+
+function toAuditEntry(row) {
+  return {
+    id: String(row.id),
+    createdAt: row.created_at,
+    actorId: row.actor_id,
+    actorUsername: row.actor_username,
+    action: row.action,
+    entityType: row.entity_type,
+    entityId: row.entity_id,
+    before: row.before_data ? JSON.parse(row.before_data) : null,
+    after: row.after_data ? JSON.parse(row.after_data) : null
+  };
+}
+
+// --- Change Feed ---
+// Every write to a synced record appends a change so terminals can pull deltas with GET /api/changes.
+// The "upsert" payload is the full record as the API returns it; "delete" carries no payload, and
+// "reset" tells terminals to reload everything (used after a backup restore replaces whole tables).
+async function recordChange(entityType, entityId, op, data, clientId) {
+  const row = await dbGet('INSERT INTO changes (entity_type, entity_id, op, data, client_id, created_at) VALUES (?, ?, ?, ?, ?, ?) RETURNING *',
+    entityType, String(entityId), op, data !== undefined ? JSON.stringify(data) : null, clientId || null, new Date().toISOString());
+  broadcastChange(toChange(row));
+}
+
+// --- Live Events ---
+// Terminals keep a Server-Sent Events stream open on /api/events and receive each change as soon as it is recorded
+const eventStreams = new Set();
+
+function broadcastChange(change) {
+  for (const stream of eventStreams) {
+    stream.send(change);
+  }
+}
+
+function toChange(row) {
+  return {
+    seq: Number(row.seq),
+    entityType: row.entity_type,
+    entityId: row.entity_id,
+    op: row.op,
+    data: row.data ? JSON.parse(row.data) : null,
+    clientId: row.client_id
+  };
+}
+
+// Identifies the terminal that made a change so it can be told apart in the feed
+function getClientId(req) {
+  return req.get('X-Client-Id') || null;
+}
+
+// Short code set on each terminal (A, B, ...) that prefixes the ticket numbers it issues
+function getCounter(req) {
+  return String(req.get('X-Counter') || '').toUpperCase().replace(/[^A-Z0-9]/g, '').slice(0, 3) || 'A';
+}
+
 // --- API Routes ---
 
 // Authentication
+// Roles are ordered: each one can do everything the roles before it can
+const ROLES = ['attendant', 'supervisor', 'owner'];
+
+function toUser(row) {
+  return {
+    id: row.id,
+    username: row.username,
+    displayName: row.display_name || '',
+    role: row.role,
+    active: row.active,
+    createdAt: row.created_at
+  };
+}
+
+// Every API route except these requires a valid session token
+const PUBLIC_API_ROUTES = ['/auth/login', '/health'];
+
+app.use('/api', async (req, res, next) => {
+  if (PUBLIC_API_ROUTES.includes(req.path)) return next();
+  const header = req.headers.authorization || '';
+  // EventSource cannot send headers, so the live event stream passes its token in the query string
+  const token = header.startsWith('Bearer ') ? header.slice(7) : (req.path === '/events' ? req.query.token : null);
+  const session = verifySessionToken(token, sessionSecret);
+  // Approval tokens are signed the same way but only vouch for one action, never for a session
+  if (!session || session.purpose) {
+    return res.status(401).json({ error: 'Authentication required' });
+  }
+  try {
+    // Look the user up on every request so role changes and deactivations apply immediately
+    const row = await dbGet('SELECT * FROM users WHERE id = ?', session.sub);
+    if (!row || !row.active) {
+      return res.status(401).json({ error: 'Authentication required' });
+    }
+    req.user = toUser(row);
+    next();
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to verify session' });
+  }
+});
+
+function requireRole(minimumRole) {
+  return (req, res, next) => {
+    if (ROLES.indexOf(req.user?.role) < ROLES.indexOf(minimumRole)) {
+      return res.status(403).json({ error: 'You do not have permission to do this' });
+    }
+    next();
+  };
+}
+
+// Terminals replaying their offline queue send an Idempotency-Key; a repeated key gets the
+// stored response instead of running the write twice. Only successful responses are kept.
+function idempotent(req, res, next) {
+  const key = req.get('Idempotency-Key');
+  if (!key) return next();
+
+  dbGet('SELECT * FROM idempotency_keys WHERE key = ?', key).then((saved) => {
+    if (saved) {
+      return res.status(saved.status_code).json(JSON.parse(saved.response));
+    }
+    const sendJson = res.json.bind(res);
+    res.json = (body) => {
+      if (res.statusCode < 300) {
+        dbRun('INSERT INTO idempotency_keys (key, status_code, response, created_at) VALUES (?, ?, ?, ?) ON CONFLICT (key) DO NOTHING',
+          key, res.statusCode, JSON.stringify(body), new Date().toISOString())
+          .catch((error) => console.error('Failed to store idempotency key:', error));
+      }
+      return sendJson(body);
+    };
+    next();
+  }).catch(() => res.status(500).json({ error: 'Failed to check idempotency key' }));
+}
+
+// Never hand credentials back to the browser, even if an old client posts them
+function stripCredentials(settings) {
+  const { credentials, ...rest } = settings || {};
+  return rest;
+}
+
 app.post('/api/auth/login', async (req, res) => {
   try {
     const { username, password } = req.body;
-    const settingsRow = await dbGet('SELECT value FROM settings WHERE key = ?', 'app_settings');
-    const settings = JSON.parse(settingsRow.value);
-    // Override with environment variables if they are set
-    settings.credentials.username = process.env.ADMIN_USERNAME || settings.credentials.username;
-    settings.credentials.password = process.env.ADMIN_PASSWORD || settings.credentials.password;
+    const row = await dbGet('SELECT * FROM users WHERE username = ?', typeof username === 'string' ? username.trim() : '');
 
-    if (username === settings.credentials.username && password === settings.credentials.password) {
-      res.json({ success: true, message: 'Login successful' });
+    if (row && row.active && verifyPassword(password, row.password_hash)) {
+      const token = createSessionToken({ sub: row.id }, sessionSecret);
+      await recordAudit(toUser(row), 'auth.login', 'user', row.id);
+      res.json({ success: true, message: 'Login successful', token, user: toUser(row) });
     } else {
       res.status(401).json({ success: false, message: 'Invalid credentials' });
     }
@@ -158,40 +371,456 @@ app.post('/api/auth/login', async (req, res) => {
   }
 });
 
+app.get('/api/auth/session', (req, res) => {
+  res.json({ user: req.user });
+});
+
+// A supervisor standing at an attendant's counter approves one over-capacity entry with their own
+// credentials. The approval is tied to that vehicle and lasts long enough for an offline replay.
+const CAPACITY_APPROVAL_TTL_MS = 12 * 60 * 60 * 1000;
+
+app.post('/api/auth/approvals/capacity', async (req, res) => {
+  try {
+    const { username, password, number, type } = req.body;
+    const row = await dbGet('SELECT * FROM users WHERE username = ?', typeof username === 'string' ? username.trim() : '');
+    // 403 rather than 401: the operator at the counter is still signed in, only the approval is refused
+    if (!row || !row.active || !verifyPassword(password, row.password_hash)) {
+      return res.status(403).json({ error: 'Invalid supervisor credentials' });
+    }
+    if (ROLES.indexOf(row.role) < ROLES.indexOf('supervisor')) {
+      return res.status(403).json({ error: 'Only a supervisor or owner can approve this' });
+    }
+    const approval = createSessionToken({
+      sub: row.id,
+      purpose: 'capacity_override',
+      number: normalizeVehicleNumber(number),
+      type
+    }, sessionSecret, CAPACITY_APPROVAL_TTL_MS);
+    res.json({ approval, approver: toUser(row) });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to approve override' });
+  }
+});
+
+// Lets any signed-in operator change their own username and password
+app.put('/api/auth/credentials', async (req, res) => {
+  try {
+    const { currentPassword, username, password } = req.body;
+    const row = await dbGet('SELECT * FROM users WHERE id = ?', req.user.id);
+    if (!verifyPassword(currentPassword, row.password_hash)) {
+      return res.status(403).json({ error: 'Current password is incorrect' });
+    }
+    if (!username || !username.trim()) {
+      return res.status(400).json({ error: 'Username is required' });
+    }
+    const taken = await dbGet('SELECT id FROM users WHERE username = ? AND id <> ?', username.trim(), req.user.id);
+    if (taken) {
+      return res.status(409).json({ error: 'Username is already in use' });
+    }
+    const passwordHash = password ? hashPassword(password) : row.password_hash;
+    await dbRun('UPDATE users SET username = ?, password_hash = ? WHERE id = ?', username.trim(), passwordHash, req.user.id);
+    const updatedUser = toUser(await dbGet('SELECT * FROM users WHERE id = ?', req.user.id));
+    await recordAudit(req.user, 'user.credentials', 'user', req.user.id,
+      { username: row.username }, { username: updatedUser.username, passwordChanged: !!password });
+    res.json({ success: true, user: updatedUser });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to update credentials' });
+  }
+});
+
+// Users
+app.get('/api/users', requireRole('owner'), async (req, res) => {
+  try {
+    const users = await dbAll('SELECT * FROM users ORDER BY created_at');
+    res.json(users.map(toUser));
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch users' });
+  }
+});
+
+app.post('/api/users', requireRole('owner'), async (req, res) => {
+  try {
+    const { username, displayName, password, role } = req.body;
+    if (!username || !username.trim() || !password) {
+      return res.status(400).json({ error: 'Username and password are required' });
+    }
+    if (!ROLES.includes(role)) {
+      return res.status(400).json({ error: 'Invalid role' });
+    }
+    if (await dbGet('SELECT id FROM users WHERE username = ?', username.trim())) {
+      return res.status(409).json({ error: 'Username is already in use' });
+    }
+    const id = Date.now().toString();
+    await dbRun('INSERT INTO users (id, username, display_name, password_hash, role, active, created_at) VALUES (?, ?, ?, ?, ?, ?, ?)',
+      id, username.trim(), displayName || '', hashPassword(password), role, true, new Date().toISOString());
+    const user = toUser(await dbGet('SELECT * FROM users WHERE id = ?', id));
+    await recordAudit(req.user, 'user.create', 'user', id, undefined, user);
+    res.json(user);
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to add user' });
+  }
+});
+
+app.put('/api/users/:id', requireRole('owner'), async (req, res) => {
+  try {
+    const existing = await dbGet('SELECT * FROM users WHERE id = ?', req.params.id);
+    if (!existing) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+    const { displayName, password, role, active } = req.body;
+    const updated = {
+      displayName: displayName ?? existing.display_name,
+      passwordHash: password ? hashPassword(password) : existing.password_hash,
+      role: role ?? existing.role,
+      active: active ?? existing.active
+    };
+    if (!ROLES.includes(updated.role)) {
+      return res.status(400).json({ error: 'Invalid role' });
+    }
+    // The lot must always keep at least one active owner
+    if (existing.role === 'owner' && existing.active && (updated.role !== 'owner' || !updated.active)) {
+      const owners = await dbGet("SELECT COUNT(*) AS count FROM users WHERE role = 'owner' AND active = TRUE");
+      if (Number(owners.count) <= 1) {
+        return res.status(400).json({ error: 'At least one active owner is required' });
+      }
+    }
+    await dbRun('UPDATE users SET display_name = ?, password_hash = ?, role = ?, active = ? WHERE id = ?',
+      updated.displayName, updated.passwordHash, updated.role, updated.active, req.params.id);
+    const user = toUser(await dbGet('SELECT * FROM users WHERE id = ?', req.params.id));
+    await recordAudit(req.user, 'user.update', 'user', req.params.id,
+      toUser(existing), { ...user, passwordChanged: !!password });
+    res.json(user);
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to update user' });
+  }
+});
+
+app.delete('/api/users/:id', requireRole('owner'), async (req, res) => {
+  try {
+    if (req.params.id === req.user.id) {
+      return res.status(400).json({ error: 'You cannot remove your own account' });
+    }
+    const existing = await dbGet('SELECT * FROM users WHERE id = ?', req.params.id);
+    const result = await dbRun('DELETE FROM users WHERE id = ?', req.params.id);
+    if (result.changes === 0) {
+      return res.status(404).json({ error: 'User not found' });
+    }
+    await recordAudit(req.user, 'user.delete', 'user', req.params.id, toUser(existing), undefined);
+    res.json({ success: true });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to remove user' });
+  }
+});
+
 // Vehicles
+function normalizeVehicleNumber(number) {
+  return String(number || '').replace(/\s+/g, '').toUpperCase();
+}
+
+// Exit details, the ticket number and the operator are never taken from an entry request
+const NOT_SET_AT_ENTRY = Object.fromEntries([
+  'exitTime', 'fee', 'calculatedFee', 'discount', 'lostTicket', 'paymentMethod', 'amountTendered', 'changeGiven', 'ticketNumber', 'exitShiftId',
+  'enteredBy', 'exitedBy'
+].map(name => [name, undefined]));
+
+// Capacity is checked at the counter, so entries queued offline are never refused on replay.
+// An entry past capacity carries an override instead, approved either by the signed-in operator
+// being a supervisor or by an approval token from /api/auth/approvals/capacity.
+async function resolveCapacityApprover(req, override, record) {
+  if (override.approval) {
+    const claims = verifySessionToken(override.approval, sessionSecret);
+    if (!claims || claims.purpose !== 'capacity_override' || claims.type !== record.type
+      || claims.number !== normalizeVehicleNumber(record.number)) {
+      return null;
+    }
+    const row = await dbGet('SELECT * FROM users WHERE id = ?', claims.sub);
+    return row && row.active && ROLES.indexOf(row.role) >= ROLES.indexOf('supervisor') ? toUser(row) : null;
+  }
+  return ROLES.indexOf(req.user.role) >= ROLES.indexOf('supervisor') ? req.user : null;
+}
+
+// Numbers run per counter and per day of entry, e.g. A-20261019-0042. The upsert hands out each
+// number once even when two requests for the same counter arrive together.
+async function nextTicketNumber(counter, entryTime) {
+  const date = new Date(entryTime);
+  const day = `${date.getFullYear()}${String(date.getMonth() + 1).padStart(2, '0')}${String(date.getDate()).padStart(2, '0')}`;
+  const row = await dbGet(`INSERT INTO ticket_sequences (counter, day, last_number) VALUES (?, ?, 1)
+    ON CONFLICT (counter, day) DO UPDATE SET last_number = ticket_sequences.last_number + 1 RETURNING last_number`, counter, day);
+  return `${counter}-${day}-${String(row.last_number).padStart(4, '0')}`;
+}
+
+// The barcode carries the short ticket number as its serial so it scans off a thermal receipt; the vehicle
+// id is only the record key. The signature covers the id, plate and entry time held here, so a ticket cannot
+// be reprinted with a later entry or moved to another vehicle.
+function ticketData(vehicle) {
+  return `${vehicle.id}|${normalizeVehicleNumber(vehicle.number)}|${new Date(vehicle.entryTime).getTime()}`;
+}
+
+function issueTicket(vehicle) {
+  return `${vehicle.ticketNumber || vehicle.id}-${signTicket(ticketData(vehicle), sessionSecret)}`;
+}
+
+// Tickets printed before they carried the ticket number have the vehicle id as their serial
+async function findTicketVehicle(serial) {
+  return fromRow(vehicleSchema, await dbGet('SELECT * FROM vehicles WHERE ticket_number = ?', serial))
+    || findRecord(vehicleSchema, serial);
+}
+
+// Pass cards carry "PASS<client id>-<signature>" and never change from month to month; whether the
+// pass is paid up is checked at the gate. The signature covers the plate, so editing it voids the card.
+const PASS_CODE_PREFIX = 'PASS';
+
+function passData(client) {
+  return `pass|${client.id}|${normalizeVehicleNumber(client.number)}`;
+}
+
+function issuePassCode(client) {
+  return `${PASS_CODE_PREFIX}${client.id}-${signTicket(passData(client), sessionSecret)}`;
+}
+
+// Entries and exits are tagged with the shift they happened in. Terminals send the shift that was open
+// at the time, so an operation replayed from the offline queue keeps it; otherwise the counter's open shift is used
+async function findOpenShift(counter) {
+  return fromRow(shiftSchema, await dbGet('SELECT * FROM shifts WHERE counter = ? AND closed_at IS NULL', counter));
+}
+
+async function checkPassClient(record, errors) {
+  if (!record.passClientId) return;
+  const client = await dbGet('SELECT id FROM permanent_clients WHERE id = ?', record.passClientId);
+  if (!client) errors.push(`permanent client "${record.passClientId}" does not exist`);
+}
+
+// Same as isNightHour in src/utils/tariff.ts; a band that starts after it ends runs past midnight
+function isNightHour(hour, band) {
+  if (band.startHour === band.endHour) return false;
+  return band.startHour < band.endHour
+    ? hour >= band.startHour && hour < band.endHour
+    : hour >= band.startHour || hour < band.endHour;
+}
+
+// Day and night plans only apply while a night band is configured
+function isWithinPlanHours(plan, nightBand, at) {
+  if (plan.hours === 'all' || !nightBand) return true;
+  const night = isNightHour(at.getHours(), nightBand);
+  return plan.hours === 'night' ? night : !night;
+}
+
+// A pass exit is charged nothing, so it is held to the rules of checkPass in src/utils/passes.ts as of the
+// exit time, which an exit replayed from the offline queue keeps. The pass must be for the plate leaving and
+// no invoice may be unpaid on or after its due date. A client on a plan is covered until its endDate and only
+// in the plan's hours; a client invoiced monthly is covered once the month of the exit has been invoiced.
+async function checkPassStanding(record, vehicle, errors) {
+  if (!record.passClientId || !vehicle) return;
+  const client = await findRecord(permanentClientSchema, record.passClientId);
+  if (!client) return;
+  if (normalizeVehicleNumber(client.number) !== normalizeVehicleNumber(vehicle.number)) {
+    errors.push(`pass for ${client.number} does not cover vehicle ${vehicle.number}`);
+    return;
+  }
+  const exitTime = new Date(record.exitTime);
+  const exitDay = currentDay(exitTime);
+  const invoices = await dbAll(`SELECT i.id, i.period, i.due_date, i.amount, COALESCE(SUM(p.amount), 0) AS paid FROM invoices i
+    LEFT JOIN invoice_payments p ON p.invoice_id = i.id WHERE i.client_id = ? GROUP BY i.id, i.period, i.due_date, i.amount`, client.id);
+  const owed = invoices.filter(invoice => invoice.due_date <= exitDay && Number(invoice.amount) > Number(invoice.paid));
+  if (owed.length > 0) {
+    errors.push(`pass for ${client.number} has ${owed.length} unpaid invoice${owed.length === 1 ? '' : 's'}`);
+  }
+  if (client.endDate) {
+    if (exitDay > client.endDate) errors.push(`pass for ${client.number} expired on ${client.endDate}`);
+  } else if (client.monthlyFee && !invoices.some(invoice => invoice.period === currentPeriod(exitTime))) {
+    errors.push(`pass for ${client.number} has not been renewed for ${currentPeriod(exitTime)}`);
+  }
+  const settings = await readSettings();
+  const plan = (settings.subscriptionPlans || []).find(candidate => candidate.id === client.planId);
+  if (plan && !isWithinPlanHours(plan, settings.nightBand, exitTime)) {
+    errors.push(`pass for ${client.number} is not valid at this hour on plan "${plan.name}"`);
+  }
+}
+
+// A discount needs a reason from the list managed in Settings, and percent and fixed discounts need their value
+async function checkDiscount(record, errors) {
+  const { discount } = record;
+  if (!discount) return;
+  if (discount.kind !== 'waiver' && discount.value == null) {
+    errors.push(`discount value is required for a ${discount.kind} discount`);
+  } else if (discount.value < 0) {
+    errors.push('discount value cannot be negative');
+  } else if (discount.kind === 'percent' && discount.value > 100) {
+    errors.push('discount value cannot be more than 100 percent');
+  }
+  const { discountReasons = [] } = await readSettings();
+  if (!discountReasons.some(reason => reason.code === discount.reasonCode)) {
+    errors.push(`discount reason "${discount.reasonCode}" is not one of the configured discount reasons`);
+  }
+}
+
+async function resolveShiftId(req, shiftId, errors) {
+  if (shiftId) {
+    const shift = await dbGet('SELECT id FROM shifts WHERE id = ?', shiftId);
+    if (!shift) errors.push(`shift "${shiftId}" does not exist`);
+    return shiftId;
+  }
+  const openShift = await findOpenShift(getCounter(req));
+  return openShift ? openShift.id : undefined;
+}
+
+// Terminals ask for the vehicles still parked plus those seen "since" the start of the day or shift, and
+// a Z-Report for an earlier shift asks by "shiftId". Without either every vehicle is returned for backups.
 app.get('/api/vehicles', async (req, res) => {
   try {
-    const vehicles = await dbAll('SELECT * FROM vehicles');
-    res.json(vehicles);
+    const { since, shiftId } = req.query;
+    if (since !== undefined && isNaN(Date.parse(since))) {
+      return res.status(400).json({ error: 'since must be a date and time' });
+    }
+    const conditions = [];
+    const params = [];
+    if (since !== undefined) {
+      const start = new Date(since).toISOString();
+      conditions.push('(exit_time IS NULL OR entry_time >= ? OR exit_time >= ?)');
+      params.push(start, start);
+    }
+    if (shiftId) { conditions.push('(entry_shift_id = ? OR exit_shift_id = ?)'); params.push(shiftId, shiftId); }
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const vehicles = await dbAll(`SELECT * FROM vehicles ${where}`, ...params);
+    res.json(vehicles.map(row => fromRow(vehicleSchema, row)));
   } catch (error) {
     res.status(500).json({ error: 'Failed to fetch vehicles' });
   }
 });
 
-app.post('/api/vehicles', async (req, res) => {
+app.post('/api/vehicles', idempotent, async (req, res) => {
   try {
-    const newVehicle = {
-      ...req.body,
-      id: Date.now().toString(),
-      entryTime: new Date().toISOString()
-    };
-    await dbRun('INSERT INTO vehicles (id, vehicleNumber, vehicleType, entryTime) VALUES (?, ?, ?, ?)',
-      newVehicle.id, newVehicle.vehicleNumber, newVehicle.vehicleType, newVehicle.entryTime);
-    res.json(newVehicle);
+    const now = new Date().toISOString();
+    // Receipts printed offline already carry the terminal's id and entry time, so keep both
+    const { record, errors } = parseBody(vehicleSchema, { entryTime: now, ...req.body, ...NOT_SET_AT_ENTRY });
+    await checkVehicleType(record, errors);
+    await checkPassClient(record, errors);
+    record.entryShiftId = await resolveShiftId(req, record.entryShiftId, errors);
+    if (errors.length > 0) {
+      return sendValidationError(res, vehicleSchema, errors);
+    }
+    const id = record.id || randomUUID();
+    const existingVehicle = await findRecord(vehicleSchema, id);
+    if (existingVehicle) {
+      return res.status(409).json({ error: 'Vehicle already exists', vehicle: existingVehicle });
+    }
+    const { capacityOverride } = req.body;
+    const approver = capacityOverride ? await resolveCapacityApprover(req, capacityOverride, record) : null;
+    if (capacityOverride && !approver) {
+      return res.status(403).json({ error: 'Supervisor approval is required to exceed capacity' });
+    }
+    const ticketNumber = await nextTicketNumber(getCounter(req), record.entryTime);
+    await insertRecord(vehicleSchema, { ...record, id, ticketNumber, enteredBy: req.user.username }, { extraColumns: [['updated_at', now], ['client_id', getClientId(req)]] });
+    const newVehicle = await findRecord(vehicleSchema, id);
+    await recordChange('vehicle', id, 'upsert', newVehicle, getClientId(req));
+    await recordAudit(req.user, 'vehicle.entry', 'vehicle', id, undefined, newVehicle);
+    if (approver) {
+      const vehicleType = await findRecord(vehicleTypeSchema, record.type);
+      const occupied = await dbGet('SELECT COUNT(*) AS count FROM vehicles WHERE vehicle_type = ? AND exit_time IS NULL', record.type);
+      await recordAudit(req.user, 'vehicle.capacity_override', 'vehicle', id, undefined, {
+        ...newVehicle,
+        approvedBy: approver.username,
+        occupied: Number(occupied.count),
+        capacity: vehicleType?.capacity ?? null
+      });
+    }
+    res.json({ ...newVehicle, ticket: issueTicket(newVehicle) });
   } catch (error) {
     res.status(500).json({ error: 'Failed to add vehicle' });
   }
 });
 
-app.put('/api/vehicles/:id/exit', async (req, res) => {
+// Scanned at exit. Rejections are audited, since the ticket was either damaged or forged.
+// A pass card answers with the vehicle parked under its plate.
+app.post('/api/tickets/verify', async (req, res) => {
   try {
-    const { fee } = req.body;
-    const exitTime = new Date().toISOString();
-    const result = await dbRun('UPDATE vehicles SET exitTime = ?, fee = ? WHERE id = ?', exitTime, fee, req.params.id);
-    if (result.changes === 0) {
+    const code = String(req.body.code || '').trim();
+    const separator = code.lastIndexOf('-');
+    if (code.toUpperCase().startsWith(PASS_CODE_PREFIX) && separator > PASS_CODE_PREFIX.length) {
+      const client = await findRecord(permanentClientSchema, code.slice(PASS_CODE_PREFIX.length, separator));
+      if (!client || !verifyTicketSignature(passData(client), code.slice(separator + 1), sessionSecret)) {
+        await recordAudit(req.user, 'ticket.rejected', 'permanent_client', client ? client.id : null, undefined, { code });
+        return res.status(400).json({ error: 'Invalid pass' });
+      }
+      const parked = await dbAll('SELECT * FROM vehicles WHERE exit_time IS NULL');
+      const vehicle = parked.map(row => fromRow(vehicleSchema, row))
+        .find(candidate => normalizeVehicleNumber(candidate.number) === normalizeVehicleNumber(client.number));
+      if (!vehicle) {
+        return res.status(404).json({ error: 'No vehicle on this pass is parked' });
+      }
+      return res.json(vehicle);
+    }
+    const vehicle = separator > 0 ? await findTicketVehicle(code.slice(0, separator)) : null;
+    if (!vehicle || !verifyTicketSignature(ticketData(vehicle), code.slice(separator + 1), sessionSecret)) {
+      await recordAudit(req.user, 'ticket.rejected', 'vehicle', vehicle ? vehicle.id : null, undefined, { code });
+      return res.status(400).json({ error: 'Invalid ticket' });
+    }
+    if (vehicle.exitTime) {
+      return res.status(409).json({ error: 'Ticket has already been used', vehicle });
+    }
+    res.json(vehicle);
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to verify ticket' });
+  }
+});
+
+// The client sends the updatedAt it last saw; a mismatch means another counter got there first
+app.put('/api/vehicles/:id/exit', idempotent, async (req, res) => {
+  try {
+    const now = new Date().toISOString();
+    const { record, errors } = parseBody(vehicleSchema, {
+      exitTime: req.body.exitTime || now,
+      fee: req.body.fee,
+      calculatedFee: req.body.calculatedFee,
+      lostTicket: req.body.lostTicket,
+      discount: req.body.discount,
+      paymentMethod: req.body.paymentMethod,
+      amountTendered: req.body.amountTendered,
+      changeGiven: req.body.changeGiven,
+      exitShiftId: req.body.exitShiftId,
+      passClientId: req.body.passClientId
+    }, { partial: true });
+    const existingVehicle = await findRecord(vehicleSchema, req.params.id);
+    await checkPassClient(record, errors);
+    await checkPassStanding(record, existingVehicle, errors);
+    await checkDiscount(record, errors);
+    record.exitShiftId = await resolveShiftId(req, record.exitShiftId, errors);
+    if (record.amountTendered != null && record.amountTendered < (record.fee || 0)) {
+      errors.push('amountTendered cannot be less than the fee');
+    }
+    if (errors.length > 0 || record.fee === undefined) {
+      return sendValidationError(res, vehicleSchema, errors.length > 0 ? errors : ['fee is required']);
+    }
+    if (!existingVehicle) {
       return res.status(404).json({ error: 'Vehicle not found' });
     }
-    const updatedVehicle = await dbGet('SELECT * FROM vehicles WHERE id = ?', req.params.id);
+    if (existingVehicle.exitTime) {
+      return res.status(409).json({ error: 'Vehicle has already exited', vehicle: existingVehicle });
+    }
+    const { updatedAt } = req.body;
+    if (updatedAt && existingVehicle.updatedAt && updatedAt !== existingVehicle.updatedAt) {
+      return res.status(409).json({ error: 'Vehicle was changed on another counter', vehicle: existingVehicle });
+    }
+
+    const result = await updateRecord(vehicleSchema, req.params.id, { ...record, exitedBy: req.user.username }, {
+      extraColumns: [['updated_at', now], ['client_id', getClientId(req)]],
+      where: 'AND exit_time IS NULL'
+    });
+    if (result.changes === 0) {
+      return res.status(409).json({ error: 'Vehicle has already exited', vehicle: await findRecord(vehicleSchema, req.params.id) });
+    }
+    const updatedVehicle = await findRecord(vehicleSchema, req.params.id);
+    await recordChange('vehicle', req.params.id, 'upsert', updatedVehicle, getClientId(req));
+    await recordAudit(req.user, record.lostTicket ? 'vehicle.lost_ticket' : 'vehicle.exit', 'vehicle', req.params.id, existingVehicle, updatedVehicle);
+    // Discounts get their own entry so the owner can review every fee that was reduced or waived
+    if (record.discount) {
+      await recordAudit(req.user, 'vehicle.discount', 'vehicle', req.params.id, undefined, {
+        number: updatedVehicle.number,
+        calculatedFee: updatedVehicle.calculatedFee,
+        fee: updatedVehicle.fee,
+        discount: updatedVehicle.discount
+      });
+    }
     res.json(updatedVehicle);
   } catch (error) {
     res.status(500).json({ error: 'Failed to update vehicle' });
@@ -202,69 +831,559 @@ app.put('/api/vehicles/:id/exit', async (req, res) => {
 app.get('/api/permanent-clients', async (req, res) => {
   try {
     const clients = await dbAll('SELECT * FROM permanent_clients');
-    res.json(clients);
+    res.json(clients.map(row => fromRow(permanentClientSchema, row)));
   } catch (error) {
     res.status(500).json({ error: 'Failed to fetch permanent clients' });
   }
 });
 
-app.post('/api/permanent-clients', async (req, res) => {
+app.post('/api/permanent-clients', requireRole('supervisor'), async (req, res) => {
   try {
-    const newClient = {
-      ...req.body,
-      id: Date.now().toString(),
-      entryTime: new Date().toISOString(),
-      paymentStatus: 'unpaid'
-    };
-    await dbRun('INSERT INTO permanent_clients (id, name, vehicleNumber, contact, paymentStatus, entryTime) VALUES (?, ?, ?, ?, ?, ?)',
-      newClient.id, newClient.name, newClient.vehicleNumber, newClient.contact, newClient.paymentStatus, newClient.entryTime);
+    const now = new Date().toISOString();
+    const { record, errors } = parseBody(permanentClientSchema, { entryTime: now, paymentStatus: 'unpaid', ...req.body });
+    await checkVehicleType(record, errors);
+    const plan = record.planId ? findPlan(await readSettings(), record.planId, record.type, errors) : null;
+    if (errors.length > 0) {
+      return sendValidationError(res, permanentClientSchema, errors);
+    }
+    // Terminals add clients optimistically, so keep their id when one is sent. The plan and its dates
+    // are set by starting the first term, which also raises its invoice.
+    const id = record.id || Date.now().toString();
+    await insertRecord(permanentClientSchema, { ...record, id, planId: undefined, startDate: undefined, endDate: undefined }, {
+      extraColumns: [['updated_at', now], ['client_id', getClientId(req)]]
+    });
+    let newClient = await findRecord(permanentClientSchema, id);
+    if (plan) {
+      newClient = (await startTerm(req, newClient, plan, record.startDate || currentDay()))?.client || newClient;
+    }
+    await recordChange('permanent_client', id, 'upsert', newClient, getClientId(req));
+    await recordAudit(req.user, 'client.create', 'permanent_client', id, undefined, newClient);
+    // A client registered mid-month is billed for that month straight away
+    await generateInvoices(currentPeriod(), req.user, id);
     res.json(newClient);
   } catch (error) {
     res.status(500).json({ error: 'Failed to add permanent client' });
   }
 });
 
-app.put('/api/permanent-clients/:id', async (req, res) => {
+// Bulk registration from a spreadsheet. Every row is checked before anything is written, and any
+// failure rejects the whole file with the errors of each bad row, so an import never half applies.
+app.post('/api/permanent-clients/import', requireRole('supervisor'), async (req, res) => {
   try {
-    const { name, vehicleNumber, contact, paymentStatus } = req.body;
-    const result = await dbRun('UPDATE permanent_clients SET name = ?, vehicleNumber = ?, contact = ?, paymentStatus = ? WHERE id = ?',
-      name, vehicleNumber, contact, paymentStatus, req.params.id);
-    if (result.changes === 0) {
+    const rows = req.body?.clients;
+    if (!Array.isArray(rows) || rows.length === 0) {
+      return res.status(400).json({ error: 'clients must be a non-empty array' });
+    }
+    const now = new Date().toISOString();
+    const existing = await dbAll('SELECT vehicle_number FROM permanent_clients');
+    const plates = new Set(existing.map(row => normalizeVehicleNumber(row.vehicle_number)));
+    const records = [];
+    const rowErrors = [];
+    for (const [index, row] of rows.entries()) {
+      // Imported clients pay the monthly fee on the sheet; plans are chosen by renewing afterwards
+      const { record, errors } = parseBody(permanentClientSchema, {
+        entryTime: now, paymentStatus: 'unpaid', ...row, planId: undefined, startDate: undefined, endDate: undefined
+      });
+      await checkVehicleType(record, errors);
+      const plate = normalizeVehicleNumber(record.number);
+      if (plate && plates.has(plate)) errors.push(`number "${record.number}" is already registered`);
+      plates.add(plate);
+      if (errors.length > 0) rowErrors.push({ row: index + 1, errors });
+      records.push({ ...record, id: record.id || randomUUID() });
+    }
+    if (rowErrors.length > 0) {
+      return res.status(400).json({ error: `${rowErrors.length} of ${rows.length} clients are invalid`, rows: rowErrors });
+    }
+
+    await withTransaction(async () => {
+      for (const record of records) {
+        await insertRecord(permanentClientSchema, record, {
+          extraColumns: [['updated_at', now], ['client_id', getClientId(req)]]
+        });
+      }
+    });
+    const clients = [];
+    for (const record of records) {
+      const client = await findRecord(permanentClientSchema, record.id);
+      await recordChange('permanent_client', record.id, 'upsert', client, getClientId(req));
+      await generateInvoices(currentPeriod(), req.user, record.id);
+      clients.push(client);
+    }
+    await recordAudit(req.user, 'client.import', 'permanent_client', null, undefined, { count: clients.length, ids: clients.map(client => client.id) });
+    res.json(clients);
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to import permanent clients' });
+  }
+});
+
+app.put('/api/permanent-clients/:id', requireRole('supervisor'), async (req, res) => {
+  try {
+    const existingClient = await findRecord(permanentClientSchema, req.params.id);
+    if (!existingClient) {
       return res.status(404).json({ error: 'Client not found' });
     }
-    const updatedClient = await dbGet('SELECT * FROM permanent_clients WHERE id = ?', req.params.id);
+    const { updatedAt } = req.body;
+    if (updatedAt && existingClient.updatedAt && updatedAt !== existingClient.updatedAt) {
+      return res.status(409).json({ error: 'Client was changed on another counter', client: existingClient });
+    }
+
+    // Only fields present in the request change, so partial updates do not blank the rest.
+    // The plan and its term only change through renewal.
+    const { record, errors } = parseBody(permanentClientSchema, {
+      ...req.body, id: undefined, planId: undefined, startDate: undefined, endDate: undefined
+    }, { partial: true });
+    await checkVehicleType(record, errors);
+    if (errors.length > 0) {
+      return sendValidationError(res, permanentClientSchema, errors);
+    }
+    await updateRecord(permanentClientSchema, req.params.id, record, {
+      extraColumns: [['updated_at', new Date().toISOString()], ['client_id', getClientId(req)]]
+    });
+    const updatedClient = await findRecord(permanentClientSchema, req.params.id);
+    await recordChange('permanent_client', req.params.id, 'upsert', updatedClient, getClientId(req));
+    await recordAudit(req.user, 'client.update', 'permanent_client', req.params.id, existingClient, updatedClient);
     res.json(updatedClient);
   } catch (error) {
     res.status(500).json({ error: 'Failed to update permanent client' });
   }
 });
 
-app.delete('/api/permanent-clients/:id', async (req, res) => {
+app.delete('/api/permanent-clients/:id', requireRole('supervisor'), async (req, res) => {
   try {
+    const existingClient = await findRecord(permanentClientSchema, req.params.id);
     const result = await dbRun('DELETE FROM permanent_clients WHERE id = ?', req.params.id);
     if (result.changes === 0) {
       return res.status(404).json({ error: 'Client not found' });
     }
+    await recordChange('permanent_client', req.params.id, 'delete', undefined, getClientId(req));
+    await recordAudit(req.user, 'client.delete', 'permanent_client', req.params.id, existingClient, undefined);
     res.json({ success: true });
   } catch (error) {
     res.status(500).json({ error: 'Failed to remove permanent client' });
   }
 });
 
+// Codes for printing pass cards, one per client
+app.get('/api/passes', requireRole('supervisor'), async (req, res) => {
+  try {
+    const clients = req.query.clientId
+      ? await dbAll('SELECT * FROM permanent_clients WHERE id = ?', req.query.clientId)
+      : await dbAll('SELECT * FROM permanent_clients');
+    res.json(clients.map(row => fromRow(permanentClientSchema, row)).map(client => ({ clientId: client.id, code: issuePassCode(client) })));
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to issue pass codes' });
+  }
+});
+
+// Invoices
+// Each permanent client gets one invoice per month, starting with the month it was registered. Ids are
+// "<client id>-<YYYY-MM>", so generating a month twice never bills anyone twice. Invoices are kept when
+// a client is removed so the payments taken stay on record.
+const INVOICE_CHECK_INTERVAL_MS = 60 * 60 * 1000;
+
+function currentPeriod(date = new Date()) {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+}
+
+function withPayments(invoice, payments) {
+  return { ...invoice, payments: payments.filter(payment => payment.invoiceId === invoice.id).map(({ invoiceId, ...payment }) => payment) };
+}
+
+async function findInvoice(id) {
+  const invoice = await findRecord(invoiceSchema, id);
+  if (!invoice) return null;
+  const payments = await dbAll('SELECT * FROM invoice_payments WHERE invoice_id = ? ORDER BY paid_at', id);
+  return withPayments(invoice, payments.map(row => fromRow(invoicePaymentSchema, row)));
+}
+
+async function allInvoices() {
+  const invoices = await dbAll('SELECT * FROM invoices ORDER BY period, client_id');
+  const payments = (await dbAll('SELECT * FROM invoice_payments ORDER BY paid_at')).map(row => fromRow(invoicePaymentSchema, row));
+  return invoices.map(row => withPayments(fromRow(invoiceSchema, row), payments));
+}
+
+async function readSettings() {
+  return JSON.parse((await dbGet('SELECT value FROM settings WHERE key = ?', 'app_settings')).value);
+}
+
+// The due day comes from Settings (billingDueDay, default the 10th) and is capped at 28 so every month has it
+function billingDueDay(settings) {
+  return Math.min(Math.max(parseInt(settings.billingDueDay, 10) || 10, 1), 28);
+}
+
+async function generateInvoices(period, actor, clientId) {
+  const dueDay = billingDueDay(await readSettings());
+  const rows = clientId
+    ? await dbAll('SELECT * FROM permanent_clients WHERE id = ?', clientId)
+    : await dbAll('SELECT * FROM permanent_clients');
+  const now = new Date().toISOString();
+  const created = [];
+  for (const client of rows.map(row => fromRow(permanentClientSchema, row))) {
+    // Clients on a subscription plan are billed per term when it starts instead
+    if (client.planId || !client.monthlyFee || currentPeriod(new Date(client.entryTime)) > period) continue;
+    const id = `${client.id}-${period}`;
+    if (await dbGet('SELECT id FROM invoices WHERE id = ?', id)) continue;
+    const result = await insertRecord(invoiceSchema, {
+      id,
+      clientId: client.id,
+      period,
+      amount: client.monthlyFee,
+      dueDate: `${period}-${String(dueDay).padStart(2, '0')}`,
+      issuedAt: now
+    }, { extraColumns: [['updated_at', now]], onConflict: '(id) DO NOTHING' });
+    if (result.changes === 0) continue;
+    const invoice = await findInvoice(id);
+    await recordChange('invoice', id, 'upsert', invoice);
+    created.push(invoice);
+  }
+  if (created.length > 0) {
+    await recordAudit(actor, 'invoice.generate', 'invoice', null, undefined, { period, invoices: created.map(invoice => invoice.id) });
+  }
+  return created;
+}
+
+// Subscription plans
+// Plans are kept in Settings (subscriptionPlans), each with a term in months and a price per vehicle type.
+// A client on a plan gets one invoice per term, raised when the term starts, and its pass lapses after
+// endDate. Days are YYYY-MM-DD in the server's local calendar, like invoice periods.
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function currentDay(date = new Date()) {
+  return `${currentPeriod(date)}-${String(date.getDate()).padStart(2, '0')}`;
+}
+
+function addDays(day, days) {
+  return new Date(Date.parse(`${day}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+// A term ends the day before the same date `months` later, or on the last day of a month too short to have it
+function termEnd(startDate, months) {
+  const [year, month, day] = startDate.split('-').map(Number);
+  const lastDay = new Date(Date.UTC(year, month - 1 + months + 1, 0)).getUTCDate();
+  const sameDate = new Date(Date.UTC(year, month - 1 + months, Math.min(day, lastDay))).toISOString().slice(0, 10);
+  return day > lastDay ? sameDate : addDays(sameDate, -1);
+}
+
+function findPlan(settings, planId, type, errors) {
+  const plan = (settings.subscriptionPlans || []).find(candidate => candidate.id === planId);
+  if (!plan) {
+    errors.push(`plan "${planId}" does not exist`);
+    return null;
+  }
+  if (typeof plan.prices?.[type] !== 'number') {
+    errors.push(`plan "${plan.name}" has no price for type "${type}"`);
+    return null;
+  }
+  return plan;
+}
+
+// Puts the client on the plan from startDate and raises the term's invoice, due on the billing day of its
+// first month or on the start date, whichever is later. Answers null if that month is already invoiced.
+async function startTerm(req, client, plan, startDate) {
+  const period = startDate.slice(0, 7);
+  const invoiceId = `${client.id}-${period}`;
+  if (await dbGet('SELECT id FROM invoices WHERE id = ?', invoiceId)) return null;
+  const dueDate = `${period}-${String(billingDueDay(await readSettings())).padStart(2, '0')}`;
+  const months = Number(plan.months) || 1;
+  const endDate = termEnd(startDate, months);
+  const amount = plan.prices[client.type];
+  const now = new Date().toISOString();
+  await insertRecord(invoiceSchema, {
+    id: invoiceId,
+    clientId: client.id,
+    period,
+    amount,
+    dueDate: dueDate > startDate ? dueDate : startDate,
+    issuedAt: now,
+    coversTo: endDate
+  }, { extraColumns: [['updated_at', now]] });
+  // A renewal straight after the last term keeps the original start; a lapsed subscription starts over
+  const continues = client.endDate && addDays(client.endDate, 1) === startDate;
+  await updateRecord(permanentClientSchema, client.id, {
+    planId: plan.id,
+    startDate: continues ? client.startDate || startDate : startDate,
+    endDate,
+    monthlyFee: Math.round(amount / months)
+  }, { extraColumns: [['updated_at', now], ['client_id', getClientId(req)]] });
+  const updatedClient = await findRecord(permanentClientSchema, client.id);
+  const invoice = await findInvoice(invoiceId);
+  await recordChange('permanent_client', client.id, 'upsert', updatedClient, getClientId(req));
+  await recordChange('invoice', invoiceId, 'upsert', invoice, getClientId(req));
+  return { client: updatedClient, invoice };
+}
+
+// Extends the client's plan by one term from the day after it ends, or from today once it has lapsed.
+// Sending another planId switches plans from the new term.
+app.post('/api/permanent-clients/:id/renew', requireRole('supervisor'), async (req, res) => {
+  try {
+    const existingClient = await findRecord(permanentClientSchema, req.params.id);
+    if (!existingClient) {
+      return res.status(404).json({ error: 'Client not found' });
+    }
+    const errors = [];
+    const planId = req.body.planId || existingClient.planId;
+    const plan = planId ? findPlan(await readSettings(), planId, existingClient.type, errors) : null;
+    if (!plan) {
+      return sendValidationError(res, permanentClientSchema, errors.length > 0 ? errors : ['planId is required']);
+    }
+    const today = currentDay();
+    let startDate = existingClient.endDate && existingClient.endDate >= today ? addDays(existingClient.endDate, 1) : today;
+    // A client still on monthly invoices is already billed for this month, so the plan starts next month
+    if (!existingClient.endDate && await dbGet('SELECT id FROM invoices WHERE id = ?', `${existingClient.id}-${currentPeriod()}`)) {
+      startDate = addDays(termEnd(`${currentPeriod()}-01`, 1), 1);
+    }
+    const result = await startTerm(req, existingClient, plan, startDate);
+    if (!result) {
+      return res.status(409).json({ error: `Client already has an invoice for ${startDate.slice(0, 7)}` });
+    }
+    await recordAudit(req.user, 'client.renew', 'permanent_client', existingClient.id, existingClient, { ...result.client, invoiceId: result.invoice.id });
+    res.json(result);
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to renew permanent client' });
+  }
+});
+
+// Read by every role so the entry counter can see whether a permanent client is paid up
+app.get('/api/invoices', async (req, res) => {
+  try {
+    const invoices = await allInvoices();
+    res.json(req.query.clientId ? invoices.filter(invoice => invoice.clientId === req.query.clientId) : invoices);
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch invoices' });
+  }
+});
+
+// Invoices for the current month are also generated hourly; this lets a supervisor bill a month on demand
+app.post('/api/invoices/generate', requireRole('supervisor'), async (req, res) => {
+  try {
+    const period = req.body.period || currentPeriod();
+    if (!PERIOD_PATTERN.test(period)) {
+      return res.status(400).json({ error: 'Invalid period: use YYYY-MM' });
+    }
+    res.json(await generateInvoices(period, req.user));
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to generate invoices' });
+  }
+});
+
+// Part payments are allowed; paying more than the outstanding balance is not
+app.post('/api/invoices/:id/payments', requireRole('supervisor'), async (req, res) => {
+  try {
+    const existingInvoice = await findInvoice(req.params.id);
+    if (!existingInvoice) {
+      return res.status(404).json({ error: 'Invoice not found' });
+    }
+    const { record, errors } = parseBody(invoicePaymentSchema, {
+      method: req.body.method,
+      amount: req.body.amount,
+      note: req.body.note,
+      id: Date.now().toString(),
+      invoiceId: existingInvoice.id,
+      paidAt: new Date().toISOString(),
+      receivedBy: req.user.username
+    });
+    const balance = existingInvoice.amount - existingInvoice.payments.reduce((sum, payment) => sum + payment.amount, 0);
+    if (record.amount === 0) errors.push('amount must be more than 0');
+    if (record.amount > balance) errors.push(`amount is more than the outstanding balance of ${balance}`);
+    if (errors.length > 0) {
+      return sendValidationError(res, invoicePaymentSchema, errors);
+    }
+    await insertRecord(invoicePaymentSchema, record);
+    await dbRun('UPDATE invoices SET updated_at = ? WHERE id = ?', record.paidAt, existingInvoice.id);
+    const updatedInvoice = await findInvoice(existingInvoice.id);
+    await recordChange('invoice', existingInvoice.id, 'upsert', updatedInvoice, getClientId(req));
+    await recordAudit(req.user, 'invoice.payment', 'invoice', existingInvoice.id, existingInvoice, updatedInvoice);
+    res.json(updatedInvoice);
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to record payment' });
+  }
+});
+
+// Vehicle Types
+app.get('/api/vehicle-types', async (req, res) => {
+  try {
+    const vehicleTypes = await dbAll('SELECT * FROM vehicle_types ORDER BY sort_order, label');
+    res.json(vehicleTypes.map(row => fromRow(vehicleTypeSchema, row)));
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch vehicle types' });
+  }
+});
+
+app.post('/api/vehicle-types', requireRole('owner'), async (req, res) => {
+  try {
+    // The id is what vehicles store as their type, so it defaults to a slug of the label and never changes
+    const label = typeof req.body.label === 'string' ? req.body.label : '';
+    const slug = label.trim().toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '');
+    const { record, errors } = parseBody(vehicleTypeSchema, { id: slug || undefined, ...req.body });
+    if (errors.length > 0) {
+      return sendValidationError(res, vehicleTypeSchema, errors);
+    }
+    const existingType = await findRecord(vehicleTypeSchema, record.id);
+    if (existingType) {
+      return res.status(409).json({ error: 'Vehicle type already exists', vehicleType: existingType });
+    }
+    await insertRecord(vehicleTypeSchema, record, { extraColumns: [['updated_at', new Date().toISOString()]] });
+    const newType = await findRecord(vehicleTypeSchema, record.id);
+    await recordChange('vehicle_type', record.id, 'upsert', newType, getClientId(req));
+    await recordAudit(req.user, 'vehicle_type.create', 'vehicle_type', record.id, undefined, newType);
+    res.json(newType);
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to add vehicle type' });
+  }
+});
+
+app.put('/api/vehicle-types/:id', requireRole('owner'), async (req, res) => {
+  try {
+    const existingType = await findRecord(vehicleTypeSchema, req.params.id);
+    if (!existingType) {
+      return res.status(404).json({ error: 'Vehicle type not found' });
+    }
+    const { record, errors } = parseBody(vehicleTypeSchema, { ...req.body, id: undefined }, { partial: true });
+    if (errors.length > 0) {
+      return sendValidationError(res, vehicleTypeSchema, errors);
+    }
+    await updateRecord(vehicleTypeSchema, req.params.id, record, { extraColumns: [['updated_at', new Date().toISOString()]] });
+    const updatedType = await findRecord(vehicleTypeSchema, req.params.id);
+    await recordChange('vehicle_type', req.params.id, 'upsert', updatedType, getClientId(req));
+    await recordAudit(req.user, 'vehicle_type.update', 'vehicle_type', req.params.id, existingType, updatedType);
+    res.json(updatedType);
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to update vehicle type' });
+  }
+});
+
+// A category still referenced by any vehicle or client is kept so history keeps its label and pricing
+app.delete('/api/vehicle-types/:id', requireRole('owner'), async (req, res) => {
+  try {
+    const existingType = await findRecord(vehicleTypeSchema, req.params.id);
+    if (!existingType) {
+      return res.status(404).json({ error: 'Vehicle type not found' });
+    }
+    const vehicleUse = await dbGet('SELECT COUNT(*) AS count FROM vehicles WHERE vehicle_type = ?', req.params.id);
+    const clientUse = await dbGet('SELECT COUNT(*) AS count FROM permanent_clients WHERE vehicle_type = ?', req.params.id);
+    if (Number(vehicleUse.count) + Number(clientUse.count) > 0) {
+      return res.status(409).json({ error: 'Vehicle type is in use by vehicles or permanent clients' });
+    }
+    await dbRun('DELETE FROM vehicle_types WHERE id = ?', req.params.id);
+    await recordChange('vehicle_type', req.params.id, 'delete', undefined, getClientId(req));
+    await recordAudit(req.user, 'vehicle_type.delete', 'vehicle_type', req.params.id, existingType, undefined);
+    res.json({ success: true });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to remove vehicle type' });
+  }
+});
+
+// Shifts
+// A counter has at most one open shift. Closing it works out the cash that should be in the drawer,
+// the opening float plus cash exits tagged with the shift, and stores it next to the amount counted
+async function expectedCash(shift) {
+  const row = await dbGet(`SELECT COALESCE(SUM(fee), 0) AS total FROM vehicles
+    WHERE exit_shift_id = ? AND exit_time IS NOT NULL AND COALESCE(payment_method, 'cash') = 'cash'`, shift.id);
+  return shift.openingFloat + Number(row.total);
+}
+
+app.get('/api/shifts', requireRole('supervisor'), async (req, res) => {
+  try {
+    const shifts = await dbAll('SELECT * FROM shifts ORDER BY opened_at DESC LIMIT 200');
+    res.json(shifts.map(row => fromRow(shiftSchema, row)));
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch shifts' });
+  }
+});
+
+// The open shift on the requesting counter, or null when none is open
+app.get('/api/shifts/current', async (req, res) => {
+  try {
+    res.json(await findOpenShift(getCounter(req)));
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch current shift' });
+  }
+});
+
+app.post('/api/shifts', async (req, res) => {
+  try {
+    const counter = getCounter(req);
+    const { record, errors } = parseBody(shiftSchema, {
+      id: Date.now().toString(),
+      counter,
+      openedBy: req.user.username,
+      openedAt: new Date().toISOString(),
+      openingFloat: req.body.openingFloat
+    });
+    if (errors.length > 0) {
+      return sendValidationError(res, shiftSchema, errors);
+    }
+    const openShift = await findOpenShift(counter);
+    if (openShift) {
+      return res.status(409).json({ error: 'A shift is already open on this counter', shift: openShift });
+    }
+    await insertRecord(shiftSchema, record, { extraColumns: [['updated_at', record.openedAt]] });
+    const newShift = await findRecord(shiftSchema, record.id);
+    await recordChange('shift', record.id, 'upsert', newShift, getClientId(req));
+    await recordAudit(req.user, 'shift.open', 'shift', record.id, undefined, newShift);
+    res.json(newShift);
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to open shift' });
+  }
+});
+
+// A counter closes its own shift; closing another counter's, and setting its counted cash, takes a supervisor
+app.put('/api/shifts/:id/close', async (req, res) => {
+  try {
+    const { record, errors } = parseBody(shiftSchema, { countedCash: req.body.countedCash, note: req.body.note }, { partial: true });
+    if (errors.length > 0 || record.countedCash == null) {
+      return sendValidationError(res, shiftSchema, errors.length > 0 ? errors : ['countedCash is required']);
+    }
+    const existingShift = await findRecord(shiftSchema, req.params.id);
+    if (!existingShift) {
+      return res.status(404).json({ error: 'Shift not found' });
+    }
+    if (existingShift.counter !== getCounter(req) && ROLES.indexOf(req.user.role) < ROLES.indexOf('supervisor')) {
+      return res.status(403).json({ error: 'Only a supervisor can close another counter\'s shift' });
+    }
+    if (existingShift.closedAt) {
+      return res.status(409).json({ error: 'Shift is already closed', shift: existingShift });
+    }
+    const now = new Date().toISOString();
+    const result = await updateRecord(shiftSchema, req.params.id, {
+      ...record,
+      closedBy: req.user.username,
+      closedAt: now,
+      expectedCash: await expectedCash(existingShift)
+    }, { extraColumns: [['updated_at', now]], where: 'AND closed_at IS NULL' });
+    if (result.changes === 0) {
+      return res.status(409).json({ error: 'Shift is already closed', shift: await findRecord(shiftSchema, req.params.id) });
+    }
+    const closedShift = await findRecord(shiftSchema, req.params.id);
+    await recordChange('shift', req.params.id, 'upsert', closedShift, getClientId(req));
+    await recordAudit(req.user, 'shift.close', 'shift', req.params.id, existingShift, {
+      ...closedShift,
+      variance: closedShift.countedCash - closedShift.expectedCash
+    });
+    res.json(closedShift);
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to close shift' });
+  }
+});
+
 // Settings
 app.get('/api/settings', async (req, res) => {
   try {
     const settingsRow = await dbGet('SELECT value FROM settings WHERE key = ?', 'app_settings');
-    res.json(JSON.parse(settingsRow.value));
+    res.json(stripCredentials(JSON.parse(settingsRow.value)));
   } catch (error) {
     res.status(500).json({ error: 'Failed to fetch settings' });
   }
 });
 
-app.put('/api/settings', async (req, res) => {
+app.put('/api/settings', requireRole('owner'), async (req, res) => {
   try {
-    await dbRun('UPDATE settings SET value = ? WHERE key = ?', JSON.stringify(req.body), 'app_settings');
-    res.json(req.body);
+    const settings = stripCredentials(req.body);
+    const previousRow = await dbGet('SELECT value FROM settings WHERE key = ?', 'app_settings');
+    await dbRun('UPDATE settings SET value = ? WHERE key = ?', JSON.stringify(settings), 'app_settings');
+    await recordChange('settings', 'app_settings', 'upsert', settings, getClientId(req));
+    await recordAudit(req.user, 'settings.update', 'settings', 'app_settings', JSON.parse(previousRow.value), settings);
+    res.json(settings);
   } catch (error) {
     res.status(500).json({ error: 'Failed to update settings' });
   }
@@ -274,64 +1393,644 @@ app.put('/api/settings', async (req, res) => {
 app.get('/api/daily-stats', async (req, res) => {
   try {
     const stats = await dbAll('SELECT * FROM daily_stats');
-    res.json(stats);
+    res.json(stats.map(row => fromRow(dailyStatsSchema, row)));
   } catch (error) {
     res.status(500).json({ error: 'Failed to fetch daily stats' });
   }
 });
 
+// Accepts one day or the full list the client rebuilds; only days whose totals changed are written and audited
 app.post('/api/daily-stats', async (req, res) => {
   try {
-    const { date, totalVehicles, totalRevenue } = req.body;
-    await dbRun('INSERT INTO daily_stats (date, totalVehicles, totalRevenue) VALUES (?, ?, ?) ON CONFLICT(date) DO UPDATE SET totalVehicles = ?, totalRevenue = ?',
-      date, totalVehicles, totalRevenue, totalVehicles, totalRevenue);
-    res.json(req.body);
+    const parsed = (Array.isArray(req.body) ? req.body : [req.body]).map(stats => parseBody(dailyStatsSchema, stats));
+    const errors = parsed.flatMap(({ errors }) => errors);
+    if (errors.length > 0) {
+      return sendValidationError(res, dailyStatsSchema, errors);
+    }
+
+    const saved = [];
+    for (const { record } of parsed) {
+      const previousStats = fromRow(dailyStatsSchema, await dbGet('SELECT * FROM daily_stats WHERE date = ?', record.date));
+      if (previousStats && previousStats.totalVehicles === record.totalVehicles && previousStats.totalIncome === record.totalIncome) {
+        saved.push(previousStats);
+        continue;
+      }
+      await insertRecord(dailyStatsSchema, record, { onConflict: '(date) DO UPDATE SET total_vehicles = EXCLUDED.total_vehicles, total_income = EXCLUDED.total_income' });
+      await recordAudit(req.user, 'daily_stats.update', 'daily_stats', record.date, previousStats || undefined, record);
+      saved.push(record);
+    }
+    res.json(Array.isArray(req.body) ? saved : saved[0]);
   } catch (error) {
     res.status(500).json({ error: 'Failed to update daily stats' });
   }
 });
 
+// --- Reports ---
+// Days, weeks and months are the server's local ones, as for invoices and plan terms
+const REPORT_TIME_ZONE = Intl.DateTimeFormat().resolvedOptions().timeZone;
+const REPORT_GROUPS = ['day', 'week', 'month', 'type', 'operator'];
+
+// SQL for the group a visit falls in. An operator is whoever recorded the entry or the exit, read from
+// operatorColumn; visits from before operators were recorded, with no audit entry to go by, have none.
+function reportGroupKey(groupBy, timeColumn, operatorColumn) {
+  const localTime = `timezone(?, v.${timeColumn}::timestamptz)`;
+  switch (groupBy) {
+    case 'week': return { sql: `to_char(date_trunc('week', ${localTime}), 'YYYY-MM-DD')`, params: [REPORT_TIME_ZONE] };
+    case 'month': return { sql: `to_char(${localTime}, 'YYYY-MM')`, params: [REPORT_TIME_ZONE] };
+    case 'type': return { sql: 'v.vehicle_type', params: [] };
+    case 'operator': return { sql: `v.${operatorColumn}`, params: [] };
+    default: return { sql: `to_char(${localTime}, 'YYYY-MM-DD')`, params: [REPORT_TIME_ZONE] };
+  }
+}
+
+// DAY_PATTERN only checks the shape; a day such as 2024-13-45 or 2024-02-30 does not come back unchanged from a Date
+function isCalendarDay(day) {
+  return DAY_PATTERN.test(day) && !Number.isNaN(Date.parse(`${day}T00:00:00Z`)) && addDays(day, 0) === day;
+}
+
+// Reads ?from=&to= as inclusive local days, defaulting to the 30 days up to today. The bounds come back
+// as ISO instants, which compare correctly against the stored times as text.
+function parseReportRange(query, errors) {
+  const to = query.to || currentDay();
+  if (!isCalendarDay(to) || (query.from && !isCalendarDay(query.from))) {
+    errors.push('from and to must be days of the calendar written YYYY-MM-DD');
+    return null;
+  }
+  const from = query.from || addDays(to, -29);
+  if (from > to) errors.push('from must not be after to');
+  if (errors.length > 0) return null;
+  return {
+    from,
+    to,
+    start: new Date(`${from}T00:00:00`).toISOString(),
+    end: new Date(`${addDays(to, 1)}T00:00:00`).toISOString()
+  };
+}
+
+function emptyReportGroup() {
+  return { entries: 0, byType: {}, exits: 0, income: 0, incomeByMethod: {}, lostTickets: 0, lostTicketPenalties: 0, discounts: 0, discountAmount: 0, passVisits: 0 };
+}
+
+// Entries are counted on the day a vehicle came in and income on the day it left, as on the dashboard
+app.get('/api/reports/summary', requireRole('supervisor'), async (req, res) => {
+  try {
+    const errors = [];
+    const groupBy = req.query.groupBy || 'day';
+    if (!REPORT_GROUPS.includes(groupBy)) errors.push(`groupBy must be one of ${REPORT_GROUPS.join(', ')}`);
+    const range = parseReportRange(req.query, errors);
+    if (errors.length > 0) {
+      return res.status(400).json({ error: `Invalid report: ${errors.join('; ')}`, details: errors });
+    }
+
+    // The group key is worked out per visit in the inner query, so its parameters are only bound once
+    const entryKey = reportGroupKey(groupBy, 'entry_time', 'entered_by');
+    const entryRows = await dbAll(`
+      SELECT group_key, vehicle_type, COUNT(*) AS entries
+      FROM (
+        SELECT ${entryKey.sql} AS group_key, v.vehicle_type
+        FROM vehicles v
+        WHERE v.entry_time >= ? AND v.entry_time < ?
+      ) visits
+      GROUP BY group_key, vehicle_type`, ...entryKey.params, range.start, range.end);
+    const exitKey = reportGroupKey(groupBy, 'exit_time', 'exited_by');
+    const exitRows = await dbAll(`
+      SELECT group_key, method,
+        COUNT(*) AS exits,
+        SUM(fee) AS income,
+        SUM(CASE WHEN lost_ticket IS NULL THEN 0 ELSE 1 END) AS lost_tickets,
+        SUM(CASE WHEN lost_ticket IS NULL THEN 0 ELSE CAST(lost_ticket::json ->> 'penalty' AS NUMERIC) END) AS lost_ticket_penalties,
+        SUM(CASE WHEN discount IS NULL THEN 0 ELSE 1 END) AS discounts,
+        SUM(CASE WHEN discount IS NULL THEN 0 ELSE calculated_fee - fee END) AS discount_amount,
+        SUM(CASE WHEN pass_client_id IS NULL THEN 0 ELSE 1 END) AS pass_visits
+      FROM (
+        SELECT ${exitKey.sql} AS group_key, COALESCE(v.payment_method, 'cash') AS method, COALESCE(v.fee, 0) AS fee,
+          COALESCE(v.calculated_fee, v.fee, 0) AS calculated_fee, v.lost_ticket, v.discount, v.pass_client_id
+        FROM vehicles v
+        WHERE v.exit_time IS NOT NULL AND v.exit_time >= ? AND v.exit_time < ?
+      ) visits
+      GROUP BY group_key, method`, ...exitKey.params, range.start, range.end);
+
+    // SQL does the counting; here the per-type and per-method rows are folded into one group each
+    const groups = new Map();
+    const totals = emptyReportGroup();
+    const groupFor = (key) => {
+      if (!groups.has(key)) groups.set(key, { key, ...emptyReportGroup() });
+      return groups.get(key);
+    };
+    for (const row of entryRows) {
+      const entries = Number(row.entries);
+      for (const group of [groupFor(row.group_key ?? null), totals]) {
+        group.entries += entries;
+        group.byType[row.vehicle_type] = (group.byType[row.vehicle_type] || 0) + entries;
+      }
+    }
+    for (const row of exitRows) {
+      for (const group of [groupFor(row.group_key ?? null), totals]) {
+        group.exits += Number(row.exits);
+        group.income += Number(row.income) || 0;
+        group.incomeByMethod[row.method] = (group.incomeByMethod[row.method] || 0) + (Number(row.income) || 0);
+        group.lostTickets += Number(row.lost_tickets);
+        group.lostTicketPenalties += Number(row.lost_ticket_penalties) || 0;
+        group.discounts += Number(row.discounts);
+        group.discountAmount += Number(row.discount_amount) || 0;
+        group.passVisits += Number(row.pass_visits);
+      }
+    }
+
+    // Time groups run oldest first; types and operators (no operator last) by what they took in
+    const sorted = [...groups.values()].sort((a, b) => (['type', 'operator'].includes(groupBy)
+      ? (a.key === null) - (b.key === null) || b.income - a.income || String(a.key).localeCompare(String(b.key))
+      : a.key.localeCompare(b.key)));
+    res.json({ from: range.from, to: range.to, groupBy, groups: sorted, totals });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to build report' });
+  }
+});
+
+// Finished visits that left within ?from=&to=, newest exit first, for the lists behind the summary
+app.get('/api/reports/vehicles', requireRole('supervisor'), async (req, res) => {
+  try {
+    const errors = [];
+    const range = parseReportRange(req.query, errors);
+    if (errors.length > 0) {
+      return res.status(400).json({ error: `Invalid report: ${errors.join('; ')}`, details: errors });
+    }
+    const rows = await dbAll('SELECT * FROM vehicles WHERE exit_time IS NOT NULL AND exit_time >= ? AND exit_time < ? ORDER BY exit_time DESC',
+      range.start, range.end);
+    res.json(rows.map(row => fromRow(vehicleSchema, row)));
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch vehicles' });
+  }
+});
+
+// Most vehicles parked at once on each day of the range. Only visits overlapping the range are read;
+// one parked since before it counts from its start, and exits are applied before entries at the same moment.
+function peakOccupancyByDay(visits, range) {
+  const events = [];
+  for (const visit of visits) {
+    events.push({ at: visit.entry_time < range.start ? range.start : visit.entry_time, change: 1 });
+    if (visit.exit_time && visit.exit_time < range.end) events.push({ at: visit.exit_time, change: -1 });
+  }
+  events.sort((a, b) => a.at.localeCompare(b.at) || a.change - b.change);
+
+  const peaks = [];
+  let occupancy = 0;
+  let next = 0;
+  for (let day = range.from; day <= range.to; day = addDays(day, 1)) {
+    const dayEnd = new Date(`${addDays(day, 1)}T00:00:00`).toISOString();
+    const peak = { day, peak: occupancy, at: null };
+    for (; next < events.length && events[next].at < dayEnd; next++) {
+      occupancy += events[next].change;
+      if (occupancy > peak.peak) Object.assign(peak, { peak: occupancy, at: events[next].at });
+    }
+    peaks.push(peak);
+  }
+  return peaks;
+}
+
+// What the summary leaves out: when vehicles arrive, how long they stay and how full the lot gets
+app.get('/api/reports/activity', requireRole('supervisor'), async (req, res) => {
+  try {
+    const errors = [];
+    const range = parseReportRange(req.query, errors);
+    if (errors.length > 0) {
+      return res.status(400).json({ error: `Invalid report: ${errors.join('; ')}`, details: errors });
+    }
+    // ISO weekdays, Monday 1 to Sunday 7, and hours in the server's time zone
+    const hourRows = await dbAll(`
+      SELECT weekday, hour, COUNT(*) AS entries
+      FROM (
+        SELECT EXTRACT(ISODOW FROM local_time) AS weekday, EXTRACT(HOUR FROM local_time) AS hour
+        FROM (SELECT timezone(?, entry_time::timestamptz) AS local_time FROM vehicles WHERE entry_time >= ? AND entry_time < ?) entries
+      ) entry_hours
+      GROUP BY weekday, hour`, REPORT_TIME_ZONE, range.start, range.end);
+    // Stays are measured on the visits that ended within the range
+    const dwellRows = await dbAll(`
+      SELECT vehicle_type, COUNT(*) AS visits,
+        AVG(EXTRACT(EPOCH FROM exit_time::timestamptz) - EXTRACT(EPOCH FROM entry_time::timestamptz)) AS average_seconds
+      FROM vehicles
+      WHERE exit_time IS NOT NULL AND exit_time >= ? AND exit_time < ?
+      GROUP BY vehicle_type`, range.start, range.end);
+    const visits = await dbAll('SELECT entry_time, exit_time FROM vehicles WHERE entry_time < ? AND (exit_time IS NULL OR exit_time >= ?)',
+      range.end, range.start);
+
+    res.json({
+      from: range.from,
+      to: range.to,
+      entriesByHour: hourRows.map(row => ({ weekday: Number(row.weekday), hour: Number(row.hour), entries: Number(row.entries) })),
+      dwellByType: dwellRows
+        .map(row => ({ type: row.vehicle_type, visits: Number(row.visits), averageMinutes: Math.round(Number(row.average_seconds) / 60) }))
+        .sort((a, b) => b.visits - a.visits),
+      peakOccupancy: peakOccupancyByDay(visits, range)
+    });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to build report' });
+  }
+});
+
+// Audit Log
+app.get('/api/audit', requireRole('owner'), async (req, res) => {
+  try {
+    const { actor, action, from, to } = req.query;
+    const conditions = [];
+    const params = [];
+    if (actor) { conditions.push('actor_id = ?'); params.push(actor); }
+    if (action) { conditions.push('action = ?'); params.push(action); }
+    if (from) { conditions.push('created_at >= ?'); params.push(from); }
+    if (to) { conditions.push('created_at <= ?'); params.push(to); }
+    const limit = Math.min(parseInt(req.query.limit, 10) || 500, 2000);
+    const where = conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : '';
+    const rows = await dbAll(`SELECT * FROM audit_log ${where} ORDER BY id DESC LIMIT ${limit}`, ...params);
+    res.json(rows.map(toAuditEntry));
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch audit log' });
+  }
+});
+
+// Change Feed
+// Without "since" only the current cursor is returned, which is where a freshly loaded terminal starts
+app.get('/api/changes', async (req, res) => {
+  try {
+    const cursorRow = await dbGet('SELECT MAX(seq) AS cursor FROM changes');
+    const cursor = Number(cursorRow?.cursor) || 0;
+    if (req.query.since === undefined) {
+      return res.json({ cursor, changes: [] });
+    }
+    const since = parseInt(req.query.since, 10) || 0;
+    const rows = await dbAll('SELECT * FROM changes WHERE seq > ? AND seq <= ? ORDER BY seq', since, cursor);
+    res.json({ cursor, changes: rows.map(toChange) });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to fetch changes' });
+  }
+});
+
+// Live change stream. Changes after `since` (or the Last-Event-ID a reconnecting browser sends) are
+// replayed from the feed first; live changes arriving meanwhile are held back so order is preserved.
+app.get('/api/events', async (req, res) => {
+  res.set({
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+    'X-Accel-Buffering': 'no'
+  });
+  res.flushHeaders();
+  res.write('retry: 5000\n\n');
+
+  let lastSent = 0;
+  let replaying = true;
+  const heldBack = [];
+  const write = (change) => {
+    if (change.seq <= lastSent) return;
+    lastSent = change.seq;
+    res.write(`id: ${change.seq}\nevent: change\ndata: ${JSON.stringify(change)}\n\n`);
+  };
+  const stream = { send: (change) => (replaying ? heldBack.push(change) : write(change)) };
+  eventStreams.add(stream);
+
+  // Comments keep proxies from closing an idle connection
+  const heartbeat = setInterval(() => res.write(': keep-alive\n\n'), 25000);
+  req.on('close', () => {
+    clearInterval(heartbeat);
+    eventStreams.delete(stream);
+  });
+
+  try {
+    const since = parseInt(req.get('Last-Event-ID') || req.query.since, 10);
+    if (!isNaN(since)) {
+      const rows = await dbAll('SELECT * FROM changes WHERE seq > ? ORDER BY seq', since);
+      rows.map(toChange).forEach(write);
+    }
+  } catch (error) {
+    console.error('Failed to replay changes to event stream:', error);
+  }
+  replaying = false;
+  heldBack.forEach(write);
+});
+
 // Health check
 app.get('/api/health', (req, res) => {
   res.json({ status: 'OK', timestamp: new Date().toISOString() });
 });
 
 // Backup and Restore
-app.post('/api/backup', async (req, res) => {
-  try {
-    const { vehicles, permanentClients, settings, dailyStats } = req.body;
-    await dbRun('BEGIN TRANSACTION');
-    await dbRun('DELETE FROM vehicles');
-    await dbRun('DELETE FROM permanent_clients');
-    await dbRun('DELETE FROM daily_stats');
-    for (const v of vehicles) await dbRun('INSERT INTO vehicles VALUES (?,?,?,?,?,?)', v.id, v.vehicleNumber, v.vehicleType, v.entryTime, v.exitTime, v.fee);
-    for (const c of permanentClients) await dbRun('INSERT INTO permanent_clients VALUES (?,?,?,?,?,?)', c.id, c.name, c.vehicleNumber, c.contact, c.paymentStatus, c.entryTime);
-    for (const s of dailyStats) await dbRun('INSERT INTO daily_stats VALUES (?,?,?)', s.date, s.totalVehicles, s.totalRevenue);
-    await dbRun('UPDATE settings SET value = ? WHERE key = ?', JSON.stringify(settings), 'app_settings');
-    await dbRun('COMMIT');
-    res.json({ success: true, message: 'Restore from backup successful.' });
+// Sections in the order they are written, so categories exist before the vehicles and clients that use them.
+// A section missing from a file (older backups lack several) is left as it is on the server.
+const BACKUP_SECTIONS = [
+  { name: 'vehicleTypes', schema: vehicleTypeSchema, key: 'id', label: record => record.label },
+  { name: 'shifts', schema: shiftSchema, key: 'id', label: record => `${record.counter} ${record.openedAt}` },
+  { name: 'invoices', schema: invoiceSchema, key: 'id', label: record => `${record.clientId} ${record.period}` },
+  { name: 'vehicles', schema: vehicleSchema, key: 'id', label: record => record.number },
+  { name: 'permanentClients', schema: permanentClientSchema, key: 'id', label: record => record.number },
+  { name: 'dailyStats', schema: dailyStatsSchema, key: 'date', label: record => record.date }
+];
+
+// merge adds new records and updates changed ones but keeps the server's copy of a conflict;
+// replace makes each section in the file an exact copy of it
+const BACKUP_MODES = ['merge', 'replace'];
+
+// Invoices carry their payments inside them, as GET /api/invoices returns them
+function parseBackupRecord(section, item) {
+  const { record, errors } = parseBody(section.schema, item);
+  if (section.name !== 'invoices') return { record, errors };
+  const payments = (Array.isArray(item?.payments) ? item.payments : [])
+    .map(payment => parseBody(invoicePaymentSchema, { ...payment, invoiceId: record.id }));
+  return {
+    record: { ...record, payments: payments.map(payment => payment.record).sort((a, b) => String(a.id).localeCompare(String(b.id))) },
+    errors: [...errors, ...payments.flatMap(payment => payment.errors.map(error => `payment ${error}`))]
+  };
+}
+
+// Validates the whole file before anything is written, so a bad one cannot leave tables half-restored.
+// Each entry keeps the updatedAt the file was saved with, which parsing drops as read-only.
+async function parseBackup(body, mode) {
+  const source = body && typeof body === 'object' ? body : {};
+  const errors = [];
+  const sections = BACKUP_SECTIONS.filter(section => Array.isArray(source[section.name])).map(section => ({
+    ...section,
+    entries: source[section.name].map((item, index) => {
+      const { record, errors: recordErrors } = parseBackupRecord(section, item);
+      errors.push(...recordErrors.map(error => `${section.schema.entity} ${index + 1}: ${error}`));
+      return { key: String(record[section.key]), record, savedAt: item?.updatedAt };
+    })
+  }));
+  const settings = source.settings && typeof source.settings === 'object' && !Array.isArray(source.settings)
+    ? stripCredentials(source.settings)
+    : null;
+  if (sections.length === 0 && !settings) errors.push('the file has no records to import');
+
+  for (const section of sections) {
+    const keys = new Set();
+    for (const { key } of section.entries) {
+      if (keys.has(key)) errors.push(`${section.schema.entity} ${key} appears more than once`);
+      keys.add(key);
+    }
+  }
+  // Vehicles and clients must use a category that will exist once the import is done
+  const fileTypes = sections.find(section => section.name === 'vehicleTypes')?.entries.map(({ key }) => key);
+  const serverTypes = (await dbAll('SELECT id FROM vehicle_types')).map(row => row.id);
+  const knownTypes = new Set(fileTypes && mode === 'replace' ? fileTypes : [...serverTypes, ...(fileTypes || [])]);
+  for (const section of sections.filter(section => section.name === 'vehicles' || section.name === 'permanentClients')) {
+    for (const { record } of section.entries) {
+      if (record.type && !knownTypes.has(record.type)) errors.push(`type "${record.type}" is not a configured vehicle type`);
+    }
+  }
+  return { sections, settings, errors };
+}
+
+// Records compare the way they would be stored, so cleared fields and formatting do not count as changes
+function canonicalRecord(section, record) {
+  return JSON.stringify(parseBackupRecord(section, record).record, (name, value) => value === null ? undefined : value);
+}
+
+// Sorts each entry in the file against the server's copy. A conflict is a record that differs and was
+// saved on the server after the file's copy (or the file does not say when its copy was saved).
+async function diffBackup(sections) {
+  const diffs = [];
+  for (const section of sections) {
+    const serverRecords = section.name === 'invoices'
+      ? await allInvoices()
+      : (await dbAll(`SELECT * FROM ${section.schema.table}`)).map(row => fromRow(section.schema, row));
+    const serverByKey = new Map(serverRecords.map(record => [String(record[section.key]), record]));
+    const diff = { section, added: [], changed: [], conflicts: [], unchanged: 0, removed: 0 };
+    for (const entry of section.entries) {
+      const existing = serverByKey.get(entry.key);
+      serverByKey.delete(entry.key);
+      if (!existing) diff.added.push(entry);
+      else if (canonicalRecord(section, existing) === canonicalRecord(section, entry.record)) diff.unchanged++;
+      else if (existing.updatedAt && !(Date.parse(existing.updatedAt) <= Date.parse(entry.savedAt))) diff.conflicts.push(entry);
+      else diff.changed.push(entry);
+    }
+    diff.removed = serverByKey.size;
+    diffs.push(diff);
+  }
+  return diffs;
+}
+
+function summarizeDiff({ section, added, changed, conflicts, unchanged, removed }) {
+  return {
+    name: section.name,
+    added: added.length,
+    changed: changed.length,
+    unchanged,
+    removed,
+    conflicts: conflicts.map(({ key, record }) => ({ key, label: section.label(record) }))
+  };
+}
+
+async function writeBackupRecord(section, record, now) {
+  const versioned = section.schema.fields.updatedAt ? [['updated_at', now]] : [];
+  await insertRecord(section.schema, record, { extraColumns: versioned });
+  if (section.name === 'invoices') {
+    for (const payment of record.payments) await insertRecord(invoicePaymentSchema, payment);
+  }
+}
+
+async function deleteBackupRecord(section, key) {
+  if (section.name === 'invoices') await dbRun('DELETE FROM invoice_payments WHERE invoice_id = ?', key);
+  await dbRun(`DELETE FROM ${section.schema.table} WHERE ${section.schema.fields[section.key].column} = ?`, key);
+}
+
+// Answers what importing the file would do, without writing anything
+app.post('/api/backup/preview', requireRole('owner'), async (req, res) => {
+  try {
+    const mode = BACKUP_MODES.includes(req.query.mode) ? req.query.mode : 'replace';
+    const { sections, settings, errors } = await parseBackup(req.body, mode);
+    if (errors.length > 0) {
+      return res.status(400).json({ error: `Invalid backup: ${errors.slice(0, 5).join('; ')}`, details: errors });
+    }
+    const currentSettings = stripCredentials(await readSettings());
+    res.json({
+      sections: (await diffBackup(sections)).map(summarizeDiff),
+      settingsChanged: !!settings && JSON.stringify(settings) !== JSON.stringify(currentSettings)
+    });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to preview backup' });
+  }
+});
+
+// Imports a backup in one transaction. Answers the validation errors for an invalid file without writing
+// anything, otherwise the per-section summary. `source` says where the file came from for the audit log.
+async function importBackup(req, body, mode, source) {
+  const { sections, settings, errors } = await parseBackup(body, mode);
+  if (errors.length > 0) return { errors };
+
+  const now = new Date().toISOString();
+  const summary = await withTransaction(async () => {
+    const diffs = await diffBackup(sections);
+    for (const diff of diffs) {
+      const { section } = diff;
+      if (mode === 'replace') {
+        if (section.name === 'invoices') await dbRun('DELETE FROM invoice_payments');
+        await dbRun(`DELETE FROM ${section.schema.table}`);
+        for (const { record } of section.entries) await writeBackupRecord(section, record, now);
+      } else {
+        for (const { key } of diff.changed) await deleteBackupRecord(section, key);
+        for (const { record } of [...diff.added, ...diff.changed]) await writeBackupRecord(section, record, now);
+      }
+    }
+    // A merge keeps the server's settings; replace takes the file's when it has them
+    if (settings && mode === 'replace') {
+      await dbRun('UPDATE settings SET value = ? WHERE key = ?', JSON.stringify(settings), 'app_settings');
+    }
+    return diffs.map(summarizeDiff);
+  });
+
+  // Terminals reload everything rather than apply the import record by record
+  await recordChange('all', '*', 'reset', undefined, getClientId(req));
+  // Record counts rather than full datasets so the log stays readable
+  await recordAudit(req.user, mode === 'replace' ? 'backup.restore' : 'backup.merge', 'backup', source, undefined, {
+    mode,
+    sections: summary.map(({ name, added, changed, conflicts, removed }) => ({ name, added, changed, conflicts: conflicts.length, removed }))
+  });
+  return { summary };
+}
+
+// Reserved for owners since replace empties whole tables; day-to-day writes go through the record routes.
+// ?mode=merge keeps what the file does not mention.
+app.post('/api/backup', requireRole('owner'), async (req, res) => {
+  try {
+    const mode = BACKUP_MODES.includes(req.query.mode) ? req.query.mode : 'replace';
+    const { errors, summary } = await importBackup(req, req.body, mode, null);
+    if (errors) {
+      return res.status(400).json({ error: `Invalid backup: ${errors.slice(0, 5).join('; ')}`, details: errors });
+    }
+    res.json({ success: true, message: mode === 'replace' ? 'Restore from backup successful.' : 'Backup merged.', sections: summary });
   } catch (error) {
-    await dbRun('ROLLBACK');
     res.status(500).json({ error: 'Failed to restore backup' });
   }
 });
 
-app.get('/api/backup/download', async (req, res) => {
+// Everything a backup file holds, in the shape importBackup reads
+async function collectBackup() {
+  return {
+    vehicles: (await dbAll('SELECT * FROM vehicles')).map(row => fromRow(vehicleSchema, row)),
+    permanentClients: (await dbAll('SELECT * FROM permanent_clients')).map(row => fromRow(permanentClientSchema, row)),
+    vehicleTypes: (await dbAll('SELECT * FROM vehicle_types ORDER BY sort_order, label')).map(row => fromRow(vehicleTypeSchema, row)),
+    shifts: (await dbAll('SELECT * FROM shifts ORDER BY opened_at')).map(row => fromRow(shiftSchema, row)),
+    invoices: await allInvoices(),
+    settings: stripCredentials(await readSettings()),
+    dailyStats: (await dbAll('SELECT * FROM daily_stats')).map(row => fromRow(dailyStatsSchema, row))
+  };
+}
+
+// Sent straight to the browser; nothing is written on the server
+app.get('/api/backup/download', requireRole('owner'), async (req, res) => {
   try {
-    const backupData = {
-      vehicles: await dbAll('SELECT * FROM vehicles'),
-      permanentClients: await dbAll('SELECT * FROM permanent_clients'),
-      settings: JSON.parse((await dbGet('SELECT value FROM settings WHERE key = ?', 'app_settings')).value),
-      dailyStats: await dbAll('SELECT * FROM daily_stats')
-    };
-    const backupFilePath = path.join(__dirname, 'data', 'backup.json');
-    await fs.writeFile(backupFilePath, JSON.stringify(backupData, null, 2));
-    res.download(backupFilePath, 'backup.json');
+    const backupData = await collectBackup();
+    res.attachment(`backup-${new Date().toISOString().slice(0, 10)}.json`);
+    res.type('application/json').send(JSON.stringify(backupData, null, 2));
   } catch (error) {
     res.status(500).json({ error: 'Failed to create backup for download' });
   }
 });
 
+// --- Snapshots ---
+// Timestamped, gzipped backups kept on the server. They are taken on the schedule in Settings
+// (backupSchedule), by hand, and before each snapshot restore, and only the newest `keep` are kept.
+// A small .meta.json beside each one holds its record counts so listing them does not decompress every file.
+const SNAPSHOT_DIR = process.env.BACKUP_DIR || path.join(__dirname, 'data', 'backups');
+const SNAPSHOT_PATTERN = /^snapshot-[0-9TZ-]+$/;
+const SNAPSHOT_CHECK_INTERVAL_MS = 10 * 60 * 1000;
+const DEFAULT_BACKUP_SCHEDULE = { enabled: true, intervalHours: 24, keep: 14 };
+const gzip = promisify(zlib.gzip);
+const gunzip = promisify(zlib.gunzip);
+
+function backupSchedule(settings) {
+  const schedule = { ...DEFAULT_BACKUP_SCHEDULE, ...settings.backupSchedule };
+  return {
+    enabled: schedule.enabled !== false,
+    intervalHours: Math.max(1, Number(schedule.intervalHours) || DEFAULT_BACKUP_SCHEDULE.intervalHours),
+    keep: Math.max(1, parseInt(schedule.keep, 10) || DEFAULT_BACKUP_SCHEDULE.keep)
+  };
+}
+
+function snapshotPath(id, extension) {
+  return path.join(SNAPSHOT_DIR, `${id}${extension}`);
+}
+
+// Newest first
+async function listSnapshots() {
+  const files = await fs.readdir(SNAPSHOT_DIR).catch(() => []);
+  const snapshots = await Promise.all(files
+    .filter(file => file.endsWith('.json.gz') && SNAPSHOT_PATTERN.test(file.replace(/\.json\.gz$/, '')))
+    .map(async file => {
+      const id = file.replace(/\.json\.gz$/, '');
+      const { size, mtime } = await fs.stat(snapshotPath(id, '.json.gz'));
+      // A snapshot whose metadata went missing is still listed and restorable
+      const meta = await fs.readFile(snapshotPath(id, '.meta.json'), 'utf8').then(JSON.parse).catch(() => ({}));
+      return { id, createdAt: meta.createdAt || mtime.toISOString(), size, reason: meta.reason || 'manual', createdBy: meta.createdBy, counts: meta.counts || null };
+    }));
+  return snapshots.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+async function pruneSnapshots(keep) {
+  const stale = (await listSnapshots()).slice(keep);
+  for (const { id } of stale) {
+    await fs.rm(snapshotPath(id, '.json.gz'), { force: true });
+    await fs.rm(snapshotPath(id, '.meta.json'), { force: true });
+  }
+}
+
+// reason is scheduled, manual or pre-restore
+async function takeSnapshot(reason, actor) {
+  const backup = await collectBackup();
+  const createdAt = new Date().toISOString();
+  const id = `snapshot-${createdAt.replace(/[:.]/g, '-')}`;
+  const counts = Object.fromEntries(BACKUP_SECTIONS.map(section => [section.name, backup[section.name].length]));
+  await fs.mkdir(SNAPSHOT_DIR, { recursive: true });
+  await fs.writeFile(snapshotPath(id, '.json.gz'), await gzip(JSON.stringify(backup)));
+  await fs.writeFile(snapshotPath(id, '.meta.json'), JSON.stringify({ createdAt, reason, createdBy: actor?.username, counts }));
+  await pruneSnapshots(backupSchedule(await readSettings()).keep);
+  return (await listSnapshots()).find(snapshot => snapshot.id === id);
+}
+
+// Called every few minutes; takes a snapshot once the last scheduled one is older than the interval
+async function takeScheduledSnapshot() {
+  const schedule = backupSchedule(await readSettings());
+  if (!schedule.enabled) return;
+  const lastScheduled = (await listSnapshots()).find(snapshot => snapshot.reason === 'scheduled');
+  if (lastScheduled && Date.now() - Date.parse(lastScheduled.createdAt) < schedule.intervalHours * 60 * 60 * 1000) return;
+  await takeSnapshot('scheduled', null);
+}
+
+app.get('/api/backups', requireRole('owner'), async (req, res) => {
+  try {
+    res.json(await listSnapshots());
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to list backups' });
+  }
+});
+
+app.post('/api/backups', requireRole('owner'), async (req, res) => {
+  try {
+    const snapshot = await takeSnapshot('manual', req.user);
+    await recordAudit(req.user, 'backup.snapshot', 'backup', snapshot.id, undefined, snapshot);
+    res.json(snapshot);
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to take backup' });
+  }
+});
+
+// Replaces all data with the snapshot's. The current data is snapshotted first, so a restore can be undone.
+app.post('/api/backups/:id/restore', requireRole('owner'), async (req, res) => {
+  try {
+    const { id } = req.params;
+    const snapshot = SNAPSHOT_PATTERN.test(id) ? (await listSnapshots()).find(candidate => candidate.id === id) : null;
+    if (!snapshot) {
+      return res.status(404).json({ error: 'Backup not found' });
+    }
+    const backup = JSON.parse((await gunzip(await fs.readFile(snapshotPath(id, '.json.gz')))).toString('utf8'));
+    const safetySnapshot = await takeSnapshot('pre-restore', req.user);
+    const { errors, summary } = await importBackup(req, backup, 'replace', id);
+    if (errors) {
+      return res.status(400).json({ error: `Invalid backup: ${errors.slice(0, 5).join('; ')}`, details: errors });
+    }
+    res.json({ success: true, message: 'Restore from backup successful.', sections: summary, safetySnapshot });
+  } catch (error) {
+    res.status(500).json({ error: 'Failed to restore backup' });
+  }
+});
+
 // Serve static files
 app.use(express.static(path.join(__dirname, '../dist')));
 app.get('*', (req, res) => {
@@ -342,6 +2041,14 @@ app.get('*', (req, res) => {
 async function startServer() {
   try {
     await initializeDatabase();
+    const billCurrentMonth = () => generateInvoices(currentPeriod(), null)
+      .catch((error) => console.error('Failed to generate invoices:', error));
+    await billCurrentMonth();
+    setInterval(billCurrentMonth, INVOICE_CHECK_INTERVAL_MS);
+    const snapshotOnSchedule = () => takeScheduledSnapshot()
+      .catch((error) => console.error('Failed to take scheduled backup:', error));
+    await snapshotOnSchedule();
+    setInterval(snapshotOnSchedule, SNAPSHOT_CHECK_INTERVAL_MS);
     app.listen(PORT, () => {
       console.log(`🚀 Park Master Pro Backend Server running on port ${PORT}`);
       console.log(`📊 API endpoints available at http://localhost:${PORT}/api`);
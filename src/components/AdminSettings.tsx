@@ -1,4 +1,4 @@
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
@@ -8,34 +8,61 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Switch } from '@/components/ui/switch';
 import { useParkingContext } from '@/contexts/ParkingContext';
 import { useToast } from '@/hooks/use-toast';
-import { loadVehicles, loadPermanentClients, loadSettings, loadDailyStats } from '@/utils/storage';
-import { apiService, getConfiguredApiBaseUrl, setConfiguredApiBaseUrl } from '@/services/api';
-import { Settings, DollarSign, User } from 'lucide-react';
+import { loadVehicles, loadPermanentClients, loadSettings } from '@/utils/storage';
+import { apiService, getConfiguredApiBaseUrl, setConfiguredApiBaseUrl, getCounterCode, setCounterCode } from '@/services/api';
+import { BackupSchedule, DiscountReason, NightBand, SubscriptionPlan } from '@/types/parking';
+import UserManagement from './UserManagement';
+import VehicleTypeSettings from './VehicleTypeSettings';
+import SubscriptionPlanSettings from './SubscriptionPlanSettings';
+import SnapshotSettings from './SnapshotSettings';
+import { Settings, Moon, User, TicketSlash, BadgePercent, Plus, Trash2, CalendarClock } from 'lucide-react';
+
+// The server's schedule when none has been saved
+const DEFAULT_BACKUP_SCHEDULE: BackupSchedule = { enabled: true, intervalHours: 24, keep: 14 };
 
 const AdminSettings: React.FC = () => {
-  const { settings, updateSettings } = useParkingContext();
+  const { settings, updateSettings, currentUser, refreshCurrentShift } = useParkingContext();
   const { toast } = useToast();
   
   const [siteName, setSiteName] = useState(settings.siteName);
-  const [pricing, setPricing] = useState(settings.pricing);
-  const [credentials, setCredentials] = useState(settings.credentials);
+  const [nightBand, setNightBand] = useState<NightBand | undefined>(settings.nightBand);
+  const [lostTicketPenalty, setLostTicketPenalty] = useState(settings.lostTicketPenalty || 0);
+  const [discountReasons, setDiscountReasons] = useState<DiscountReason[]>(settings.discountReasons || []);
+  const [billingDueDay, setBillingDueDay] = useState(settings.billingDueDay || 10);
+  const [subscriptionPlans, setSubscriptionPlans] = useState<SubscriptionPlan[]>(settings.subscriptionPlans || []);
+  const [backupSchedule, setBackupSchedule] = useState<BackupSchedule>(settings.backupSchedule || DEFAULT_BACKUP_SCHEDULE);
+  const [newReason, setNewReason] = useState<DiscountReason>({ code: '', label: '' });
+  const [credentials, setCredentials] = useState({ currentPassword: '', username: currentUser?.username || '', password: '' });
   const [viewMode, setViewMode] = useState(settings.viewMode);
   const [serverUrl, setServerUrl] = useState<string>(() => getConfiguredApiBaseUrl());
   const [health, setHealth] = useState<string>('');
+  const [counter, setCounter] = useState<string>(getCounterCode);
 
   // Keep local form state in sync if settings update from server
   useEffect(() => {
     setSiteName(settings.siteName);
-    setPricing(settings.pricing);
-    setCredentials(settings.credentials);
+    setNightBand(settings.nightBand);
+    setLostTicketPenalty(settings.lostTicketPenalty || 0);
+    setDiscountReasons(settings.discountReasons || []);
+    setBillingDueDay(settings.billingDueDay || 10);
+    setSubscriptionPlans(settings.subscriptionPlans || []);
+    setBackupSchedule(settings.backupSchedule || DEFAULT_BACKUP_SCHEDULE);
     setViewMode(settings.viewMode);
   }, [settings]);
 
   const handleSave = () => {
+    if (subscriptionPlans.some(plan => !plan.name.trim())) {
+      toast({ title: "Error", description: "Give every subscription plan a name", variant: "destructive" });
+      return;
+    }
     updateSettings({
       siteName,
-      pricing,
-      credentials,
+      nightBand,
+      lostTicketPenalty,
+      discountReasons,
+      billingDueDay,
+      subscriptionPlans,
+      backupSchedule,
       viewMode
     });
     
@@ -45,7 +72,44 @@ const AdminSettings: React.FC = () => {
     });
   };
 
-  
+  const handleAddReason = () => {
+    const code = newReason.code.trim().toUpperCase();
+    if (!code || !newReason.label.trim()) {
+      toast({ title: "Error", description: "Enter a code and a label for the reason", variant: "destructive" });
+      return;
+    }
+    if (discountReasons.some(reason => reason.code === code)) {
+      toast({ title: "Error", description: `Reason code ${code} already exists`, variant: "destructive" });
+      return;
+    }
+    setDiscountReasons([...discountReasons, { code, label: newReason.label.trim() }]);
+    setNewReason({ code: '', label: '' });
+  };
+
+  const handleUpdateCredentials = async () => {
+    if (!credentials.currentPassword || !credentials.username.trim()) {
+      toast({
+        title: "Error",
+        description: "Enter your current password and a username",
+        variant: "destructive"
+      });
+      return;
+    }
+    try {
+      await apiService.updateCredentials(credentials.currentPassword, credentials.username, credentials.password);
+      setCredentials({ currentPassword: '', username: credentials.username.trim(), password: '' });
+      toast({
+        title: "Credentials updated",
+        description: "Use the new username and password next time you sign in",
+      });
+    } catch (e) {
+      toast({
+        title: "Update failed",
+        description: "Check your current password and try again",
+        variant: "destructive"
+      });
+    }
+  };
 
   return (
     <div className="space-y-6">
@@ -54,64 +118,151 @@ const AdminSettings: React.FC = () => {
           <TabsTrigger value="pricing">Pricing</TabsTrigger>
           <TabsTrigger value="view">View Settings</TabsTrigger>
           <TabsTrigger value="login">Login Settings</TabsTrigger>
+          <TabsTrigger value="users">Users</TabsTrigger>
           <TabsTrigger value="server">Server</TabsTrigger>
         </TabsList>
         
-        <TabsContent value="pricing">
+        <TabsContent value="pricing" className="space-y-6">
+          <VehicleTypeSettings />
           <Card>
             <CardHeader>
               <CardTitle className="flex items-center">
-                <DollarSign className="h-5 w-5 mr-2" />
-                Dynamic Pricing Settings
+                <Moon className="h-5 w-5 mr-2" />
+                Night Band
               </CardTitle>
             </CardHeader>
             <CardContent className="space-y-6">
-              {Object.entries(pricing).map(([vehicleType, rates]) => (
-                <div key={vehicleType} className="space-y-3">
-                  <h3 className="font-semibold capitalize">{vehicleType} Pricing</h3>
-                  <div className="grid gap-4 md:grid-cols-3">
-                    <div>
-                      <Label>Base Hours</Label>
-                      <Input
-                        type="number"
-                        value={rates.baseHours}
-                        onChange={(e) => setPricing({
-                          ...pricing,
-                          [vehicleType]: { ...rates, baseHours: parseInt(e.target.value) || 0 }
-                        })}
-                      />
-                    </div>
+              <div className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <p className="text-sm text-muted-foreground">Night hour fees and overnight flat fees only apply between these hours</p>
+                  <Switch
+                    checked={!!nightBand}
+                    onCheckedChange={(checked) => setNightBand(checked ? { startHour: 22, endHour: 6 } : undefined)}
+                  />
+                </div>
+                {nightBand && (
+                  <div className="grid gap-4 md:grid-cols-2">
                     <div>
-                      <Label>Base Fee (PKR)</Label>
+                      <Label>Starts At (hour, 0-23)</Label>
                       <Input
                         type="number"
-                        value={rates.baseFee}
-                        onChange={(e) => setPricing({
-                          ...pricing,
-                          [vehicleType]: { ...rates, baseFee: parseInt(e.target.value) || 0 }
-                        })}
+                        min={0}
+                        max={23}
+                        value={nightBand.startHour}
+                        onChange={(e) => setNightBand({ ...nightBand, startHour: Math.min(23, Math.max(0, parseInt(e.target.value) || 0)) })}
                       />
                     </div>
                     <div>
-                      <Label>Extra Hour Fee (PKR)</Label>
+                      <Label>Ends At (hour, 0-23)</Label>
                       <Input
                         type="number"
-                        value={rates.extraHourFee}
-                        onChange={(e) => setPricing({
-                          ...pricing,
-                          [vehicleType]: { ...rates, extraHourFee: parseInt(e.target.value) || 0 }
-                        })}
+                        min={0}
+                        max={23}
+                        value={nightBand.endHour}
+                        onChange={(e) => setNightBand({ ...nightBand, endHour: Math.min(23, Math.max(0, parseInt(e.target.value) || 0)) })}
                       />
                     </div>
                   </div>
+                )}
+              </div>
+              <Button onClick={handleSave} className="w-full">Save Night Band</Button>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <TicketSlash className="h-5 w-5 mr-2" />
+                Lost Ticket
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div>
+                <Label>Penalty (PKR)</Label>
+                <Input
+                  type="number"
+                  min={0}
+                  value={lostTicketPenalty}
+                  onChange={(e) => setLostTicketPenalty(Math.max(0, parseInt(e.target.value) || 0))}
+                />
+                <p className="text-xs text-muted-foreground mt-1">Added to the normal fee when a driver exits without their ticket</p>
+              </div>
+              <Button onClick={handleSave} className="w-full">Save Lost Ticket Penalty</Button>
+            </CardContent>
+          </Card>
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <CalendarClock className="h-5 w-5 mr-2" />
+                Client Billing
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div>
+                <Label>Invoice Due Day (1-28)</Label>
+                <Input
+                  type="number"
+                  min={1}
+                  max={28}
+                  value={billingDueDay}
+                  onChange={(e) => setBillingDueDay(Math.min(28, Math.max(1, parseInt(e.target.value) || 1)))}
+                />
+                <p className="text-xs text-muted-foreground mt-1">Permanent clients are invoiced on the 1st and become overdue after this day. Applies to invoices not yet issued</p>
+              </div>
+              <Button onClick={handleSave} className="w-full">Save Billing Due Day</Button>
+            </CardContent>
+          </Card>
+          <SubscriptionPlanSettings plans={subscriptionPlans} onChange={setSubscriptionPlans} onSave={handleSave} />
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center">
+                <BadgePercent className="h-5 w-5 mr-2" />
+                Discount Reasons
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <p className="text-sm text-muted-foreground">Every discount or waiver at exit must use one of these codes</p>
+              {discountReasons.map(reason => (
+                <div key={reason.code} className="flex items-center justify-between gap-2 border-b pb-2">
+                  <span>
+                    <span className="font-mono font-semibold mr-2">{reason.code}</span>
+                    {reason.label}
+                  </span>
+                  <Button
+                    size="sm"
+                    variant="destructive"
+                    onClick={() => setDiscountReasons(discountReasons.filter(existing => existing.code !== reason.code))}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
                 </div>
               ))}
-              <Button onClick={handleSave} className="w-full">Save Pricing</Button>
+              <div className="flex gap-2">
+                <Input
+                  value={newReason.code}
+                  placeholder="Code, e.g. STAFF"
+                  onChange={(e) => setNewReason({ ...newReason, code: e.target.value.toUpperCase() })}
+                  className="w-40"
+                />
+                <Input
+                  value={newReason.label}
+                  placeholder="Label, e.g. Staff vehicle"
+                  onChange={(e) => setNewReason({ ...newReason, label: e.target.value })}
+                  className="flex-1"
+                />
+                <Button variant="outline" onClick={handleAddReason}>
+                  <Plus className="h-4 w-4" />
+                </Button>
+              </div>
+              <Button onClick={handleSave} className="w-full">Save Discount Reasons</Button>
             </CardContent>
           </Card>
         </TabsContent>
 
-        <TabsContent value="server">
+        <TabsContent value="users">
+          <UserManagement />
+        </TabsContent>
+
+        <TabsContent value="server" className="space-y-6">
           <Card>
             <CardHeader>
               <CardTitle>Server Configuration</CardTitle>
@@ -151,8 +302,30 @@ const AdminSettings: React.FC = () => {
                 >Test Server</Button>
               </div>
               {health && <p className="text-sm">Status: {health}</p>}
+              <div>
+                <Label>Counter Code</Label>
+                <div className="flex gap-2">
+                  <Input
+                    value={counter}
+                    onChange={(e) => setCounter(e.target.value.toUpperCase())}
+                    maxLength={3}
+                    className="w-24"
+                  />
+                  <Button
+                    variant="outline"
+                    onClick={() => {
+                      setCounterCode(counter);
+                      setCounter(getCounterCode());
+                      refreshCurrentShift().catch((error) => console.warn('Failed to load shift for counter:', error));
+                      toast({ title: 'Counter code saved', description: `Tickets from this terminal will be numbered ${getCounterCode()}-YYYYMMDD-0001 onwards.` });
+                    }}
+                  >Save Counter</Button>
+                </div>
+                <p className="text-xs text-muted-foreground mt-1">Stored on this terminal only. Give each counter its own code so their ticket numbers never overlap. Each counter also has its own shift.</p>
+              </div>
             </CardContent>
           </Card>
+          <SnapshotSettings schedule={backupSchedule} onChange={setBackupSchedule} onSave={handleSave} />
         </TabsContent>
         
         <TabsContent value="view">
@@ -199,7 +372,18 @@ const AdminSettings: React.FC = () => {
             </CardHeader>
             <CardContent className="space-y-4">
               <div>
-                <Label>Username</Label>
+                <Label>Current Password</Label>
+                <Input
+                  type="password"
+                  value={credentials.currentPassword}
+                  onChange={(e) => setCredentials({
+                    ...credentials,
+                    currentPassword: e.target.value
+                  })}
+                />
+              </div>
+              <div>
+                <Label>New Username</Label>
                 <Input
                   value={credentials.username}
                   onChange={(e) => setCredentials({
@@ -209,9 +393,10 @@ const AdminSettings: React.FC = () => {
                 />
               </div>
               <div>
-                <Label>Password</Label>
+                <Label>New Password</Label>
                 <Input
                   type="password"
+                  placeholder="Leave blank to keep the current password"
                   value={credentials.password}
                   onChange={(e) => setCredentials({
                     ...credentials,
@@ -219,32 +404,27 @@ const AdminSettings: React.FC = () => {
                   })}
                 />
               </div>
-              <Button onClick={handleSave} className="w-full">Update Credentials</Button>
+              <Button onClick={handleUpdateCredentials} className="w-full">Update Credentials</Button>
             </CardContent>
           </Card>
         </TabsContent>
       </Tabs>
       <div className="flex flex-col gap-2 mt-8">
-        {/* Auto Sync/Restore toggles */}
-        <AutoSyncRestoreToggles />
         {/* Manual sync/restore buttons */}
         <Button
           variant="outline"
           onClick={async () => {
+            // Day-to-day changes already reach the server record by record. This device only holds recent
+            // vehicles, so it merges rather than replacing the server's history
+            if (!window.confirm('This will add or update the server records with the data on this device. Continue?')) return;
             try {
-              // Gather all data from localStorage
+              // Gather all data from localStorage. Daily totals are no longer kept here; reports are built on the server
               const vehicles = JSON.parse(localStorage.getItem('parking_vehicles') || '[]');
               const permanentClients = JSON.parse(localStorage.getItem('parking_permanent_clients') || '[]');
               const settings = JSON.parse(localStorage.getItem('parking_settings') || '{}');
-              const dailyStats = JSON.parse(localStorage.getItem('parking_daily_stats') || '[]');
-              const backup = { vehicles, permanentClients, settings, dailyStats, backupDate: new Date().toISOString() };
-              const base = getConfiguredApiBaseUrl();
-              const res = await fetch(`${base}/backup`, {
-                method: 'POST',
-                headers: { 'Content-Type': 'application/json' },
-                body: JSON.stringify(backup)
-              });
-              if (!res.ok) throw new Error('Backup failed');
+              const vehicleTypes = JSON.parse(localStorage.getItem('parking_vehicle_types') || 'null');
+              const backup = { vehicles, permanentClients, settings, vehicleTypes, backupDate: new Date().toISOString() };
+              await apiService.uploadBackup(backup, 'merge');
               toast({ title: 'Backup Successful', description: 'Data synced to server.' });
             } catch (e) {
               toast({ title: 'Backup Failed', description: (e as Error).message, variant: 'destructive' });
@@ -259,13 +439,11 @@ const AdminSettings: React.FC = () => {
               const freshVehicles = await apiService.getVehicles();
               const freshClients = await apiService.getPermanentClients();
               const freshSettings = await apiService.getSettings();
-              const freshStats = await apiService.getDailyStats();
               
               // Update localStorage with fresh API data
               localStorage.setItem('parking_vehicles', JSON.stringify(freshVehicles));
               localStorage.setItem('parking_permanent_clients', JSON.stringify(freshClients));
               localStorage.setItem('parking_settings', JSON.stringify(freshSettings));
-              localStorage.setItem('parking_daily_stats', JSON.stringify(freshStats));
               
               toast({ title: 'Restore Successful', description: 'Latest data loaded from server.' });
               window.location.reload();
@@ -276,151 +454,10 @@ const AdminSettings: React.FC = () => {
         >Restore Data from Server</Button>
       </div>
       <p className="text-sm text-muted-foreground mt-2">
-        Hint: Other devices may need to refresh the page or use "Restore Data from Server" to see the latest changes.
+        Hint: Other counters pick up entries, exits and client changes automatically within a few seconds.
       </p>
     </div>
   );
 };
 
-// --- Auto Sync/Restore Toggles ---
-
-const AutoSyncRestoreToggles: React.FC = () => {
-  const { toast } = useToast();
-  const [autoSync, setAutoSync] = useState(() => localStorage.getItem('autoSync') === 'true');
-  const [autoRestore, setAutoRestore] = useState(() => localStorage.getItem('autoRestore') === 'true');
-  const syncIntervalRef = useRef<NodeJS.Timeout | null>(null);
-  const restoreIntervalRef = useRef<NodeJS.Timeout | null>(null);
-
-  // Double confirmation for enabling auto sync
-  const handleToggleSync = async () => {
-    if (!autoSync) {
-      if (!window.confirm('Auto Sync will periodically overwrite the server backup with your current data. Are you sure you want to enable it?')) return;
-      const input = window.prompt('Type SYNC to confirm enabling Auto Sync:');
-      if (input !== 'SYNC') {
-        toast({ title: 'Auto Sync not enabled', description: 'Confirmation failed.', variant: 'destructive' });
-        return;
-      }
-      setAutoSync(true);
-      localStorage.setItem('autoSync', 'true');
-      toast({ title: 'Auto Sync enabled', description: 'Your data will now be backed up every 2 minutes.' });
-    } else {
-      setAutoSync(false);
-      localStorage.setItem('autoSync', 'false');
-      toast({ title: 'Auto Sync disabled' });
-    }
-  };
-
-  // Double confirmation for enabling auto restore
-  const handleToggleRestore = async () => {
-    if (!autoRestore) {
-      if (!window.confirm('Auto Restore will periodically overwrite your local data with the latest server backup. Are you sure you want to enable it?')) return;
-      const input = window.prompt('Type RESTORE to confirm enabling Auto Restore:');
-      if (input !== 'RESTORE') {
-        toast({ title: 'Auto Restore not enabled', description: 'Confirmation failed.', variant: 'destructive' });
-        return;
-      }
-      setAutoRestore(true);
-      localStorage.setItem('autoRestore', 'true');
-      toast({ title: 'Auto Restore enabled', description: 'Your data will now be restored every 2 minutes.' });
-    } else {
-      setAutoRestore(false);
-      localStorage.setItem('autoRestore', 'false');
-      toast({ title: 'Auto Restore disabled' });
-    }
-  };
-
-  // Auto Sync effect
-  useEffect(() => {
-    // Only run if Auto Sync toggle is enabled
-    if (autoSync && localStorage.getItem('autoSync') === 'true') {
-      syncIntervalRef.current = setInterval(async () => {
-        try {
-          // Sync local data to backup endpoint (now updates live files too)
-          const vehicles = JSON.parse(localStorage.getItem('parking_vehicles') || '[]');
-          const permanentClients = JSON.parse(localStorage.getItem('parking_permanent_clients') || '[]');
-          const settings = JSON.parse(localStorage.getItem('parking_settings') || '{}');
-          const dailyStats = JSON.parse(localStorage.getItem('parking_daily_stats') || '[]');
-          const backup = { vehicles, permanentClients, settings, dailyStats, backupDate: new Date().toISOString() };
-          const API_BASE_URL = getConfiguredApiBaseUrl();
-          await fetch(`${API_BASE_URL}/backup`, {
-            method: 'POST',
-            headers: { 'Content-Type': 'application/json' },
-            body: JSON.stringify(backup)
-          });
-        } catch {}
-      }, 2 * 60 * 1000); // 2 minutes
-    } else if (syncIntervalRef.current) {
-      clearInterval(syncIntervalRef.current);
-    }
-    return () => {
-      if (syncIntervalRef.current) clearInterval(syncIntervalRef.current);
-    };
-  }, [autoSync]);
-
-  // Auto Restore effect (poll-like): fetch live data periodically and reload only on changes
-  useEffect(() => {
-    // Only run if Auto Restore toggle is enabled
-    if (autoRestore && localStorage.getItem('autoRestore') === 'true') {
-      restoreIntervalRef.current = setInterval(async () => {
-        try {
-          // Fetch directly from live API endpoints for real-time data
-          const freshVehicles = await apiService.getVehicles();
-          const freshClients = await apiService.getPermanentClients();
-          const freshSettings = await apiService.getSettings();
-          const freshStats = await apiService.getDailyStats();
-
-          // Build light signatures to avoid reloads on no-op differences (e.g., ordering)
-          const sigVehicles = (arr: any[]) => JSON.stringify(
-            arr.map(v => ({ id: v.id, exitTime: v.exitTime || null, fee: v.fee || 0 })).sort((a, b) => a.id.localeCompare(b.id))
-          );
-          const sigClients = (arr: any[]) => JSON.stringify(
-            arr.map(c => c.id).sort()
-          );
-          const sigSettings = (s: any) => JSON.stringify({
-            username: s?.credentials?.username,
-            password: s?.credentials?.password,
-            siteName: s?.siteName,
-            viewMode: s?.viewMode,
-          });
-
-          const currentVehicles = JSON.parse(localStorage.getItem('parking_vehicles') || '[]');
-          const currentClients = JSON.parse(localStorage.getItem('parking_permanent_clients') || '[]');
-          const currentSettings = JSON.parse(localStorage.getItem('parking_settings') || '{}');
-
-          // Always replace local data with server data when Auto Restore is enabled
-          localStorage.setItem('parking_vehicles', JSON.stringify(freshVehicles));
-          localStorage.setItem('parking_permanent_clients', JSON.stringify(freshClients));
-          localStorage.setItem('parking_settings', JSON.stringify(freshSettings));
-          localStorage.setItem('parking_daily_stats', JSON.stringify(freshStats));
-          
-          // Always reload to ensure UI reflects server state
-          window.location.reload();
-        } catch {}
-      }, 60 * 1000); // 60 seconds
-    } else if (restoreIntervalRef.current) {
-      clearInterval(restoreIntervalRef.current);
-    }
-    return () => {
-      if (restoreIntervalRef.current) clearInterval(restoreIntervalRef.current);
-    };
-  }, [autoRestore]);
-
-  return (
-    <div className="flex flex-col gap-2 mb-2">
-      <div className="flex items-center gap-2">
-        <Label className="font-semibold">Auto Sync (Backup)</Label>
-        <Button variant={autoSync ? 'destructive' : 'outline'} onClick={handleToggleSync}>
-          {autoSync ? 'Disable' : 'Enable'}
-        </Button>
-      </div>
-      <div className="flex items-center gap-2">
-        <Label className="font-semibold">Auto Restore</Label>
-        <Button variant={autoRestore ? 'destructive' : 'outline'} onClick={handleToggleRestore}>
-          {autoRestore ? 'Disable' : 'Enable'}
-        </Button>
-      </div>
-    </div>
-  );
-};
-
 export default AdminSettings;
\ No newline at end of file
@@ -0,0 +1,305 @@
+import React, { useEffect, useState } from 'react';
+import { Bar, BarChart, CartesianGrid, Line, LineChart, XAxis, YAxis } from 'recharts';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ChartConfig, ChartContainer, ChartLegend, ChartLegendContent, ChartTooltip, ChartTooltipContent } from '@/components/ui/chart';
+import { useParkingContext } from '@/contexts/ParkingContext';
+import { apiService } from '@/services/api';
+import { ReportActivity, ReportGroupBy, ReportSummary } from '@/types/parking';
+import { formatCurrency } from '@/utils/calculations';
+import { getVehicleLabel } from '@/utils/vehicleTypes';
+import { formatReportKey, formatShortDay, getRecentRange, listDays, ReportRange, shiftRange } from '@/utils/reports';
+import { Calendar, RefreshCw, TrendingDown, TrendingUp } from 'lucide-react';
+
+const WEEKDAYS = ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'];
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+const revenueConfig = {
+  income: { label: 'Revenue', color: 'hsl(var(--primary))' }
+} satisfies ChartConfig;
+
+const comparisonConfig = {
+  income: { label: 'This period', color: 'hsl(var(--primary))' },
+  previousIncome: { label: 'Last month', color: 'hsl(var(--muted-foreground))' }
+} satisfies ChartConfig;
+
+const dwellConfig = {
+  averageMinutes: { label: 'Average minutes', color: 'hsl(var(--primary))' }
+} satisfies ChartConfig;
+
+const occupancyConfig = {
+  peak: { label: 'Peak vehicles', color: 'hsl(var(--primary))' }
+} satisfies ChartConfig;
+
+const formatMinutes = (minutes: number): string => {
+  const hours = Math.floor(minutes / 60);
+  return hours > 0 ? `${hours}h ${minutes % 60}m` : `${minutes}m`;
+};
+
+// Percent change against last month; null when last month had nothing to compare with
+const percentChange = (current: number, previous: number): number | null => {
+  return previous > 0 ? Math.round(((current - previous) / previous) * 100) : null;
+};
+
+const Analytics: React.FC = () => {
+  const [range, setRange] = useState<ReportRange>(() => getRecentRange());
+  const [groupBy, setGroupBy] = useState<ReportGroupBy>('day');
+  const [summary, setSummary] = useState<ReportSummary | null>(null);
+  const [dailySummary, setDailySummary] = useState<ReportSummary | null>(null);
+  const [previousSummary, setPreviousSummary] = useState<ReportSummary | null>(null);
+  const [activity, setActivity] = useState<ReportActivity | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [loadError, setLoadError] = useState('');
+  const [refreshCount, setRefreshCount] = useState(0);
+
+  const { vehicleTypes } = useParkingContext();
+  const previousRange = shiftRange(range, -1);
+
+  // Everything is aggregated on the server; the range is read again when it changes or Refresh is pressed
+  useEffect(() => {
+    if (!range.from || !range.to || range.from > range.to) return;
+    let cancelled = false;
+    const previous = shiftRange({ from: range.from, to: range.to }, -1);
+    setLoading(true);
+    Promise.all([
+      apiService.getReportSummary(range.from, range.to, groupBy),
+      groupBy === 'day' ? null : apiService.getReportSummary(range.from, range.to, 'day'),
+      apiService.getReportSummary(previous.from, previous.to, 'day'),
+      apiService.getReportActivity(range.from, range.to)
+    ])
+      .then(([report, daily, previousReport, activityReport]) => {
+        if (cancelled) return;
+        setSummary(report);
+        setDailySummary(daily ?? report);
+        setPreviousSummary(previousReport);
+        setActivity(activityReport);
+        setLoadError('');
+      })
+      .catch(error => {
+        if (!cancelled) setLoadError(error instanceof Error ? error.message : 'Analytics are read from the server, which could not be reached');
+      })
+      .finally(() => { if (!cancelled) setLoading(false); });
+    return () => { cancelled = true; };
+  }, [range.from, range.to, groupBy, refreshCount]);
+
+  // The summary only returns days with activity, so both periods are laid out day by day and lined up by position
+  const dailyIncome = (report: ReportSummary | null, days: string[]) => {
+    const byDay = new Map((report?.groups || []).map(group => [group.key, group.income]));
+    return days.map(day => byDay.get(day) || 0);
+  };
+  const currentDays = listDays(range);
+  const previousDays = listDays(previousRange);
+  const currentIncome = dailyIncome(dailySummary, currentDays);
+  const previousIncome = dailyIncome(previousSummary, previousDays);
+  const comparisonData = currentDays.map((day, index) => ({
+    label: formatShortDay(day),
+    income: currentIncome[index],
+    previousIncome: previousIncome[index] ?? 0
+  }));
+
+  const revenueData = groupBy === 'day'
+    ? comparisonData.map(({ label, income }) => ({ label, income }))
+    : (summary?.groups || []).map(group => ({ label: formatReportKey(groupBy, group.key), income: group.income }));
+
+  const comparisons = [
+    { label: 'Revenue', current: summary?.totals.income || 0, previous: previousSummary?.totals.income || 0, format: formatCurrency },
+    { label: 'Vehicles In', current: summary?.totals.entries || 0, previous: previousSummary?.totals.entries || 0, format: String },
+    { label: 'Vehicles Out', current: summary?.totals.exits || 0, previous: previousSummary?.totals.exits || 0, format: String }
+  ];
+
+  const entriesAt = new Map((activity?.entriesByHour || []).map(cell => [`${cell.weekday}-${cell.hour}`, cell.entries]));
+  const busiestHour = Math.max(1, ...(activity?.entriesByHour || []).map(cell => cell.entries));
+
+  const dwellData = (activity?.dwellByType || []).map(row => ({
+    label: getVehicleLabel(vehicleTypes, row.type),
+    averageMinutes: row.averageMinutes,
+    visits: row.visits
+  }));
+
+  const occupancyData = (activity?.peakOccupancy || []).map(row => ({ label: formatShortDay(row.day), peak: row.peak }));
+
+  return (
+    <div className="space-y-4 sm:space-y-6">
+      <div className="flex flex-col gap-2 sm:flex-row sm:items-center sm:justify-between">
+        <div className="flex items-center gap-2">
+          <Calendar className="h-4 w-4" />
+          <Input
+            type="date"
+            value={range.from}
+            max={range.to}
+            onChange={(e) => setRange({ ...range, from: e.target.value })}
+            className="w-40"
+          />
+          <span className="text-sm text-muted-foreground">to</span>
+          <Input
+            type="date"
+            value={range.to}
+            min={range.from}
+            onChange={(e) => setRange({ ...range, to: e.target.value })}
+            className="w-40"
+          />
+          <Button size="sm" variant="outline" onClick={() => setRefreshCount(count => count + 1)} disabled={loading}>
+            <RefreshCw className="h-4 w-4" />
+          </Button>
+        </div>
+        {previousRange.from && previousRange.to && (
+          <p className="text-sm text-muted-foreground">
+            Compared with {formatShortDay(previousRange.from)} to {formatShortDay(previousRange.to)}
+          </p>
+        )}
+      </div>
+      {loadError && <p className="text-sm text-destructive">{loadError}</p>}
+
+      <div className="grid gap-4 md:grid-cols-3">
+        {comparisons.map(item => {
+          const change = percentChange(item.current, item.previous);
+          return (
+            <Card key={item.label}>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm font-medium text-muted-foreground">{item.label}</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <p className="text-2xl font-bold">{item.format(item.current)}</p>
+                <p className="text-xs text-muted-foreground flex items-center gap-1">
+                  {change !== null && (change >= 0
+                    ? <TrendingUp className="h-3 w-3 text-green-600" />
+                    : <TrendingDown className="h-3 w-3 text-destructive" />)}
+                  {change !== null ? `${change >= 0 ? '+' : ''}${change}%` : 'No data'} vs last month ({item.format(item.previous)})
+                </p>
+              </CardContent>
+            </Card>
+          );
+        })}
+      </div>
+
+      <Card>
+        <CardHeader className="flex flex-row items-center justify-between space-y-0">
+          <CardTitle>Revenue</CardTitle>
+          <Select value={groupBy} onValueChange={(value) => setGroupBy(value as ReportGroupBy)}>
+            <SelectTrigger className="w-32">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="day">Per Day</SelectItem>
+              <SelectItem value="week">Per Week</SelectItem>
+              <SelectItem value="month">Per Month</SelectItem>
+            </SelectContent>
+          </Select>
+        </CardHeader>
+        <CardContent>
+          <ChartContainer config={revenueConfig} className="h-64 w-full">
+            <BarChart data={revenueData}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={16} />
+              <YAxis tickLine={false} axisLine={false} width={60} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <Bar dataKey="income" fill="var(--color-income)" radius={4} />
+            </BarChart>
+          </ChartContainer>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Daily Revenue vs Last Month</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <ChartContainer config={comparisonConfig} className="h-64 w-full">
+            <LineChart data={comparisonData}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={16} />
+              <YAxis tickLine={false} axisLine={false} width={60} />
+              <ChartTooltip content={<ChartTooltipContent />} />
+              <ChartLegend content={<ChartLegendContent />} />
+              <Line dataKey="income" stroke="var(--color-income)" strokeWidth={2} dot={false} />
+              <Line dataKey="previousIncome" stroke="var(--color-previousIncome)" strokeWidth={2} strokeDasharray="4 4" dot={false} />
+            </LineChart>
+          </ChartContainer>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Entries by Hour</CardTitle>
+        </CardHeader>
+        <CardContent className="overflow-x-auto">
+          <div className="grid gap-px min-w-[640px]" style={{ gridTemplateColumns: '3rem repeat(24, minmax(0, 1fr))' }}>
+            <div />
+            {HOURS.map(hour => (
+              <div key={hour} className="text-[10px] text-center text-muted-foreground">{hour}</div>
+            ))}
+            {WEEKDAYS.map((weekday, index) => (
+              <React.Fragment key={weekday}>
+                <div className="text-xs text-muted-foreground pr-1">{weekday}</div>
+                {HOURS.map(hour => {
+                  const entries = entriesAt.get(`${index + 1}-${hour}`) || 0;
+                  return (
+                    <div key={hour} className="h-6 rounded-sm bg-muted" title={`${weekday} ${hour}:00 - ${entries} entries`}>
+                      {entries > 0 && (
+                        <div className="h-full rounded-sm bg-primary" style={{ opacity: 0.15 + 0.85 * (entries / busiestHour) }} />
+                      )}
+                    </div>
+                  );
+                })}
+              </React.Fragment>
+            ))}
+          </div>
+        </CardContent>
+      </Card>
+
+      <div className="grid gap-4 lg:grid-cols-2">
+        <Card>
+          <CardHeader>
+            <CardTitle>Average Stay by Vehicle Type</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {dwellData.length === 0 ? (
+              <p className="text-sm text-muted-foreground">No vehicles left in this range</p>
+            ) : (
+              <>
+                <ChartContainer config={dwellConfig} className="h-56 w-full">
+                  <BarChart data={dwellData}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="label" tickLine={false} axisLine={false} />
+                    <YAxis tickLine={false} axisLine={false} width={40} />
+                    <ChartTooltip content={<ChartTooltipContent />} />
+                    <Bar dataKey="averageMinutes" fill="var(--color-averageMinutes)" radius={4} />
+                  </BarChart>
+                </ChartContainer>
+                <div className="mt-2 space-y-1 text-sm">
+                  {dwellData.map(row => (
+                    <div key={row.label} className="flex justify-between">
+                      <span>{row.label} ({row.visits} visits)</span>
+                      <span className="font-medium">{formatMinutes(row.averageMinutes)}</span>
+                    </div>
+                  ))}
+                </div>
+              </>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Peak Occupancy per Day</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <ChartContainer config={occupancyConfig} className="h-56 w-full">
+              <BarChart data={occupancyData}>
+                <CartesianGrid vertical={false} />
+                <XAxis dataKey="label" tickLine={false} axisLine={false} minTickGap={16} />
+                <YAxis tickLine={false} axisLine={false} width={40} allowDecimals={false} />
+                <ChartTooltip content={<ChartTooltipContent />} />
+                <Bar dataKey="peak" fill="var(--color-peak)" radius={4} />
+              </BarChart>
+            </ChartContainer>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+};
+
+export default Analytics;
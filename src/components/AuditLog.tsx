@@ -0,0 +1,205 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { apiService } from '@/services/api';
+import { AuditEntry, AuditFilters, User } from '@/types/parking';
+import { formatTime } from '@/utils/calculations';
+import { ShieldCheck } from 'lucide-react';
+
+// Select items cannot have an empty value, so "all" stands in for no filter
+const ALL = 'all';
+
+const ACTION_LABELS: Record<string, string> = {
+  'auth.login': 'Login',
+  'vehicle.entry': 'Vehicle Entry',
+  'vehicle.exit': 'Vehicle Exit',
+  'vehicle.lost_ticket': 'Lost Ticket Exit',
+  'vehicle.discount': 'Discount Given',
+  'vehicle.capacity_override': 'Capacity Override',
+  'ticket.rejected': 'Ticket Rejected',
+  'shift.open': 'Shift Opened',
+  'shift.close': 'Shift Closed',
+  'invoice.generate': 'Invoices Generated',
+  'invoice.payment': 'Invoice Payment',
+  'client.create': 'Client Added',
+  'client.update': 'Client Edited',
+  'client.delete': 'Client Removed',
+  'client.renew': 'Client Renewed',
+  'client.import': 'Clients Imported',
+  'vehicle_type.create': 'Vehicle Type Added',
+  'vehicle_type.update': 'Vehicle Type Edited',
+  'vehicle_type.delete': 'Vehicle Type Removed',
+  'settings.update': 'Settings Changed',
+  'daily_stats.update': 'Daily Stats Updated',
+  'backup.restore': 'Backup Restored',
+  'backup.merge': 'Backup Merged',
+  'backup.snapshot': 'Backup Taken',
+  'user.create': 'User Added',
+  'user.update': 'User Edited',
+  'user.delete': 'User Removed',
+  'user.credentials': 'Own Credentials Changed'
+};
+
+const AuditLog: React.FC = () => {
+  const { toast } = useToast();
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [users, setUsers] = useState<User[]>([]);
+  const [actor, setActor] = useState(ALL);
+  const [action, setAction] = useState(ALL);
+  const [fromDate, setFromDate] = useState('');
+  const [toDate, setToDate] = useState('');
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const loadEntries = useCallback(async () => {
+    // Date inputs are local calendar days; widen them to cover the whole day
+    const filters: AuditFilters = {
+      actor: actor === ALL ? undefined : actor,
+      action: action === ALL ? undefined : action,
+      from: fromDate ? new Date(`${fromDate}T00:00:00`).toISOString() : undefined,
+      to: toDate ? new Date(`${toDate}T23:59:59.999`).toISOString() : undefined
+    };
+    try {
+      setEntries(await apiService.getAuditLog(filters));
+    } catch (error) {
+      toast({ title: 'Error', description: 'Failed to load audit log', variant: 'destructive' });
+    }
+  }, [actor, action, fromDate, toDate, toast]);
+
+  useEffect(() => {
+    loadEntries();
+  }, [loadEntries]);
+
+  useEffect(() => {
+    apiService.getUsers().then(setUsers).catch(() => setUsers([]));
+  }, []);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <ShieldCheck className="h-5 w-5 mr-2" />
+          Audit Log
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-4 md:grid-cols-5 items-end">
+          <div>
+            <Label>Operator</Label>
+            <Select value={actor} onValueChange={setActor}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All operators</SelectItem>
+                {users.map(user => (
+                  <SelectItem key={user.id} value={user.id}>{user.displayName || user.username}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label>Action</Label>
+            <Select value={action} onValueChange={setAction}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL}>All actions</SelectItem>
+                {Object.entries(ACTION_LABELS).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label>From</Label>
+            <Input type="date" value={fromDate} onChange={(e) => setFromDate(e.target.value)} />
+          </div>
+          <div>
+            <Label>To</Label>
+            <Input type="date" value={toDate} onChange={(e) => setToDate(e.target.value)} />
+          </div>
+          <Button
+            variant="outline"
+            onClick={() => {
+              setActor(ALL);
+              setAction(ALL);
+              setFromDate('');
+              setToDate('');
+            }}
+          >
+            Clear Filters
+          </Button>
+        </div>
+
+        {entries.length === 0 ? (
+          <p className="text-center text-muted-foreground py-8">No audit records found</p>
+        ) : (
+          <div className="overflow-x-auto">
+            <table className="w-full border-collapse">
+              <thead>
+                <tr className="border-b">
+                  <th className="text-left p-3 font-semibold">Time</th>
+                  <th className="text-left p-3 font-semibold">Operator</th>
+                  <th className="text-left p-3 font-semibold">Action</th>
+                  <th className="text-left p-3 font-semibold">Record</th>
+                  <th className="text-left p-3 font-semibold">Details</th>
+                </tr>
+              </thead>
+              <tbody>
+                {entries.map(entry => (
+                  <React.Fragment key={entry.id}>
+                    <tr className="border-b hover:bg-muted/50">
+                      <td className="p-3 text-sm">{formatTime(new Date(entry.createdAt))}</td>
+                      <td className="p-3 text-sm font-semibold">{entry.actorUsername || '-'}</td>
+                      <td className="p-3">
+                        <Badge variant={entry.action.endsWith('.delete') ? 'destructive' : 'outline'}>
+                          {ACTION_LABELS[entry.action] || entry.action}
+                        </Badge>
+                      </td>
+                      <td className="p-3 text-sm text-muted-foreground">{entry.entityType} {entry.entityId || ''}</td>
+                      <td className="p-3">
+                        {(entry.before || entry.after) && (
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => setExpandedId(expandedId === entry.id ? null : entry.id)}
+                          >
+                            {expandedId === entry.id ? 'Hide' : 'Show'}
+                          </Button>
+                        )}
+                      </td>
+                    </tr>
+                    {expandedId === entry.id && (
+                      <tr className="border-b bg-muted/30">
+                        <td colSpan={5} className="p-3">
+                          <div className="grid gap-4 md:grid-cols-2 text-xs font-mono">
+                            <div>
+                              <p className="font-semibold mb-1">Before</p>
+                              <pre className="whitespace-pre-wrap break-all">{entry.before ? JSON.stringify(entry.before, null, 2) : '-'}</pre>
+                            </div>
+                            <div>
+                              <p className="font-semibold mb-1">After</p>
+                              <pre className="whitespace-pre-wrap break-all">{entry.after ? JSON.stringify(entry.after, null, 2) : '-'}</pre>
+                            </div>
+                          </div>
+                        </td>
+                      </tr>
+                    )}
+                  </React.Fragment>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AuditLog;
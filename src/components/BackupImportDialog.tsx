@@ -0,0 +1,186 @@
+import React, { useEffect, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useToast } from '@/hooks/use-toast';
+import { ApiError, apiService } from '@/services/api';
+import { ImportMode, ImportPreview } from '@/types/parking';
+
+const SECTION_LABELS: Record<string, string> = {
+  vehicleTypes: 'Vehicle Types',
+  shifts: 'Shifts',
+  invoices: 'Invoices',
+  vehicles: 'Vehicles',
+  permanentClients: 'Permanent Clients',
+  dailyStats: 'Daily Stats'
+};
+
+const MODES: { id: ImportMode; label: string; description: string }[] = [
+  {
+    id: 'merge',
+    label: 'Merge',
+    description: 'Adds new records and updates changed ones. Conflicts keep the server copy, and records missing from the file stay.'
+  },
+  {
+    id: 'replace',
+    label: 'Replace',
+    description: 'Every section in the file replaces that table on the server, conflicts included. Records missing from the file are removed.'
+  }
+];
+
+interface BackupImportDialogProps {
+  backup: { name: string; data: Record<string, unknown> } | null; // Parsed file chosen for import
+  onClose: () => void;
+}
+
+// Shows what importing a backup file would change before the owner applies it. The server validates
+// the file; once the import commits, every terminal reloads from the change feed, this one included.
+const BackupImportDialog: React.FC<BackupImportDialogProps> = ({ backup, onClose }) => {
+  const [mode, setMode] = useState<ImportMode>('merge');
+  const [preview, setPreview] = useState<ImportPreview | null>(null);
+  const [errors, setErrors] = useState<string[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [importing, setImporting] = useState(false);
+  const { toast } = useToast();
+
+  // Which vehicle types a file may use depends on the mode, so the preview is taken again when it changes
+  useEffect(() => {
+    if (!backup) return;
+    let cancelled = false;
+    setLoading(true);
+    setPreview(null);
+    setErrors([]);
+    apiService.previewBackup(backup.data, mode)
+      .then(result => { if (!cancelled) setPreview(result); })
+      .catch(error => {
+        if (cancelled) return;
+        if (error instanceof ApiError && Array.isArray(error.body?.details)) setErrors(error.body.details);
+        else setErrors([error instanceof Error ? error.message : 'Backups can only be imported while the server is reachable']);
+      })
+      .finally(() => { if (!cancelled) setLoading(false); });
+    return () => { cancelled = true; };
+  }, [backup, mode]);
+
+  const handleClose = () => {
+    setMode('merge');
+    onClose();
+  };
+
+  const handleImport = async () => {
+    if (!backup) return;
+    if (mode === 'replace' && !window.confirm('Replace overwrites the sections in this file on the server for every counter. Continue?')) return;
+    setImporting(true);
+    try {
+      const result = await apiService.uploadBackup(backup.data, mode);
+      const written = result.sections.reduce((sum, section) => sum + section.added + section.changed + (mode === 'replace' ? section.conflicts.length : 0), 0);
+      toast({
+        title: mode === 'replace' ? "Backup Restored" : "Backup Merged",
+        description: `${written} records written from ${backup.name}`,
+      });
+      handleClose();
+    } catch (error) {
+      toast({
+        title: "Import Failed",
+        description: error instanceof Error ? error.message : "The import was not applied",
+        variant: "destructive"
+      });
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  const conflicts = preview?.sections.flatMap(section =>
+    section.conflicts.map(conflict => ({ ...conflict, section: SECTION_LABELS[section.name] || section.name }))) || [];
+
+  return (
+    <Dialog open={!!backup} onOpenChange={(open) => { if (!open) handleClose(); }}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Backup: {backup?.name}</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div className="grid grid-cols-2 gap-2">
+            {MODES.map(candidate => (
+              <Button
+                key={candidate.id}
+                variant={mode === candidate.id ? 'default' : 'outline'}
+                onClick={() => setMode(candidate.id)}
+              >
+                {candidate.label}
+              </Button>
+            ))}
+          </div>
+          <p className="text-sm text-muted-foreground">{MODES.find(candidate => candidate.id === mode)?.description}</p>
+
+          {loading && <p className="text-center text-muted-foreground py-4">Checking the file against the server...</p>}
+
+          {errors.length > 0 && (
+            <div className="space-y-1 border border-destructive rounded-md p-3 text-sm">
+              <p className="font-semibold text-destructive">The file cannot be imported</p>
+              {errors.slice(0, 10).map(error => <p key={error}>{error}</p>)}
+              {errors.length > 10 && <p className="text-muted-foreground">and {errors.length - 10} more</p>}
+            </div>
+          )}
+
+          {preview && (
+            <>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Section</TableHead>
+                    <TableHead>New</TableHead>
+                    <TableHead>Changed</TableHead>
+                    <TableHead>Conflicting</TableHead>
+                    <TableHead>Unchanged</TableHead>
+                    <TableHead>Not in File</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {preview.sections.map(section => (
+                    <TableRow key={section.name}>
+                      <TableCell className="font-medium">{SECTION_LABELS[section.name] || section.name}</TableCell>
+                      <TableCell>{section.added}</TableCell>
+                      <TableCell>{section.changed}</TableCell>
+                      <TableCell>
+                        {section.conflicts.length > 0 ? <Badge variant="destructive">{section.conflicts.length}</Badge> : 0}
+                      </TableCell>
+                      <TableCell>{section.unchanged}</TableCell>
+                      <TableCell>{mode === 'replace' && section.removed > 0 ? `${section.removed} removed` : section.removed}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              {preview.settingsChanged && (
+                <p className="text-sm">
+                  Settings differ from the server's and {mode === 'replace' ? 'will be replaced' : 'are kept as they are on a merge'}
+                </p>
+              )}
+              {conflicts.length > 0 && (
+                <div className="space-y-1 text-sm">
+                  <p className="font-semibold">
+                    Changed on the server since this backup was made ({mode === 'replace' ? 'the file copy will overwrite them' : 'kept as they are'})
+                  </p>
+                  {conflicts.slice(0, 20).map(conflict => (
+                    <p key={`${conflict.section}-${conflict.key}`} className="text-muted-foreground">
+                      {conflict.section}: {conflict.label}
+                    </p>
+                  ))}
+                  {conflicts.length > 20 && <p className="text-muted-foreground">and {conflicts.length - 20} more</p>}
+                </div>
+              )}
+            </>
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={handleClose}>Cancel</Button>
+          <Button onClick={handleImport} disabled={!preview || importing} variant={mode === 'replace' ? 'destructive' : 'default'}>
+            {mode === 'replace' ? 'Replace Data' : 'Merge Data'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default BackupImportDialog;
@@ -0,0 +1,94 @@
+import React, { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { useParkingContext } from '@/contexts/ParkingContext';
+import { useToast } from '@/hooks/use-toast';
+import { apiService } from '@/services/api';
+import { CapacityOverride, VehicleCategory } from '@/types/parking';
+import { hasRole } from '@/utils/permissions';
+import { Occupancy } from '@/utils/vehicleTypes';
+import { AlertTriangle } from 'lucide-react';
+
+interface CapacityOverrideDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  vehicleNumber: string;
+  vehicleType: VehicleCategory;
+  occupancy: Occupancy;
+  onApproved: (override: CapacityOverride) => void;
+}
+
+// Shown when an entry would go past a category's capacity. Supervisors can let it through themselves;
+// an attendant needs a supervisor to approve it with their own username and password.
+const CapacityOverrideDialog: React.FC<CapacityOverrideDialogProps> = ({ open, onOpenChange, vehicleNumber, vehicleType, occupancy, onApproved }) => {
+  const { currentUser } = useParkingContext();
+  const { toast } = useToast();
+  const [username, setUsername] = useState('');
+  const [password, setPassword] = useState('');
+  const canOverride = hasRole(currentUser?.role, 'supervisor');
+
+  useEffect(() => {
+    if (!open) {
+      setUsername('');
+      setPassword('');
+    }
+  }, [open]);
+
+  const handleApprove = async () => {
+    if (canOverride) {
+      onApproved({});
+      return;
+    }
+    if (!username.trim() || !password) {
+      toast({ title: 'Error', description: 'A supervisor must enter their username and password', variant: 'destructive' });
+      return;
+    }
+    try {
+      const { approval } = await apiService.approveCapacityOverride(username, password, vehicleNumber, vehicleType.id);
+      onApproved({ approval });
+    } catch (error) {
+      toast({ title: 'Approval failed', description: 'Check the supervisor credentials and try again', variant: 'destructive' });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <AlertTriangle className="h-5 w-5 mr-2 text-destructive" />
+            {vehicleType.label} Section Full
+          </DialogTitle>
+          <DialogDescription>
+            {occupancy.occupied} of {occupancy.capacity} {vehicleType.label.toLowerCase()} spaces are taken.
+            {canOverride
+              ? ' You can still let this vehicle in; the override will be recorded in the audit log.'
+              : ' A supervisor must approve this entry. The override will be recorded in the audit log.'}
+          </DialogDescription>
+        </DialogHeader>
+        {!canOverride && (
+          <div className="space-y-3">
+            <div>
+              <Label>Supervisor Username</Label>
+              <Input value={username} onChange={(e) => setUsername(e.target.value)} />
+            </div>
+            <div>
+              <Label>Supervisor Password</Label>
+              <Input type="password" value={password} onChange={(e) => setPassword(e.target.value)} />
+            </div>
+          </div>
+        )}
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button variant="destructive" onClick={handleApprove}>
+            {canOverride ? 'Override and Enter' : 'Approve and Enter'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CapacityOverrideDialog;
@@ -0,0 +1,209 @@
+import React, { useMemo, useState } from 'react';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useParkingContext } from '@/contexts/ParkingContext';
+import { useToast } from '@/hooks/use-toast';
+import { ApiError } from '@/services/api';
+import { formatCurrency } from '@/utils/calculations';
+import { CLIENT_IMPORT_FIELDS, ClientColumnMapping, ClientImportField, guessColumnMapping, validateClientRows } from '@/utils/clientImport';
+import { readSpreadsheet, SPREADSHEET_EXTENSIONS } from '@/utils/spreadsheet';
+import { getVehicleLabel } from '@/utils/vehicleTypes';
+
+interface ClientImportDialogProps {
+  open: boolean;
+  onClose: () => void;
+}
+
+// Registers permanent clients from a CSV or Excel sheet. The first row names the columns; each field
+// is matched to one, and every data row is checked here first so bad rows can be fixed before import.
+const ClientImportDialog: React.FC<ClientImportDialogProps> = ({ open, onClose }) => {
+  const { vehicleTypes, permanentClients, importPermanentClients } = useParkingContext();
+  const [fileName, setFileName] = useState('');
+  const [headers, setHeaders] = useState<string[]>([]);
+  const [rows, setRows] = useState<string[][]>([]);
+  const [mapping, setMapping] = useState<ClientColumnMapping | null>(null);
+  const [readError, setReadError] = useState('');
+  const [serverErrors, setServerErrors] = useState<{ row: number; errors: string[] }[]>([]);
+  const [importing, setImporting] = useState(false);
+  const { toast } = useToast();
+
+  const checkedRows = useMemo(
+    () => (mapping ? validateClientRows(rows, mapping, vehicleTypes, permanentClients) : []),
+    [rows, mapping, vehicleTypes, permanentClients]
+  );
+  const validRows = checkedRows.filter(row => row.client);
+
+  const reset = () => {
+    setFileName('');
+    setHeaders([]);
+    setRows([]);
+    setMapping(null);
+    setReadError('');
+    setServerErrors([]);
+  };
+
+  const handleClose = () => {
+    reset();
+    onClose();
+  };
+
+  const handleFile = async (file: File | undefined) => {
+    reset();
+    if (!file) return;
+    setFileName(file.name);
+    try {
+      const [headerRow, ...dataRows] = await readSpreadsheet(file);
+      if (!headerRow || dataRows.length === 0) {
+        setReadError('The sheet needs a header row and at least one client');
+        return;
+      }
+      setHeaders(headerRow);
+      setRows(dataRows);
+      setMapping(guessColumnMapping(headerRow));
+    } catch (error) {
+      setReadError(error instanceof Error ? error.message : 'The file could not be read');
+    }
+  };
+
+  const handleMappingChange = (field: ClientImportField, value: string) => {
+    if (!mapping) return;
+    setMapping({ ...mapping, [field]: parseInt(value) });
+    setServerErrors([]);
+  };
+
+  const handleImport = async () => {
+    setImporting(true);
+    setServerErrors([]);
+    try {
+      const imported = await importPermanentClients(validRows.map(row => row.client!));
+      const skipped = checkedRows.length - validRows.length;
+      toast({
+        title: "Clients Imported",
+        description: `${imported.length} clients registered from ${fileName}${skipped > 0 ? `, ${skipped} rows skipped` : ''}`,
+      });
+      handleClose();
+    } catch (error) {
+      // The server numbers the rows it was sent; point them back at the lines of the sheet
+      if (error instanceof ApiError && Array.isArray(error.body?.rows)) {
+        setServerErrors(error.body.rows.map((failed: { row: number; errors: string[] }) => ({
+          row: validRows[failed.row - 1]?.line ?? failed.row,
+          errors: failed.errors
+        })));
+      }
+      toast({
+        title: "Import Failed",
+        description: error instanceof Error ? error.message : "No clients were imported",
+        variant: "destructive"
+      });
+    } finally {
+      setImporting(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={(isOpen) => { if (!isOpen) handleClose(); }}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Permanent Clients</DialogTitle>
+        </DialogHeader>
+        <div className="space-y-4">
+          <div>
+            <Label>Spreadsheet ({SPREADSHEET_EXTENSIONS.join(', ')})</Label>
+            <Input
+              type="file"
+              accept={SPREADSHEET_EXTENSIONS.join(',')}
+              onChange={(e) => {
+                handleFile(e.target.files?.[0]);
+                e.target.value = '';
+              }}
+            />
+            <p className="text-xs text-muted-foreground mt-1">
+              The first row must name the columns. Clients are registered on a negotiated monthly fee and billed for this month.
+            </p>
+          </div>
+
+          {readError && <p className="text-sm text-destructive">{readError}</p>}
+
+          {mapping && (
+            <>
+              <div className="grid gap-4 md:grid-cols-3">
+                {CLIENT_IMPORT_FIELDS.map(field => (
+                  <div key={field.id}>
+                    <Label>{field.label}</Label>
+                    <Select value={String(mapping[field.id])} onValueChange={(value) => handleMappingChange(field.id, value)}>
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="-1">Not in sheet</SelectItem>
+                        {headers.map((header, index) => (
+                          <SelectItem key={index} value={String(index)}>{header || `Column ${index + 1}`}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+
+              <p className="text-sm">
+                {validRows.length} of {checkedRows.length} rows are ready to import
+                {validRows.length < checkedRows.length && '; rows with errors are skipped'}
+              </p>
+
+              {serverErrors.length > 0 && (
+                <div className="space-y-1 border border-destructive rounded-md p-3 text-sm">
+                  <p className="font-semibold text-destructive">The server rejected the import; nothing was saved</p>
+                  {serverErrors.map(failed => <p key={failed.row}>Row {failed.row}: {failed.errors.join('; ')}</p>)}
+                </div>
+              )}
+
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Row</TableHead>
+                    <TableHead>Plate</TableHead>
+                    <TableHead>Name</TableHead>
+                    <TableHead>Type</TableHead>
+                    <TableHead>Fee</TableHead>
+                    <TableHead>Status</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {checkedRows.map(row => (
+                    <TableRow key={row.line}>
+                      <TableCell>{row.line}</TableCell>
+                      {row.client ? (
+                        <>
+                          <TableCell className="font-medium">{row.client.number}</TableCell>
+                          <TableCell>{row.client.clientName}</TableCell>
+                          <TableCell>{getVehicleLabel(vehicleTypes, row.client.type)}</TableCell>
+                          <TableCell>{formatCurrency(row.client.monthlyFee || 0)}</TableCell>
+                          <TableCell><Badge variant="secondary">Ready</Badge></TableCell>
+                        </>
+                      ) : (
+                        <TableCell colSpan={5} className="text-sm text-destructive">{row.errors.join('; ')}</TableCell>
+                      )}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </>
+          )}
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={handleClose}>Cancel</Button>
+          <Button onClick={handleImport} disabled={validRows.length === 0 || importing}>
+            Import {validRows.length} Clients
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ClientImportDialog;
@@ -0,0 +1,203 @@
+import React, { useState } from 'react';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { useParkingContext } from '@/contexts/ParkingContext';
+import { useToast } from '@/hooks/use-toast';
+import { Invoice, PaymentMethod, Vehicle } from '@/types/parking';
+import { formatCurrency, formatTime } from '@/utils/calculations';
+import { getPaymentMethodLabel, PAYMENT_METHODS } from '@/utils/payments';
+import {
+  BILLING_STATUS_LABELS,
+  BILLING_STATUS_VARIANTS,
+  formatPeriod,
+  getAmountPaid,
+  getClientBalance,
+  getClientBillingStatus,
+  getClientInvoices,
+  getInvoiceBalance,
+  getInvoiceStatus
+} from '@/utils/billing';
+
+interface ClientLedgerProps {
+  client: Vehicle | null;
+  onClose: () => void;
+}
+
+// Every invoice billed to a permanent client with the payments taken against it
+const ClientLedger: React.FC<ClientLedgerProps> = ({ client, onClose }) => {
+  const [payingInvoice, setPayingInvoice] = useState<Invoice | null>(null);
+  const [amount, setAmount] = useState('');
+  const [method, setMethod] = useState<PaymentMethod>('cash');
+  const [note, setNote] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const { invoices, recordInvoicePayment } = useParkingContext();
+  const { toast } = useToast();
+
+  const clientInvoices = client ? getClientInvoices(invoices, client.id) : [];
+  const status = client ? getClientBillingStatus(invoices, client.id) : 'paid';
+
+  const startPayment = (invoice: Invoice) => {
+    setPayingInvoice(invoice);
+    setAmount(String(getInvoiceBalance(invoice)));
+    setMethod('cash');
+    setNote('');
+  };
+
+  const handleRecordPayment = async () => {
+    if (!payingInvoice) return;
+    const value = parseFloat(amount);
+    const balance = getInvoiceBalance(payingInvoice);
+    if (!value || value <= 0 || value > balance) {
+      toast({
+        title: "Invalid amount",
+        description: `Enter an amount between 1 and ${formatCurrency(balance)}`,
+        variant: "destructive"
+      });
+      return;
+    }
+    setSaving(true);
+    try {
+      await recordInvoicePayment(payingInvoice.id, { amount: value, method, note: note.trim() || undefined });
+      toast({
+        title: "Payment recorded",
+        description: `${formatCurrency(value)} against ${formatPeriod(payingInvoice.period)}`,
+      });
+      setPayingInvoice(null);
+    } catch (error) {
+      toast({
+        title: "Payment failed",
+        description: error instanceof Error ? error.message : "Payments can only be recorded while the server is reachable",
+        variant: "destructive"
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!client} onOpenChange={(open) => { if (!open) { setPayingInvoice(null); onClose(); } }}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            Ledger: {client?.number}
+            <Badge variant={BILLING_STATUS_VARIANTS[status]}>{BILLING_STATUS_LABELS[status].toUpperCase()}</Badge>
+          </DialogTitle>
+        </DialogHeader>
+        {client && (
+          <div className="space-y-4">
+            <div className="flex flex-wrap gap-6 text-sm">
+              <span>{client.clientName}</span>
+              {client.endDate ? (
+                <span>Plan Valid: {client.startDate} to {client.endDate}</span>
+              ) : (
+                <span>Monthly Fee: {formatCurrency(client.monthlyFee || 0)}</span>
+              )}
+              <span className="font-semibold">Outstanding: {formatCurrency(getClientBalance(invoices, client.id))}</span>
+            </div>
+            {clientInvoices.length === 0 ? (
+              <p className="text-center text-muted-foreground py-8">No invoices yet</p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Period</TableHead>
+                    <TableHead>Due</TableHead>
+                    <TableHead>Amount</TableHead>
+                    <TableHead>Paid</TableHead>
+                    <TableHead>Balance</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {clientInvoices.map(invoice => {
+                    const invoiceStatus = getInvoiceStatus(invoice);
+                    return (
+                      <React.Fragment key={invoice.id}>
+                        <TableRow>
+                          <TableCell className="font-medium">
+                            {formatPeriod(invoice.period)}
+                            {invoice.coversTo && (
+                              <span className="block text-xs font-normal text-muted-foreground">Plan term to {invoice.coversTo}</span>
+                            )}
+                          </TableCell>
+                          <TableCell>{invoice.dueDate}</TableCell>
+                          <TableCell>{formatCurrency(invoice.amount)}</TableCell>
+                          <TableCell>{formatCurrency(getAmountPaid(invoice))}</TableCell>
+                          <TableCell>{formatCurrency(getInvoiceBalance(invoice))}</TableCell>
+                          <TableCell>
+                            <Badge variant={BILLING_STATUS_VARIANTS[invoiceStatus]}>{BILLING_STATUS_LABELS[invoiceStatus]}</Badge>
+                          </TableCell>
+                          <TableCell>
+                            {invoiceStatus !== 'paid' && (
+                              <Button size="sm" onClick={() => startPayment(invoice)}>Record Payment</Button>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                        {invoice.payments.map(payment => (
+                          <TableRow key={payment.id} className="text-xs text-muted-foreground">
+                            <TableCell />
+                            <TableCell colSpan={2}>{formatTime(new Date(payment.paidAt))}</TableCell>
+                            <TableCell>{formatCurrency(payment.amount)}</TableCell>
+                            <TableCell colSpan={3}>
+                              {getPaymentMethodLabel(payment.method)}
+                              {payment.receivedBy && ` by ${payment.receivedBy}`}
+                              {payment.note && ` (${payment.note})`}
+                            </TableCell>
+                          </TableRow>
+                        ))}
+                      </React.Fragment>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            )}
+            {payingInvoice && (
+              <div className="space-y-3 border rounded-md p-3">
+                <p className="font-semibold">
+                  Payment for {formatPeriod(payingInvoice.period)} (balance {formatCurrency(getInvoiceBalance(payingInvoice))})
+                </p>
+                <div>
+                  <Label>Payment Method</Label>
+                  <div className="grid grid-cols-4 gap-2 mt-1">
+                    {PAYMENT_METHODS.map(candidate => (
+                      <Button
+                        key={candidate.id}
+                        size="sm"
+                        variant={method === candidate.id ? 'default' : 'outline'}
+                        onClick={() => setMethod(candidate.id)}
+                      >
+                        {candidate.label}
+                      </Button>
+                    ))}
+                  </div>
+                </div>
+                <div className="grid gap-3 md:grid-cols-2">
+                  <div>
+                    <Label>Amount (PKR)</Label>
+                    <Input type="number" min={0} value={amount} onChange={(e) => setAmount(e.target.value)} />
+                  </div>
+                  <div>
+                    <Label>Note</Label>
+                    <Input placeholder="Optional" value={note} onChange={(e) => setNote(e.target.value)} />
+                  </div>
+                </div>
+                <div className="flex gap-2 justify-end">
+                  <Button variant="outline" onClick={() => setPayingInvoice(null)}>Cancel</Button>
+                  <Button onClick={handleRecordPayment} disabled={saving}>Save Payment</Button>
+                </div>
+              </div>
+            )}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ClientLedger;
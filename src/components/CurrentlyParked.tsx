@@ -5,46 +5,50 @@ import { Badge } from '@/components/ui/badge';
 import { Button } from '@/components/ui/button';
 import { useParkingContext } from '@/contexts/ParkingContext';
 import { calculateParkingFee, formatCurrency, formatTime } from '@/utils/calculations';
+import { getVehicleCategory } from '@/utils/vehicleTypes';
 import { Search, Clock, DollarSign, LogOut } from 'lucide-react';
 import { Tabs, TabsList, TabsTrigger, TabsContent } from '@/components/ui/tabs';
 import { useToast } from '@/hooks/use-toast';
 
 const CurrentlyParked: React.FC = () => {
   const [searchTerm, setSearchTerm] = useState('');
-  const [activeType, setActiveType] = useState<'car' | 'bike' | 'rickshaw'>('car');
-  const { getCurrentlyParked, settings, exitVehicle } = useParkingContext();
+  const [selectedType, setSelectedType] = useState('');
+  const { getCurrentlyParked, settings, vehicleTypes, exitVehicle, currentShift } = useParkingContext();
   const { toast } = useToast();
 
   const currentlyParked = getCurrentlyParked();
+  // Fall back to the first category until one is picked, or if the picked one has been removed
+  const activeType = vehicleTypes.some(vehicleType => vehicleType.id === selectedType) ? selectedType : vehicleTypes[0]?.id || '';
+  const activeCategory = getVehicleCategory(vehicleTypes, activeType);
 
   // Categorize vehicles
-  const vehiclesByType = {
-    car: currentlyParked.filter(v => v.type === 'car'),
-    bike: currentlyParked.filter(v => v.type === 'bike'),
-    rickshaw: currentlyParked.filter(v => v.type === 'rickshaw')
-  };
+  const vehiclesByType = Object.fromEntries(
+    vehicleTypes.map(vehicleType => [vehicleType.id, currentlyParked.filter(v => v.type === vehicleType.id)])
+  );
+  const activeVehicles = vehiclesByType[activeType] || [];
 
-  // Filter by search
-  const filteredVehicles = vehiclesByType[activeType].filter(vehicle =>
-    vehicle.number.toLowerCase().includes(searchTerm.toLowerCase())
+  // Filter by search on the plate or the ticket number
+  const filteredVehicles = activeVehicles.filter(vehicle =>
+    vehicle.number.toLowerCase().includes(searchTerm.toLowerCase()) ||
+    !!vehicle.ticketNumber?.toLowerCase().includes(searchTerm.toLowerCase())
   );
 
   const handleDirectExit = (vehicle: any) => {
     const exitTime = new Date();
-    const fee = calculateParkingFee(new Date(vehicle.entryTime), exitTime, vehicle.type, settings.pricing);
+    const fee = calculateParkingFee(new Date(vehicle.entryTime), exitTime, getVehicleCategory(vehicleTypes, vehicle.type).pricing, settings.nightBand);
     
     if (window.confirm(`Exit ${vehicle.number}?\nFee: ${formatCurrency(fee)}`)) {
-      exitVehicle(vehicle.id);
+      exitVehicle(vehicle.id, exitTime);
       toast({
         title: "Vehicle exited",
-        description: `${vehicle.type.toUpperCase()} ${vehicle.number} has been checked out. Fee: ${formatCurrency(fee)}`,
+        description: `${getVehicleCategory(vehicleTypes, vehicle.type).label.toUpperCase()} ${vehicle.number} has been checked out. Fee: ${formatCurrency(fee)}${currentShift ? '' : '. No shift is open, so it is not counted in a cash-up'}`,
       });
     }
   };
 
   const getCurrentFee = (vehicle: any) => {
     const now = new Date();
-    return calculateParkingFee(vehicle.entryTime, now, vehicle.type, settings.pricing);
+    return calculateParkingFee(vehicle.entryTime, now, getVehicleCategory(vehicleTypes, vehicle.type).pricing, settings.nightBand);
   };
 
   const getTimeParked = (entryTime: Date) => {
@@ -67,7 +71,7 @@ const CurrentlyParked: React.FC = () => {
             <div className="flex items-center gap-2">
               <Search className="h-4 w-4" />
               <Input
-                placeholder="Search by vehicle number"
+                placeholder="Search by vehicle or ticket number"
                 value={searchTerm}
                 onChange={(e) => setSearchTerm(e.target.value)}
                 className="w-64"
@@ -76,18 +80,20 @@ const CurrentlyParked: React.FC = () => {
           </CardTitle>
         </CardHeader>
         <CardContent>
-          <Tabs value={activeType} onValueChange={val => setActiveType(val as 'car' | 'bike' | 'rickshaw')}>
-            <TabsList className="mb-4">
-              <TabsTrigger value="car">Cars ({vehiclesByType.car.length})</TabsTrigger>
-              <TabsTrigger value="bike">Bikes ({vehiclesByType.bike.length})</TabsTrigger>
-              <TabsTrigger value="rickshaw">Rickshaws ({vehiclesByType.rickshaw.length})</TabsTrigger>
+          <Tabs value={activeType} onValueChange={setSelectedType}>
+            <TabsList className="mb-4 flex-wrap h-auto">
+              {vehicleTypes.map(vehicleType => (
+                <TabsTrigger key={vehicleType.id} value={vehicleType.id}>
+                  {vehicleType.label} ({vehiclesByType[vehicleType.id].length})
+                </TabsTrigger>
+              ))}
             </TabsList>
             <TabsContent value={activeType}>
               {filteredVehicles.length === 0 ? (
                 <div className="text-center py-8">
                   <p className="text-muted-foreground">
-                    {vehiclesByType[activeType].length === 0
-                      ? `No ${activeType === 'car' ? 'cars' : activeType === 'bike' ? 'bikes' : 'rickshaws'} currently parked`
+                    {activeVehicles.length === 0
+                      ? `No ${activeCategory.label.toLowerCase()} vehicles currently parked`
                       : 'No vehicles match your search'}
                   </p>
                 </div>
@@ -107,12 +113,13 @@ const CurrentlyParked: React.FC = () => {
                     <tbody>
                       {filteredVehicles.map((vehicle) => (
                         <tr key={vehicle.id} className="border-b hover:bg-muted/50">
-                          <td className="p-3 font-semibold">{vehicle.number}</td>
                           <td className="p-3">
-                            <Badge
-                              variant={vehicle.type === 'car' ? 'default' : vehicle.type === 'bike' ? 'secondary' : 'outline'}
-                            >
-                              {vehicle.type.toUpperCase()}
+                            <div className="font-semibold">{vehicle.number}</div>
+                            {vehicle.ticketNumber && <div className="text-xs text-muted-foreground font-mono">{vehicle.ticketNumber}</div>}
+                          </td>
+                          <td className="p-3">
+                            <Badge variant="secondary">
+                              {getVehicleCategory(vehicleTypes, vehicle.type).label.toUpperCase()}
                             </Badge>
                           </td>
                           <td className="p-3 text-sm">{formatTime(new Date(vehicle.entryTime))}</td>
@@ -155,7 +162,7 @@ const CurrentlyParked: React.FC = () => {
                   {filteredVehicles.length}
                 </div>
                 <p className="text-sm text-muted-foreground">
-                  {activeType === 'car' ? 'Cars' : activeType === 'bike' ? 'Bikes' : 'Rickshaws'}
+                  {activeCategory.label}
                 </p>
               </div>
               <div className="text-center">
@@ -2,27 +2,52 @@ import React, { useState } from 'react';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Progress } from '@/components/ui/progress';
 import { useParkingContext } from '@/contexts/ParkingContext';
 import { formatCurrency } from '@/utils/calculations';
-import { LogOut, Car, Bike, Truck, DollarSign } from 'lucide-react';
+import { canAccess, ROLE_LABELS } from '@/utils/permissions';
+import { getOccupancy, getVehicleIcon } from '@/utils/vehicleTypes';
+import { buildShiftReport } from '@/utils/shifts';
+import { LogOut, DollarSign, CloudOff, AlertTriangle } from 'lucide-react';
 import WalkInClients from './WalkInClients';
 import PermanentClients from './PermanentClients';
 import CurrentlyParked from './CurrentlyParked';
 import History from './History';
+import Analytics from './Analytics';
 import AdminSettings from './AdminSettings';
+import AuditLog from './AuditLog';
+import SyncConflicts from './SyncConflicts';
+import ShiftManagement from './ShiftManagement';
+
+// Tailwind needs literal class names, so map the visible tab count to its grid layout
+const TAB_GRID_CLASSES: Record<number, string> = {
+  2: 'grid-cols-2',
+  3: 'grid-cols-2 sm:grid-cols-3',
+  4: 'grid-cols-2 sm:grid-cols-4',
+  5: 'grid-cols-2 sm:grid-cols-3 lg:grid-cols-5',
+  6: 'grid-cols-2 sm:grid-cols-3 lg:grid-cols-6',
+  7: 'grid-cols-2 sm:grid-cols-4 lg:grid-cols-7',
+  8: 'grid-cols-2 sm:grid-cols-4 lg:grid-cols-8'
+};
+
+// Stat card icon colours, assigned to vehicle categories in order
+const CATEGORY_COLORS = ['text-blue-500', 'text-green-500', 'text-orange-500', 'text-purple-500', 'text-pink-500', 'text-teal-500'];
 
 const Dashboard: React.FC = () => {
   const [hideIncomeStatus, setHideIncomeStatus] = useState(false);
-  const { logout, settings, getTodayStats, getCurrentlyParked } = useParkingContext();
+  const { logout, settings, vehicles, vehicleTypes, getTodayStats, getCurrentlyParked, currentUser, currentShift, pendingOperations, syncConflicts } = useParkingContext();
   const [activeTab, setActiveTab] = useState('walkin');
+  const [showConflicts, setShowConflicts] = useState(false);
+  const role = currentUser?.role;
+  const visibleTabCount = (['walkin', 'permanent', 'parked', 'shift', 'history', 'analytics', 'settings', 'audit'] as const)
+    .filter(feature => canAccess(role, feature)).length;
   
   const todayStats = getTodayStats();
   const currentlyParked = getCurrentlyParked();
   
-  const currentCars = currentlyParked.filter(v => v.type === 'car').length;
-  const currentBikes = currentlyParked.filter(v => v.type === 'bike').length;
-  const currentRickshaws = currentlyParked.filter(v => v.type === 'rickshaw').length;
   const currentTotal = currentlyParked.length;
+  // Shifts often run past midnight, so the open shift's takings are shown alongside the calendar day's
+  const shiftIncome = currentShift ? buildShiftReport(currentShift, vehicles).totalIncome : null;
 
   return (
     <div className="min-h-screen bg-background">
@@ -30,54 +55,64 @@ const Dashboard: React.FC = () => {
       <header className="bg-card border-b border-border p-3 sm:p-4">
         <div className="flex justify-between items-center">
           <h1 className="text-lg sm:text-2xl font-bold text-foreground truncate">{settings.siteName}</h1>
-          <Button onClick={logout} variant="outline" size="sm" className="ml-2">
-            <LogOut className="h-4 w-4 sm:mr-2" />
-            <span className="hidden sm:inline">Logout</span>
-          </Button>
+          <div className="flex items-center gap-2">
+            {pendingOperations > 0 && (
+              <span className="flex items-center text-xs sm:text-sm text-orange-600">
+                <CloudOff className="h-4 w-4 mr-1" />
+                {pendingOperations} operation{pendingOperations === 1 ? '' : 's'} pending
+              </span>
+            )}
+            {syncConflicts.length > 0 && (
+              <Button onClick={() => setShowConflicts(true)} variant="destructive" size="sm">
+                <AlertTriangle className="h-4 w-4 sm:mr-2" />
+                <span className="hidden sm:inline">{syncConflicts.length} conflict{syncConflicts.length === 1 ? '' : 's'}</span>
+              </Button>
+            )}
+            {currentUser && (
+              <span className="text-xs sm:text-sm text-muted-foreground truncate">
+                {currentUser.displayName || currentUser.username} ({ROLE_LABELS[currentUser.role]})
+              </span>
+            )}
+            <Button onClick={logout} variant="outline" size="sm" className="ml-2">
+              <LogOut className="h-4 w-4 sm:mr-2" />
+              <span className="hidden sm:inline">Logout</span>
+            </Button>
+          </div>
         </div>
       </header>
+      <SyncConflicts open={showConflicts} onOpenChange={setShowConflicts} />
 
       {/* Stats Cards */}
       <div className="p-3 sm:p-6">
         <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-5 gap-3 sm:gap-4 mb-4 sm:mb-6">
-          <Card>
-            <CardHeader className="pb-1 sm:pb-2">
-              <CardTitle className="text-xs sm:text-sm font-medium flex items-center">
-                <Car className="h-3 w-3 sm:h-4 sm:w-4 mr-1 sm:mr-2 text-blue-500" />
-                <span className="truncate">Cars</span>
-              </CardTitle>
-            </CardHeader>
-            <CardContent className="pt-1">
-              <div className="text-lg sm:text-2xl font-bold">{currentCars}</div>
-              <p className="text-xs text-muted-foreground hidden sm:block">Currently parked</p>
-            </CardContent>
-          </Card>
-          
-          <Card>
-            <CardHeader className="pb-2">
-              <CardTitle className="text-sm font-medium flex items-center">
-                <Bike className="h-4 w-4 mr-2 text-green-500" />
-                Bikes
-              </CardTitle>
-            </CardHeader>
-            <CardContent>
-              <div className="text-2xl font-bold">{currentBikes}</div>
-              <p className="text-xs text-muted-foreground">Currently parked</p>
-            </CardContent>
-          </Card>
-          
-          <Card>
-            <CardHeader className="pb-2">
-              <CardTitle className="text-sm font-medium flex items-center">
-                <Truck className="h-4 w-4 mr-2 text-orange-500" />
-                Rickshaws
-              </CardTitle>
-            </CardHeader>
-            <CardContent>
-              <div className="text-2xl font-bold">{currentRickshaws}</div>
-              <p className="text-xs text-muted-foreground">Currently parked</p>
-            </CardContent>
-          </Card>
+          {vehicleTypes.map((vehicleType, index) => {
+            const Icon = getVehicleIcon(vehicleType.icon);
+            const occupancy = getOccupancy(currentlyParked, vehicleType);
+            return (
+              <Card key={vehicleType.id}>
+                <CardHeader className="pb-1 sm:pb-2">
+                  <CardTitle className="text-xs sm:text-sm font-medium flex items-center">
+                    <Icon className={`h-3 w-3 sm:h-4 sm:w-4 mr-1 sm:mr-2 ${CATEGORY_COLORS[index % CATEGORY_COLORS.length]}`} />
+                    <span className="truncate">{vehicleType.label}</span>
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="pt-1">
+                  <div className={`text-lg sm:text-2xl font-bold ${occupancy.full ? 'text-destructive' : ''}`}>
+                    {occupancy.occupied}
+                    {occupancy.capacity && <span className="text-sm font-normal text-muted-foreground"> / {occupancy.capacity}</span>}
+                  </div>
+                  {occupancy.capacity ? (
+                    <div className="mt-2 space-y-1">
+                      <Progress value={occupancy.percent} className={`h-2 ${occupancy.full ? '[&>div]:bg-destructive' : ''}`} />
+                      <p className="text-xs text-muted-foreground">{occupancy.full ? 'Full' : `${occupancy.percent}% occupied`}</p>
+                    </div>
+                  ) : (
+                    <p className="text-xs text-muted-foreground hidden sm:block">Currently parked</p>
+                  )}
+                </CardContent>
+              </Card>
+            );
+          })}
           
           <Card>
             <CardHeader className="pb-2">
@@ -113,39 +148,82 @@ const Dashboard: React.FC = () => {
                 <div className="text-2xl font-bold">{formatCurrency(todayStats.totalIncome)}</div>
               )}
               <p className="text-xs text-muted-foreground">Resets at midnight</p>
+              {shiftIncome !== null && !hideIncomeStatus && (
+                <p className="text-xs text-muted-foreground">This shift: {formatCurrency(shiftIncome)}</p>
+              )}
             </CardContent>
           </Card>
         </div>
 
         {/* Main Content */}
         <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-          <TabsList className="grid w-full grid-cols-2 sm:grid-cols-3 lg:grid-cols-5 h-auto">
+          <TabsList className={`grid w-full h-auto ${TAB_GRID_CLASSES[visibleTabCount] ?? 'grid-cols-1'}`}>
             <TabsTrigger value="walkin" className="text-xs sm:text-sm p-2 sm:p-3">Walk-in</TabsTrigger>
-            <TabsTrigger value="permanent" className="text-xs sm:text-sm p-2 sm:p-3">Permanent</TabsTrigger>
-            <TabsTrigger value="parked" className="text-xs sm:text-sm p-2 sm:p-3 col-span-2 sm:col-span-1">Currently Parked</TabsTrigger>
-            <TabsTrigger value="history" className="text-xs sm:text-sm p-2 sm:p-3">History</TabsTrigger>
-            <TabsTrigger value="settings" className="text-xs sm:text-sm p-2 sm:p-3">Settings</TabsTrigger>
+            {canAccess(role, 'permanent') && (
+              <TabsTrigger value="permanent" className="text-xs sm:text-sm p-2 sm:p-3">Permanent</TabsTrigger>
+            )}
+            <TabsTrigger
+              value="parked"
+              className={`text-xs sm:text-sm p-2 sm:p-3 ${visibleTabCount % 2 === 1 ? 'col-span-2 sm:col-span-1' : ''}`}
+            >
+              Currently Parked
+            </TabsTrigger>
+            <TabsTrigger value="shift" className="text-xs sm:text-sm p-2 sm:p-3">Shift</TabsTrigger>
+            {canAccess(role, 'history') && (
+              <TabsTrigger value="history" className="text-xs sm:text-sm p-2 sm:p-3">History</TabsTrigger>
+            )}
+            {canAccess(role, 'analytics') && (
+              <TabsTrigger value="analytics" className="text-xs sm:text-sm p-2 sm:p-3">Analytics</TabsTrigger>
+            )}
+            {canAccess(role, 'settings') && (
+              <TabsTrigger value="settings" className="text-xs sm:text-sm p-2 sm:p-3">Settings</TabsTrigger>
+            )}
+            {canAccess(role, 'audit') && (
+              <TabsTrigger value="audit" className="text-xs sm:text-sm p-2 sm:p-3">Audit</TabsTrigger>
+            )}
           </TabsList>
           
           <TabsContent value="walkin" className="mt-3 sm:mt-6">
             <WalkInClients />
           </TabsContent>
           
-          <TabsContent value="permanent" className="mt-3 sm:mt-6">
-            <PermanentClients />
-          </TabsContent>
+          {canAccess(role, 'permanent') && (
+            <TabsContent value="permanent" className="mt-3 sm:mt-6">
+              <PermanentClients />
+            </TabsContent>
+          )}
           
           <TabsContent value="parked" className="mt-3 sm:mt-6">
             <CurrentlyParked />
           </TabsContent>
-          
-          <TabsContent value="history" className="mt-3 sm:mt-6">
-            <History />
+
+          <TabsContent value="shift" className="mt-3 sm:mt-6">
+            <ShiftManagement />
           </TabsContent>
           
-          <TabsContent value="settings" className="mt-3 sm:mt-6">
-            <AdminSettings />
-          </TabsContent>
+          {canAccess(role, 'history') && (
+            <TabsContent value="history" className="mt-3 sm:mt-6">
+              <History />
+            </TabsContent>
+          )}
+
+          {canAccess(role, 'analytics') && (
+            <TabsContent value="analytics" className="mt-3 sm:mt-6">
+              <Analytics />
+            </TabsContent>
+          )}
+          
+          {canAccess(role, 'settings') && (
+            <TabsContent value="settings" className="mt-3 sm:mt-6">
+              <AdminSettings />
+            </TabsContent>
+          )}
+
+          {canAccess(role, 'audit') && (
+            <TabsContent value="audit" className="mt-3 sm:mt-6">
+              <AuditLog />
+            </TabsContent>
+          )}
         </Tabs>
       </div>
     </div>
@@ -0,0 +1,92 @@
+import React from 'react';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { DiscountReason, FeeDiscount } from '@/types/parking';
+
+const NONE = 'none';
+
+interface ExitDiscountFieldsProps {
+  reasons: DiscountReason[];
+  discount?: FeeDiscount;
+  onChange: (discount?: FeeDiscount) => void;
+}
+
+// Shown under the exit receipt; a discount or waiver cannot be given without one of the reason codes from Settings
+const ExitDiscountFields: React.FC<ExitDiscountFieldsProps> = ({ reasons, discount, onChange }) => {
+  if (reasons.length === 0) {
+    return (
+      <p className="text-xs text-muted-foreground">
+        Add discount reason codes under Admin Settings → Pricing to discount or waive a fee.
+      </p>
+    );
+  }
+
+  return (
+    <div className="space-y-3 border rounded-md p-3">
+      <div className="grid gap-3 grid-cols-2">
+        <div>
+          <Label>Discount</Label>
+          <Select
+            value={discount?.kind || NONE}
+            onValueChange={(kind) => onChange(kind === NONE
+              ? undefined
+              : { reasonCode: '', ...discount, kind: kind as FeeDiscount['kind'] })}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value={NONE}>No discount</SelectItem>
+              <SelectItem value="percent">Percentage</SelectItem>
+              <SelectItem value="fixed">Fixed amount</SelectItem>
+              <SelectItem value="waiver">Full waiver</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        {discount && discount.kind !== 'waiver' && (
+          <div>
+            <Label>{discount.kind === 'percent' ? 'Percent Off' : 'Amount Off (PKR)'}</Label>
+            <Input
+              type="number"
+              min={0}
+              max={discount.kind === 'percent' ? 100 : undefined}
+              value={discount.value ?? ''}
+              onChange={(e) => {
+                const value = Math.max(0, parseInt(e.target.value) || 0);
+                onChange({ ...discount, value: e.target.value === '' ? undefined : discount.kind === 'percent' ? Math.min(100, value) : value });
+              }}
+            />
+          </div>
+        )}
+      </div>
+      {discount && (
+        <div className="grid gap-3 grid-cols-2">
+          <div>
+            <Label>Reason</Label>
+            <Select value={discount.reasonCode} onValueChange={(reasonCode) => onChange({ ...discount, reasonCode })}>
+              <SelectTrigger>
+                <SelectValue placeholder="Select a reason" />
+              </SelectTrigger>
+              <SelectContent>
+                {reasons.map(reason => (
+                  <SelectItem key={reason.code} value={reason.code}>{reason.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div>
+            <Label>Note</Label>
+            <Input
+              value={discount.note || ''}
+              placeholder="Optional"
+              onChange={(e) => onChange({ ...discount, note: e.target.value || undefined })}
+            />
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ExitDiscountFields;
@@ -1,4 +1,4 @@
-import React, { useState, useRef } from 'react';
+import React, { useEffect, useState, useRef } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
@@ -6,52 +6,98 @@ import { Badge } from '@/components/ui/badge';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useParkingContext } from '@/contexts/ParkingContext';
 import { formatCurrency, formatTime } from '@/utils/calculations';
-import { Search, Calendar, TrendingUp, Download, Upload, FileDown, FileUp } from 'lucide-react';
+import { getVehicleLabel } from '@/utils/vehicleTypes';
+import { describeDiscount } from '@/utils/tariff';
+import { PAYMENT_METHODS, getPaymentMethod, getPaymentMethodLabel } from '@/utils/payments';
+import { ReportSummary, Vehicle } from '@/types/parking';
+import { Search, Calendar, TrendingUp, Download, Upload, FileDown, FileUp, TicketSlash, BadgePercent, RefreshCw } from 'lucide-react';
 import { useToast } from '@/hooks/use-toast';
+import { apiService } from '@/services/api';
+import { hasRole } from '@/utils/permissions';
+import { getCurrentDay } from '@/utils/billing';
+import { formatReportDay, getRecentRange, ReportRange } from '@/utils/reports';
+import BackupImportDialog from './BackupImportDialog';
+
+// Lists a backup file may hold; anything else in it is ignored
+const BACKUP_SECTIONS = ['vehicleTypes', 'shifts', 'invoices', 'vehicles', 'permanentClients', 'dailyStats'];
 
 const History: React.FC = () => {
   const [searchTerm, setSearchTerm] = useState('');
   const [selectedDate, setSelectedDate] = useState('');
+  const [range, setRange] = useState<ReportRange>(() => getRecentRange());
+  const [summary, setSummary] = useState<ReportSummary | null>(null);
+  // Visits that left within the range; the rest of the vehicle table stays on the server
+  const [completedVehicles, setCompletedVehicles] = useState<Vehicle[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [loadError, setLoadError] = useState('');
+  const [refreshCount, setRefreshCount] = useState(0);
+  const [importBackup, setImportBackup] = useState<{ name: string; data: Record<string, unknown> } | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   
-  const { vehicles, dailyStats, updateSettings, settings } = useParkingContext();
+  const { vehicleTypes, settings, currentUser } = useParkingContext();
+  // Backups hold every table, and importing can replace them on the server, which only the owner may do
+  const canImport = hasRole(currentUser?.role, 'owner');
   const { toast } = useToast();
-  
-  // Filter vehicles with exit time (completed parking sessions)
-  const completedVehicles = vehicles.filter(v => v.exitTime);
+
+  // The range is read again when it changes or Refresh is pressed
+  useEffect(() => {
+    if (!range.from || !range.to || range.from > range.to) return;
+    let cancelled = false;
+    setLoading(true);
+    Promise.all([apiService.getReportSummary(range.from, range.to), apiService.getReportVehicles(range.from, range.to)])
+      .then(([report, vehicles]) => {
+        if (cancelled) return;
+        setSummary(report);
+        setCompletedVehicles(vehicles.map(vehicle => ({
+          ...vehicle,
+          entryTime: new Date(vehicle.entryTime),
+          exitTime: vehicle.exitTime ? new Date(vehicle.exitTime) : undefined
+        })));
+        setLoadError('');
+      })
+      .catch(error => {
+        if (!cancelled) setLoadError(error instanceof Error ? error.message : 'History is read from the server, which could not be reached');
+      })
+      .finally(() => { if (!cancelled) setLoading(false); });
+    return () => { cancelled = true; };
+  }, [range.from, range.to, refreshCount]);
+
+  const exitedOn = (vehicle: Vehicle, day: string) => !!vehicle.exitTime && getCurrentDay(vehicle.exitTime) === day;
   
   const filteredVehicles = completedVehicles.filter(vehicle => {
-    const matchesSearch = vehicle.number.toLowerCase().includes(searchTerm.toLowerCase());
-    if (!selectedDate) return matchesSearch;
-    
-    const vehicleDate = new Date(vehicle.entryTime).toDateString();
-    const filterDate = new Date(selectedDate).toDateString();
-    return matchesSearch && vehicleDate === filterDate;
+    return vehicle.number.toLowerCase().includes(searchTerm.toLowerCase()) ||
+      !!vehicle.ticketNumber?.toLowerCase().includes(searchTerm.toLowerCase());
   });
 
-  const filteredStats = dailyStats.filter(stat => {
-    if (!selectedDate && !searchTerm) return true;
-    
-    // Filter by selected date
-    const matchesDate = !selectedDate || new Date(stat.date).toDateString() === new Date(selectedDate).toDateString();
+  // Lost-ticket exits are reported on their own, using the same search and date range
+  const lostTicketVehicles = filteredVehicles.filter(vehicle => vehicle.lostTicket);
+  const totalLostTicketPenalties = lostTicketVehicles.reduce((sum, vehicle) => sum + (vehicle.lostTicket?.penalty || 0), 0);
+
+  // Discounts given, measured against what the tariff asked for
+  const discountedVehicles = filteredVehicles.filter(vehicle => vehicle.discount);
+  const discountAmount = (vehicle: Vehicle) => (vehicle.calculatedFee ?? vehicle.fee ?? 0) - (vehicle.fee || 0);
+  const totalDiscounts = discountedVehicles.reduce((sum, vehicle) => sum + discountAmount(vehicle), 0);
+  const discountsByReason = Object.entries(discountedVehicles.reduce<Record<string, { count: number; amount: number }>>((totals, vehicle) => {
+    const code = vehicle.discount!.reasonCode;
+    totals[code] = { count: (totals[code]?.count || 0) + 1, amount: (totals[code]?.amount || 0) + discountAmount(vehicle) };
+    return totals;
+  }, {}));
+
+  // The server's days run oldest first; the newest is shown at the top
+  const filteredStats = [...(summary?.groups || [])].reverse().filter(stat => {
+    if (!searchTerm || !stat.key) return true;
     
     // Filter by search term (vehicle numbers, income amount, or date)
-    let matchesSearch = true;
-    if (searchTerm) {
-      const searchLower = searchTerm.toLowerCase();
-      const hasMatchingVehicle = vehicles.some(v => 
-        v.exitTime && 
-        v.exitTime.toDateString() === new Date(stat.date).toDateString() &&
-        v.number.toLowerCase().includes(searchLower)
-      );
-      const matchesIncome = stat.totalIncome.toString().includes(searchTerm);
-      const matchesDate = stat.date.toLowerCase().includes(searchLower) || 
-                         new Date(stat.date).toLocaleDateString().toLowerCase().includes(searchLower);
-      
-      matchesSearch = hasMatchingVehicle || matchesIncome || matchesDate;
-    }
+    const searchLower = searchTerm.toLowerCase();
+    const hasMatchingVehicle = completedVehicles.some(v => 
+      exitedOn(v, stat.key!) &&
+      (v.number.toLowerCase().includes(searchLower) || !!v.ticketNumber?.toLowerCase().includes(searchLower))
+    );
+    const matchesIncome = stat.income.toString().includes(searchTerm);
+    const matchesDate = stat.key.includes(searchLower) || 
+                       formatReportDay(stat.key).toLowerCase().includes(searchLower);
     
-    return matchesDate && matchesSearch;
+    return hasMatchingVehicle || matchesIncome || matchesDate;
   });
 
   const handleDateClick = (date: string) => {
@@ -62,12 +108,17 @@ const History: React.FC = () => {
   const exportToCSV = () => {
     const csvData = completedVehicles.map(vehicle => ({
       'Vehicle Number': vehicle.number,
-      'Type': vehicle.type.toUpperCase(),
+      'Type': getVehicleLabel(vehicleTypes, vehicle.type).toUpperCase(),
       'Entry Time': formatTime(new Date(vehicle.entryTime)),
       'Exit Time': vehicle.exitTime ? formatTime(new Date(vehicle.exitTime)) : 'N/A',
       'Duration (Hours)': vehicle.exitTime ? 
         Math.ceil((new Date(vehicle.exitTime).getTime() - new Date(vehicle.entryTime).getTime()) / (1000 * 60 * 60)) : 0,
       'Fee (PKR)': vehicle.fee || 0,
+      'Payment Method': getPaymentMethodLabel(getPaymentMethod(vehicle)),
+      'Calculated Fee (PKR)': vehicle.calculatedFee ?? vehicle.fee ?? 0,
+      'Discount': vehicle.discount ? describeDiscount(vehicle.discount, settings.discountReasons) : '',
+      'Lost Ticket': vehicle.lostTicket ? 'Yes' : 'No',
+      'Monthly Pass': vehicle.passClientId ? 'Yes' : 'No',
       'Date': new Date(vehicle.entryTime).toDateString()
     }));
 
@@ -77,38 +128,30 @@ const History: React.FC = () => {
       ...csvData.map(row => headers.map(header => `"${row[header as keyof typeof row]}"`).join(','))
     ].join('\n');
 
-    downloadFile(csvContent, `parking-history-${new Date().toISOString().split('T')[0]}.csv`, 'text/csv');
+    downloadFile(csvContent, `parking-history-${range.from}-to-${range.to}.csv`, 'text/csv');
     
     toast({
       title: "Export Successful",
-      description: "Vehicle history exported to CSV file",
+      description: `Vehicle history from ${range.from} to ${range.to} exported to CSV file`,
     });
   };
 
-  const exportToJSON = () => {
-    const exportData = {
-      exportDate: new Date().toISOString(),
-      siteName: settings.siteName,
-      vehicles: completedVehicles,
-      dailyStats: dailyStats,
-      summary: {
-        totalVehicles: completedVehicles.length,
-        totalIncome: completedVehicles.reduce((sum, v) => sum + (v.fee || 0), 0),
-        dateRange: {
-          from: completedVehicles.length > 0 ? 
-            new Date(Math.min(...completedVehicles.map(v => new Date(v.entryTime).getTime()))).toDateString() : null,
-          to: completedVehicles.length > 0 ? 
-            new Date(Math.max(...completedVehicles.map(v => new Date(v.entryTime).getTime()))).toDateString() : null
-        }
-      }
-    };
-
-    downloadFile(JSON.stringify(exportData, null, 2), `parking-backup-${new Date().toISOString().split('T')[0]}.json`, 'application/json');
-    
-    toast({
-      title: "Backup Created",
-      description: "Complete parking data backup downloaded",
-    });
+  // The server's own backup, so the file holds every table and Import Backup can read it back
+  const exportToJSON = async () => {
+    try {
+      const backup = await apiService.downloadBackup();
+      downloadFile(JSON.stringify(backup, null, 2), `parking-backup-${getCurrentDay()}.json`, 'application/json');
+      toast({
+        title: "Backup Created",
+        description: "Complete parking data backup downloaded",
+      });
+    } catch (error) {
+      toast({
+        title: "Backup Failed",
+        description: error instanceof Error ? error.message : "The server could not be reached",
+        variant: "destructive"
+      });
+    }
   };
 
   const downloadFile = (content: string, filename: string, contentType: string) => {
@@ -133,13 +176,9 @@ const History: React.FC = () => {
         const content = e.target?.result as string;
         const importData = JSON.parse(content);
         
-        if (importData.vehicles && importData.dailyStats) {
-          // Here you would need to add import functions to your context
-          // For now, show success message
-          toast({
-            title: "Import Ready",
-            description: `Found ${importData.vehicles?.length || 0} vehicles in backup file`,
-          });
+        // The server checks every record against its schema in the preview; this only rejects files that are not backups at all
+        if (importData && typeof importData === 'object' && BACKUP_SECTIONS.some(section => Array.isArray(importData[section]))) {
+          setImportBackup({ name: file.name, data: importData });
         } else {
           throw new Error('Invalid backup file format');
         }
@@ -171,10 +210,12 @@ const History: React.FC = () => {
                 <FileDown className="h-4 w-4 mr-2" />
                 Export CSV
               </Button>
-              <Button onClick={exportToJSON} variant="outline" size="sm">
-                <Download className="h-4 w-4 mr-2" />
-                Backup JSON
-              </Button>
+              {canImport && (
+                <Button onClick={exportToJSON} variant="outline" size="sm">
+                  <Download className="h-4 w-4 mr-2" />
+                  Backup JSON
+                </Button>
+              )}
               <input
                 ref={fileInputRef}
                 type="file"
@@ -182,28 +223,56 @@ const History: React.FC = () => {
                 onChange={handleImport}
                 className="hidden"
               />
-              <Button onClick={() => fileInputRef.current?.click()} variant="outline" size="sm">
-                <Upload className="h-4 w-4 mr-2" />
-                Import Backup
-              </Button>
+              {canImport && (
+                <Button onClick={() => fileInputRef.current?.click()} variant="outline" size="sm">
+                  <Upload className="h-4 w-4 mr-2" />
+                  Import Backup
+                </Button>
+              )}
             </div>
           </CardTitle>
         </CardHeader>
         <CardContent>
           <div className="text-sm text-muted-foreground space-y-1">
-            <p>• <strong>Export CSV:</strong> Download vehicle history as spreadsheet</p>
-            <p>• <strong>Backup JSON:</strong> Complete data backup for restoration</p>
-            <p>• <strong>Import Backup:</strong> Restore data from previous backup</p>
+            <p>• <strong>Export CSV:</strong> Download the vehicle history for the dates shown as a spreadsheet</p>
+            <p>• <strong>Backup JSON:</strong> Complete data backup for restoration (owner only)</p>
+            <p>• <strong>Import Backup:</strong> Preview a backup against the server, then merge it or replace the data with it (owner only)</p>
             <p className="text-accent font-medium">💡 Tip: Regular backups prevent data loss from browser clearing!</p>
           </div>
         </CardContent>
       </Card>
 
       <Tabs defaultValue="income" className="w-full">
-        <TabsList>
-          <TabsTrigger value="income">Income History</TabsTrigger>
-          <TabsTrigger value="vehicle">Vehicle History</TabsTrigger>
-        </TabsList>
+        <div className="flex flex-wrap items-center justify-between gap-2">
+          <TabsList>
+            <TabsTrigger value="income">Income History</TabsTrigger>
+            <TabsTrigger value="vehicle">Vehicle History</TabsTrigger>
+            <TabsTrigger value="lost">Lost Tickets</TabsTrigger>
+            <TabsTrigger value="discounts">Discounts Given</TabsTrigger>
+          </TabsList>
+          <div className="flex items-center gap-2">
+            <Calendar className="h-4 w-4" />
+            <Input
+              type="date"
+              value={range.from}
+              max={range.to}
+              onChange={(e) => setRange({ ...range, from: e.target.value })}
+              className="w-40"
+            />
+            <span className="text-sm text-muted-foreground">to</span>
+            <Input
+              type="date"
+              value={range.to}
+              min={range.from}
+              onChange={(e) => setRange({ ...range, to: e.target.value })}
+              className="w-40"
+            />
+            <Button size="sm" variant="outline" onClick={() => setRefreshCount(count => count + 1)} disabled={loading}>
+              <RefreshCw className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+        {loadError && <p className="text-sm text-destructive mt-2">{loadError}</p>}
         
         <TabsContent value="income">
           <Card>
@@ -221,69 +290,67 @@ const History: React.FC = () => {
                     onChange={(e) => setSearchTerm(e.target.value)}
                     className="w-64"
                   />
-                  <Calendar className="h-4 w-4" />
-                  <Input
-                    type="date"
-                    value={selectedDate}
-                    onChange={(e) => setSelectedDate(e.target.value)}
-                    className="w-40"
-                  />
                 </div>
               </CardTitle>
             </CardHeader>
             <CardContent>
+              {summary && (
+                <p className="text-sm text-muted-foreground mb-4">
+                  {formatCurrency(summary.totals.income)} from {summary.totals.exits} exits and {summary.totals.entries} entries, {formatReportDay(summary.from)} to {formatReportDay(summary.to)}
+                </p>
+              )}
               {filteredStats.length === 0 ? (
                 <p className="text-center text-muted-foreground py-8">No income data found</p>
               ) : (
                 <div className="space-y-4">
                   {filteredStats.map((stat) => (
                     <Card 
-                      key={stat.date} 
+                      key={stat.key} 
                       className="border-l-4 border-l-accent cursor-pointer hover:bg-muted/50"
-                      onClick={() => handleDateClick(stat.date)}
+                      onClick={() => handleDateClick(stat.key!)}
                     >
                       <CardContent className="p-4">
                         <div className="flex justify-between items-start">
                           <div className="space-y-2">
                             <h3 className="font-semibold">
-                              {new Date(stat.date).toLocaleDateString('en-PK', {
-                                weekday: 'long',
-                                year: 'numeric',
-                                month: 'long',
-                                day: 'numeric'
-                              })}
+                              {formatReportDay(stat.key!)}
                             </h3>
-                            <div className="flex gap-4 text-sm text-muted-foreground">
-                              <span>Cars: {stat.totalCars}</span>
-                              <span>Bikes: {stat.totalBikes}</span>
-                              <span>Rickshaws: {stat.totalRickshaws}</span>
+                            <div className="flex flex-wrap gap-4 text-sm text-muted-foreground">
+                              {vehicleTypes.map(vehicleType => (
+                                <span key={vehicleType.id}>{vehicleType.label}: {stat.byType[vehicleType.id] || 0}</span>
+                              ))}
+                            </div>
+                            <div className="flex flex-wrap gap-4 text-sm text-muted-foreground">
+                              {PAYMENT_METHODS.filter(method => stat.incomeByMethod[method.id]).map(method => (
+                                <span key={method.id}>{method.label}: {formatCurrency(stat.incomeByMethod[method.id] || 0)}</span>
+                              ))}
                             </div>
                           </div>
                           <div className="text-right">
                             <div className="text-2xl font-bold text-accent">
-                              {formatCurrency(stat.totalIncome)}
+                              {formatCurrency(stat.income)}
                             </div>
                             <p className="text-sm text-muted-foreground">
-                              {stat.totalVehicles} vehicles
+                              {stat.entries} vehicles
                             </p>
                           </div>
                         </div>
                         
-                        {selectedDate && new Date(selectedDate).toDateString() === new Date(stat.date).toDateString() && (
+                        {selectedDate === stat.key && (
                           <div className="mt-4 pt-4 border-t">
                             <h4 className="font-medium mb-3">Vehicles that exited this day:</h4>
                             <div className="space-y-2 max-h-60 overflow-y-auto">
                               {/* Show vehicles that exited on this date */}
-                              {vehicles.filter(v => v.exitTime && v.exitTime.toDateString() === new Date(stat.date).toDateString()).map((vehicle) => (
+                              {completedVehicles.filter(v => exitedOn(v, stat.key!)).map((vehicle) => (
                                 <div key={vehicle.id} className="flex justify-between items-center p-2 bg-background rounded">
                                   <div className="flex items-center gap-2">
                                     <span className="font-medium">{vehicle.number}</span>
                                     <Badge variant="outline">
-                                      {vehicle.type.toUpperCase()}
+                                      {getVehicleLabel(vehicleTypes, vehicle.type).toUpperCase()}
                                     </Badge>
                                   </div>
                                   <div className="text-right text-sm">
-                                    <div>{formatCurrency(vehicle.fee || 0)}</div>
+                                    <div>{formatCurrency(vehicle.fee || 0)} ({getPaymentMethodLabel(getPaymentMethod(vehicle))})</div>
                                     <div className="text-muted-foreground">
                                       {formatTime(new Date(vehicle.entryTime))} - {vehicle.exitTime ? formatTime(new Date(vehicle.exitTime)) : 'N/A'}
                                     </div>
@@ -306,11 +373,11 @@ const History: React.FC = () => {
           <Card>
             <CardHeader>
               <CardTitle className="flex items-center justify-between">
-                All Time Vehicle History
+                Vehicle History
                 <div className="flex items-center gap-2">
                   <Search className="h-4 w-4" />
                   <Input
-                    placeholder="Search by vehicle number"
+                    placeholder="Search by vehicle or ticket number"
                     value={searchTerm}
                     onChange={(e) => setSearchTerm(e.target.value)}
                     className="w-64"
@@ -321,7 +388,7 @@ const History: React.FC = () => {
             <CardContent>
               {filteredVehicles.length === 0 ? (
                 <p className="text-center text-muted-foreground py-8">
-                  {completedVehicles.length === 0 ? 'No vehicle history found' : 'No vehicles match your search'}
+                  {completedVehicles.length === 0 ? 'No vehicles left between these dates' : 'No vehicles match your search'}
                 </p>
               ) : (
                 <div className="space-y-3">
@@ -333,8 +400,13 @@ const History: React.FC = () => {
                             <div className="flex items-center gap-2">
                               <span className="font-semibold">{vehicle.number}</span>
                               <Badge variant="outline">
-                                {vehicle.type.toUpperCase()}
+                                {getVehicleLabel(vehicleTypes, vehicle.type).toUpperCase()}
                               </Badge>
+                              {vehicle.ticketNumber && (
+                                <span className="text-xs text-muted-foreground font-mono">{vehicle.ticketNumber}</span>
+                              )}
+                              {vehicle.lostTicket && <Badge variant="destructive">LOST TICKET</Badge>}
+                              {vehicle.passClientId && <Badge variant="secondary">PASS</Badge>}
                             </div>
                             <div className="text-sm text-muted-foreground">
                               <div>Entry: {formatTime(new Date(vehicle.entryTime))}</div>
@@ -345,6 +417,11 @@ const History: React.FC = () => {
                             <div className="text-lg font-semibold text-primary">
                               {formatCurrency(vehicle.fee || 0)}
                             </div>
+                            {vehicle.discount && (
+                              <div className="text-xs text-muted-foreground">
+                                {describeDiscount(vehicle.discount, settings.discountReasons)}, was {formatCurrency(vehicle.calculatedFee || 0)}
+                              </div>
+                            )}
                             <div className="text-xs text-muted-foreground">
                               {vehicle.exitTime && (
                                 <>
@@ -362,7 +439,120 @@ const History: React.FC = () => {
             </CardContent>
           </Card>
         </TabsContent>
+
+        <TabsContent value="lost">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center justify-between">
+                <span className="flex items-center">
+                  <TicketSlash className="h-5 w-5 mr-2" />
+                  Lost Ticket Exits
+                </span>
+                <span className="text-sm font-normal text-muted-foreground">
+                  {lostTicketVehicles.length} exits, {formatCurrency(totalLostTicketPenalties)} in penalties
+                </span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {lostTicketVehicles.length === 0 ? (
+                <p className="text-center text-muted-foreground py-8">No lost-ticket exits found</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full border-collapse">
+                    <thead>
+                      <tr className="border-b">
+                        <th className="text-left p-3 font-semibold">Vehicle Number</th>
+                        <th className="text-left p-3 font-semibold">Exit</th>
+                        <th className="text-left p-3 font-semibold">Driver CNIC</th>
+                        <th className="text-left p-3 font-semibold">Note</th>
+                        <th className="text-left p-3 font-semibold">Penalty</th>
+                        <th className="text-left p-3 font-semibold">Total Fee</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {lostTicketVehicles.map((vehicle) => (
+                        <tr key={vehicle.id} className="border-b hover:bg-muted/50">
+                          <td className="p-3">
+                            <div className="font-semibold">{vehicle.number}</div>
+                            <div className="text-xs text-muted-foreground">{getVehicleLabel(vehicleTypes, vehicle.type).toUpperCase()}</div>
+                          </td>
+                          <td className="p-3 text-sm">{vehicle.exitTime ? formatTime(new Date(vehicle.exitTime)) : 'N/A'}</td>
+                          <td className="p-3 text-sm font-mono">{vehicle.lostTicket?.cnic}</td>
+                          <td className="p-3 text-sm">{vehicle.lostTicket?.note}</td>
+                          <td className="p-3 text-sm">{formatCurrency(vehicle.lostTicket?.penalty || 0)}</td>
+                          <td className="p-3 text-sm font-semibold text-primary">{formatCurrency(vehicle.fee || 0)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="discounts">
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center justify-between">
+                <span className="flex items-center">
+                  <BadgePercent className="h-5 w-5 mr-2" />
+                  Discounts Given
+                </span>
+                <span className="text-sm font-normal text-muted-foreground">
+                  {discountedVehicles.length} exits, {formatCurrency(totalDiscounts)} given up
+                </span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {discountsByReason.length > 0 && (
+                <div className="flex flex-wrap gap-2">
+                  {discountsByReason.map(([code, { count, amount }]) => (
+                    <Badge key={code} variant="secondary">
+                      {settings.discountReasons?.find(reason => reason.code === code)?.label || code}: {count} / {formatCurrency(amount)}
+                    </Badge>
+                  ))}
+                </div>
+              )}
+              {discountedVehicles.length === 0 ? (
+                <p className="text-center text-muted-foreground py-8">No discounts found</p>
+              ) : (
+                <div className="overflow-x-auto">
+                  <table className="w-full border-collapse">
+                    <thead>
+                      <tr className="border-b">
+                        <th className="text-left p-3 font-semibold">Vehicle Number</th>
+                        <th className="text-left p-3 font-semibold">Exit</th>
+                        <th className="text-left p-3 font-semibold">Discount</th>
+                        <th className="text-left p-3 font-semibold">Calculated</th>
+                        <th className="text-left p-3 font-semibold">Charged</th>
+                        <th className="text-left p-3 font-semibold">Note</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {discountedVehicles.map((vehicle) => (
+                        <tr key={vehicle.id} className="border-b hover:bg-muted/50">
+                          <td className="p-3">
+                            <div className="font-semibold">{vehicle.number}</div>
+                            <div className="text-xs text-muted-foreground">{getVehicleLabel(vehicleTypes, vehicle.type).toUpperCase()}</div>
+                          </td>
+                          <td className="p-3 text-sm">{vehicle.exitTime ? formatTime(new Date(vehicle.exitTime)) : 'N/A'}</td>
+                          <td className="p-3 text-sm">{describeDiscount(vehicle.discount!, settings.discountReasons)}</td>
+                          <td className="p-3 text-sm">{formatCurrency(vehicle.calculatedFee ?? vehicle.fee ?? 0)}</td>
+                          <td className="p-3 text-sm font-semibold text-primary">{formatCurrency(vehicle.fee || 0)}</td>
+                          <td className="p-3 text-sm">{vehicle.discount!.note}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
       </Tabs>
+
+      <BackupImportDialog backup={importBackup} onClose={() => setImportBackup(null)} />
     </div>
   );
 };
@@ -13,10 +13,16 @@ const LoginPage: React.FC = () => {
   const { login, settings } = useParkingContext();
   const { toast } = useToast();
 
-  const handleLogin = (e: React.FormEvent) => {
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const handleLogin = async (e: React.FormEvent) => {
     e.preventDefault();
     
-    if (login(username, password)) {
+    setIsSubmitting(true);
+    const success = await login(username, password);
+    setIsSubmitting(false);
+
+    if (success) {
       toast({
         title: "Login successful",
         description: "Welcome to the parking management system",
@@ -64,14 +70,10 @@ const LoginPage: React.FC = () => {
                 required
               />
             </div>
-            <Button type="submit" className="w-full">
-              Sign In
+            <Button type="submit" className="w-full" disabled={isSubmitting}>
+              {isSubmitting ? 'Signing In...' : 'Sign In'}
             </Button>
           </form>
-          <div className="mt-4 text-center text-sm text-muted-foreground">
-            <p>Default credentials:</p>
-            <p>Username: admin | Password: admin 1234</p>
-          </div>
         </CardContent>
       </Card>
     </div>
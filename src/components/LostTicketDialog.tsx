@@ -0,0 +1,82 @@
+import React, { useState, useEffect } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { useToast } from '@/hooks/use-toast';
+import { formatCurrency } from '@/utils/calculations';
+import { CNIC_REGEX } from '@/utils/validation';
+import { TicketSlash } from 'lucide-react';
+
+interface LostTicketDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  initialNumber: string;
+  penalty: number;
+  onSubmit: (details: { number: string; cnic: string; note: string }) => void;
+}
+
+// Collects the plate and the driver's identity before a vehicle may leave without its ticket
+const LostTicketDialog: React.FC<LostTicketDialogProps> = ({ open, onOpenChange, initialNumber, penalty, onSubmit }) => {
+  const { toast } = useToast();
+  const [number, setNumber] = useState('');
+  const [cnic, setCnic] = useState('');
+  const [note, setNote] = useState('');
+
+  useEffect(() => {
+    if (open) {
+      setNumber(initialNumber);
+      setCnic('');
+      setNote('');
+    }
+  }, [open, initialNumber]);
+
+  const handleSubmit = () => {
+    if (!number.trim() || !cnic.trim() || !note.trim()) {
+      toast({ title: 'Error', description: 'Vehicle number, CNIC and a note are all required', variant: 'destructive' });
+      return;
+    }
+    if (!CNIC_REGEX.test(cnic)) {
+      toast({ title: 'Error', description: 'CNIC must be in the format 12345-1234567-1', variant: 'destructive' });
+      return;
+    }
+    onSubmit({ number: number.trim(), cnic, note: note.trim() });
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle className="flex items-center">
+            <TicketSlash className="h-5 w-5 mr-2" />
+            Lost Ticket
+          </DialogTitle>
+          <DialogDescription>
+            The normal fee plus a penalty of {formatCurrency(penalty)} will be charged. The exit is recorded as a lost ticket.
+          </DialogDescription>
+        </DialogHeader>
+        <div className="space-y-3">
+          <div>
+            <Label>Vehicle Number</Label>
+            <Input value={number} onChange={(e) => setNumber(e.target.value)} />
+          </div>
+          <div>
+            <Label>Driver CNIC</Label>
+            <Input value={cnic} placeholder="12345-1234567-1" maxLength={15} onChange={(e) => setCnic(e.target.value)} />
+          </div>
+          <div>
+            <Label>Note</Label>
+            <Textarea value={note} placeholder="e.g. Ticket lost in the market, vehicle papers checked" onChange={(e) => setNote(e.target.value)} />
+          </div>
+        </div>
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleSubmit}>Continue to Exit</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default LostTicketDialog;
@@ -0,0 +1,74 @@
+import React, { useEffect, useRef } from 'react';
+import { Vehicle } from '@/types/parking';
+import JsBarcode from 'jsbarcode';
+
+interface PassCardProps {
+  client: Vehicle;
+  code: string;
+  siteName: string;
+  vehicleLabel: string;
+  validFor?: string; // Month the client has paid through, e.g. "October 2026", or the end of a paid plan term
+}
+
+// Wallet-sized card (85.6 x 54 mm). Styles are inline so the card prints the same from a bare window.
+const PassCard: React.FC<PassCardProps> = ({ client, code, siteName, vehicleLabel, validFor }) => {
+  const barcodeRef = useRef<SVGSVGElement>(null);
+
+  useEffect(() => {
+    if (barcodeRef.current) {
+      try {
+        JsBarcode(barcodeRef.current, code, {
+          format: "CODE128",
+          width: 1.4,
+          height: 36,
+          displayValue: true,
+          fontSize: 10,
+          textMargin: 2,
+          margin: 4
+        });
+      } catch (error) {
+        console.error('Error generating barcode:', error);
+      }
+    }
+  }, [code]);
+
+  return (
+    <div
+      className="pass-card"
+      style={{
+        width: '85.6mm',
+        height: '54mm',
+        boxSizing: 'border-box',
+        border: '1px solid #000',
+        borderRadius: '3mm',
+        padding: '3mm',
+        display: 'inline-flex',
+        flexDirection: 'column',
+        justifyContent: 'space-between',
+        fontFamily: "'Courier New', monospace",
+        background: '#fff',
+        color: '#000',
+        pageBreakInside: 'avoid',
+        margin: '2mm'
+      }}
+    >
+      <div style={{ display: 'flex', justifyContent: 'space-between', fontSize: '9pt', fontWeight: 'bold' }}>
+        <span>{siteName}</span>
+        <span>MONTHLY PASS</span>
+      </div>
+      <div style={{ fontSize: '8pt', lineHeight: 1.4 }}>
+        <div style={{ fontSize: '12pt', fontWeight: 'bold', letterSpacing: '1px' }}>{client.number}</div>
+        <div>{client.clientName}</div>
+        <div style={{ display: 'flex', justifyContent: 'space-between' }}>
+          <span>{vehicleLabel.toUpperCase()}</span>
+          <span>Valid: {validFor || 'Unpaid'}</span>
+        </div>
+      </div>
+      <div style={{ textAlign: 'center' }}>
+        <svg ref={barcodeRef} style={{ maxWidth: '100%', height: 'auto' }}></svg>
+      </div>
+    </div>
+  );
+};
+
+export default PassCard;
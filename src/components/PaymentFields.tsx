@@ -0,0 +1,62 @@
+import React from 'react';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { PaymentMethod } from '@/types/parking';
+import { formatCurrency } from '@/utils/calculations';
+import { PAYMENT_METHODS } from '@/utils/payments';
+
+export interface PaymentDetails {
+  paymentMethod: PaymentMethod;
+  amountTendered?: number;
+}
+
+interface PaymentFieldsProps {
+  total: number;
+  payment: PaymentDetails;
+  onChange: (payment: PaymentDetails) => void;
+}
+
+// Method picker for the exit receipt; cash also takes the amount handed over so the change can be shown
+const PaymentFields: React.FC<PaymentFieldsProps> = ({ total, payment, onChange }) => {
+  const change = payment.amountTendered !== undefined ? payment.amountTendered - total : undefined;
+
+  return (
+    <div className="space-y-3 border rounded-md p-3">
+      <div>
+        <Label>Payment Method</Label>
+        <div className="grid grid-cols-4 gap-2 mt-1">
+          {PAYMENT_METHODS.map(method => (
+            <Button
+              key={method.id}
+              size="sm"
+              variant={payment.paymentMethod === method.id ? 'default' : 'outline'}
+              onClick={() => onChange({ paymentMethod: method.id })}
+            >
+              {method.label}
+            </Button>
+          ))}
+        </div>
+      </div>
+      {payment.paymentMethod === 'cash' && (
+        <div className="grid gap-3 grid-cols-2 items-end">
+          <div>
+            <Label>Cash Tendered (PKR)</Label>
+            <Input
+              type="number"
+              min={0}
+              value={payment.amountTendered ?? ''}
+              placeholder={`Exact (${total})`}
+              onChange={(e) => onChange({ ...payment, amountTendered: e.target.value === '' ? undefined : Math.max(0, parseInt(e.target.value) || 0) })}
+            />
+          </div>
+          <div className={`text-lg font-semibold ${change !== undefined && change < 0 ? 'text-destructive' : ''}`}>
+            {change === undefined ? '' : change < 0 ? `Short by ${formatCurrency(-change)}` : `Change: ${formatCurrency(change)}`}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default PaymentFields;
@@ -1,38 +1,56 @@
-import React, { useState, useRef, useEffect } from 'react';
+import React, { useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Input } from '@/components/ui/input';
 import { Button } from '@/components/ui/button';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Vehicle } from '@/types/parking';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { Badge } from '@/components/ui/badge';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
 import { useParkingContext } from '@/contexts/ParkingContext';
 import { useToast } from '@/hooks/use-toast';
-import { formatCurrency, generateBarcode } from '@/utils/calculations';
-import { Search, UserPlus, Trash2, Receipt, Printer } from 'lucide-react';
-import JsBarcode from 'jsbarcode';
+import { formatCurrency } from '@/utils/calculations';
+import { apiService } from '@/services/api';
+import { CNIC_REGEX, CONTACT_REGEX } from '@/utils/validation';
+import { getVehicleLabel } from '@/utils/vehicleTypes';
+import { BILLING_STATUS_LABELS, BILLING_STATUS_VARIANTS, formatPeriod, getClientBalance, getClientBillingStatus, getClientInvoices, getCurrentDay, getPaidThroughPeriod } from '@/utils/billing';
+import { getDaysLeft, getPlan, getPlanHoursLabel, getRenewalStart, getTermEnd, isExpiringSoon, PLAN_TERMS } from '@/utils/plans';
+import ClientLedger from '@/components/ClientLedger';
+import PassCard from '@/components/PassCard';
+import ClientImportDialog from '@/components/ClientImportDialog';
+import { Search, UserPlus, Trash2, CreditCard, Printer, BookOpen, RefreshCw, FileSpreadsheet } from 'lucide-react';
 
 const PermanentClients: React.FC = () => {
   const [vehicleNumber, setVehicleNumber] = useState('');
   const [clientName, setClientName] = useState('');
   const [cnic, setCnic] = useState('');
-  const [vehicleType, setVehicleType] = useState<'car' | 'bike' | 'rickshaw'>('car');
+  const [selectedType, setSelectedType] = useState('');
   const [monthlyFee, setMonthlyFee] = useState('');
+  const [planId, setPlanId] = useState(''); // Blank registers the client on a negotiated monthly fee
   const [contact, setContact] = useState('');
   const [searchTerm, setSearchTerm] = useState('');
-  const [showReceipt, setShowReceipt] = useState(false);
-  const [currentReceipt, setCurrentReceipt] = useState<any>(null);
+  const [passCards, setPassCards] = useState<{ client: Vehicle; code: string }[] | null>(null);
   const [editingClient, setEditingClient] = useState<any>(null);
   const [editModalOpen, setEditModalOpen] = useState(false);
-  const barcodeRef = useRef<SVGSVGElement>(null);
+  const [ledgerClient, setLedgerClient] = useState<Vehicle | null>(null);
+  const [renewingClient, setRenewingClient] = useState<Vehicle | null>(null);
+  const [renewalPlanId, setRenewalPlanId] = useState('');
+  const [renewing, setRenewing] = useState(false);
+  const [importOpen, setImportOpen] = useState(false);
 
-  const { permanentClients, addPermanentClient, updatePermanentClient, removePermanentClient, settings } = useParkingContext();
+  const { permanentClients, addPermanentClient, updatePermanentClient, removePermanentClient, renewPermanentClient, settings, vehicleTypes, invoices } = useParkingContext();
+  // Default to the first category until one is picked
+  const vehicleType = selectedType || vehicleTypes[0]?.id || '';
+  const plans = settings.subscriptionPlans || [];
   const { toast } = useToast();
 
-  const CNIC_REGEX = /^\d{5}-\d{7}-\d{1}$/;
-  const CONTACT_REGEX = /^\+92\d{10}$/;
+  // Plans with a price for the vehicle type
+  const getPlansFor = (type: string) => plans.filter(plan => plan.prices[type] !== undefined);
+  const selectedPlan = getPlansFor(vehicleType).find(plan => plan.id === planId);
+
   const handleRegistration = () => {
-    if (!vehicleNumber.trim() || !clientName.trim() || !cnic.trim() || !monthlyFee.trim() || !contact.trim()) {
+    if (!vehicleNumber.trim() || !clientName.trim() || !cnic.trim() || (!selectedPlan && !monthlyFee.trim()) || !contact.trim()) {
       toast({
         title: "Error",
         description: "Please fill all fields",
@@ -86,21 +104,25 @@ const PermanentClients: React.FC = () => {
       return;
     }
 
+    // The server starts the plan's first term and invoices it; the dates here only show until it answers
+    const startDate = getCurrentDay();
     addPermanentClient({
       number: vehicleNumber,
       clientName,
       type: vehicleType,
       entryTime: new Date(),
       cnic,
-      monthlyFee: parseInt(monthlyFee),
+      monthlyFee: selectedPlan ? Math.round(selectedPlan.prices[vehicleType] / selectedPlan.months) : parseInt(monthlyFee),
       contact,
-      paymentStatus: 'unpaid'
+      paymentStatus: 'unpaid',
+      ...(selectedPlan && { planId: selectedPlan.id, startDate, endDate: getTermEnd(startDate, selectedPlan.months) })
     });
 
     setVehicleNumber('');
     setClientName('');
     setCnic('');
     setMonthlyFee('');
+    setPlanId('');
     setContact('');
 
     toast({
@@ -109,19 +131,11 @@ const PermanentClients: React.FC = () => {
     });
   };
 
-  const togglePaymentStatus = (clientId: string, currentStatus: 'paid' | 'unpaid') => {
-    const newStatus = currentStatus === 'paid' ? 'unpaid' : 'paid';
-    const paymentDate = newStatus === 'paid' ? new Date() : undefined;
-
-    updatePermanentClient(clientId, { 
-      paymentStatus: newStatus,
-      paymentDate 
-    });
-
-    toast({
-      title: "Payment status updated",
-      description: `Status changed to ${newStatus}`,
-    });
+  // Most recent payment on any of the client's invoices
+  const getLastPayment = (clientId: string) => {
+    return getClientInvoices(invoices, clientId)
+      .flatMap(invoice => invoice.payments)
+      .sort((a, b) => b.paidAt.localeCompare(a.paidAt))[0];
   };
 
   const handleRemoveClient = (clientId: string, vehicleNumber: string) => {
@@ -132,14 +146,56 @@ const PermanentClients: React.FC = () => {
     });
   };
 
-  const generateReceipt = (client: any) => {
-    const barcode = generateBarcode(client.number, new Date());
-    setCurrentReceipt({
-      ...client,
-      barcode,
-      receiptDate: new Date()
-    });
-    setShowReceipt(true);
+  // Pass codes are signed by the server, so cards can only be issued while it is reachable
+  const openPassCards = async (clients: Vehicle[], clientId?: string) => {
+    try {
+      const codes = await apiService.getPassCodes(clientId);
+      const cards = clients.flatMap(client => {
+        const pass = codes.find(candidate => candidate.clientId === client.id);
+        return pass ? [{ client, code: pass.code }] : [];
+      });
+      if (cards.length === 0) {
+        toast({
+          title: "No pass cards",
+          description: "There are no clients to print pass cards for",
+          variant: "destructive"
+        });
+        return;
+      }
+      setPassCards(cards);
+    } catch (error) {
+      toast({
+        title: "Error",
+        description: "Pass cards can only be printed while the server is reachable",
+        variant: "destructive"
+      });
+    }
+  };
+
+  const startRenewal = (client: Vehicle) => {
+    setRenewingClient(client);
+    setRenewalPlanId(getPlan(getPlansFor(client.type), client.planId)?.id || getPlansFor(client.type)[0]?.id || '');
+  };
+
+  const handleRenewal = async () => {
+    if (!renewingClient || !renewalPlanId) return;
+    setRenewing(true);
+    try {
+      const { client, invoice } = await renewPermanentClient(renewingClient.id, renewalPlanId);
+      toast({
+        title: "Subscription renewed",
+        description: `${client.number} is covered until ${client.endDate}; ${formatCurrency(invoice.amount)} invoiced`,
+      });
+      setRenewingClient(null);
+    } catch (error) {
+      toast({
+        title: "Renewal failed",
+        description: error instanceof Error ? error.message : "Renewals can only be made while the server is reachable",
+        variant: "destructive"
+      });
+    } finally {
+      setRenewing(false);
+    }
   };
 
   const handleEditClient = (client: any) => {
@@ -198,48 +254,19 @@ const PermanentClients: React.FC = () => {
     });
   };
 
-  // Generate barcode when receipt is shown
-  useEffect(() => {
-    if (showReceipt && currentReceipt && barcodeRef.current) {
-      try {
-        JsBarcode(barcodeRef.current, currentReceipt.barcode, {
-          format: "CODE128",
-          width: 2,
-          height: 50,
-          displayValue: false
-        });
-      } catch (error) {
-        console.error('Error generating barcode:', error);
-      }
-    }
-  }, [showReceipt, currentReceipt]);
-
-  const printReceipt = () => {
-    const printContent = document.getElementById('permanent-receipt-content');
+  const printPassCards = () => {
+    const printContent = document.getElementById('pass-cards-content');
     if (printContent) {
       const printWindow = window.open('', '_blank');
       if (printWindow) {
         printWindow.document.write(`
           <html>
             <head>
-              <title>Permanent Vehicle Receipt</title>
+              <title>Pass Cards</title>
               <style>
-                body { font-family: 'Courier New', monospace; margin: 0; padding: 15px; font-weight: bold; }
-                .receipt { max-width: 300px; margin: 0 auto; text-align: center; }
-                .receipt h3 { margin: 0 0 20px 0; font-size: 18px; font-weight: bold; }
-                .receipt div { font-size: 14px; line-height: 1.8; font-weight: bold; }
-                .flex { display: flex; justify-content: space-between; margin-bottom: 8px; font-weight: bold; }
-                .font-semibold { font-weight: bold; }
-                .border-t { border-top: 2px dashed #000; padding-top: 12px; margin-bottom: 12px; }
-                .barcode-container { margin: 15px 0; }
-                .text-xs { font-size: 12px; margin-top: 15px; font-weight: bold; }
-                @media print {
-                  body { margin: 0; padding: 8px; font-weight: bold; }
-                  .receipt { max-width: none; width: 100%; }
-                  .border-2 { border: none !important; }
-                  .bg-muted\/50 { background: none !important; }
-                  * { font-weight: bold !important; }
-                }
+                @page { margin: 5mm; }
+                body { margin: 0; -webkit-print-color-adjust: exact; print-color-adjust: exact; }
+                .pass-cards { display: flex; flex-wrap: wrap; }
               </style>
             </head>
             <body>
@@ -260,85 +287,132 @@ const PermanentClients: React.FC = () => {
     client.cnic?.toLowerCase().includes(searchTerm.toLowerCase())
   );
 
-  const paidClients = filteredClients.filter(client => client.paymentStatus === 'paid');
-  const unpaidClients = filteredClients.filter(client => client.paymentStatus === 'unpaid');
-
-  const ClientCard = ({ client }: { client: any }) => (
-    <Card key={client.id} className="mb-4">
-      <CardContent className="p-4">
-        <div className="flex justify-between items-start">
-          <div className="space-y-2">
-            <div className="flex items-center gap-2">
-              <span className="font-semibold">{client.number}</span>
-              <Badge variant={client.type === 'car' ? 'default' : client.type === 'bike' ? 'secondary' : 'outline'}>
-                {client.type.toUpperCase()}
-              </Badge>
+  // Batch printing covers every paid-up client, not just the ones matching the search
+  const passClients = permanentClients.filter(client => getClientBillingStatus(invoices, client.id) === 'paid');
+  const paidClients = filteredClients.filter(client => getClientBillingStatus(invoices, client.id) === 'paid');
+  const dueClients = filteredClients.filter(client => getClientBillingStatus(invoices, client.id) === 'due');
+  const overdueClients = filteredClients.filter(client => getClientBillingStatus(invoices, client.id) === 'overdue');
+  // Soonest to lapse first
+  const expiringClients = filteredClients
+    .filter(client => isExpiringSoon(client))
+    .sort((a, b) => (a.endDate || '').localeCompare(b.endDate || ''));
+
+  const renewalPlan = renewingClient ? getPlan(getPlansFor(renewingClient.type), renewalPlanId) : undefined;
+  const renewalStart = renewingClient ? getRenewalStart(renewingClient, invoices) : '';
+
+  const ClientCard = ({ client }: { client: any }) => {
+    const status = getClientBillingStatus(invoices, client.id);
+    const balance = getClientBalance(invoices, client.id);
+    const lastPayment = getLastPayment(client.id);
+    const plan = getPlan(plans, client.planId);
+    const daysLeft = getDaysLeft(client);
+    return (
+      <Card key={client.id} className="mb-4">
+        <CardContent className="p-4">
+          <div className="flex justify-between items-start">
+            <div className="space-y-2">
+              <div className="flex items-center gap-2">
+                <span className="font-semibold">{client.number}</span>
+                <Badge variant="secondary">
+                  {getVehicleLabel(vehicleTypes, client.type).toUpperCase()}
+                </Badge>
+              </div>
+              {client.clientName && (
+                <p className="text-sm font-medium">{client.clientName}</p>
+              )}
+              <p className="text-sm text-muted-foreground">CNIC: {client.cnic}</p>
+              <p className="text-sm text-muted-foreground">Contact: {client.contact || '-'}</p>
+              {client.planId ? (
+                <>
+                  <p className="text-sm">
+                    Plan: {plan ? `${plan.name} (${getPlanHoursLabel(plan.hours)})` : 'Removed plan'}
+                  </p>
+                  <p className="text-sm text-muted-foreground">Valid: {client.startDate} to {client.endDate}</p>
+                </>
+              ) : (
+                <p className="text-sm">Monthly Fee: {formatCurrency(client.monthlyFee || 0)}</p>
+              )}
+              {balance > 0 && (
+                <p className="text-sm font-semibold">Outstanding: {formatCurrency(balance)}</p>
+              )}
+              {lastPayment && (
+                <p className="text-xs text-muted-foreground">
+                  Last Payment: {new Date(lastPayment.paidAt).toLocaleDateString()}
+                </p>
+              )}
             </div>
-            {client.clientName && (
-              <p className="text-sm font-medium">{client.clientName}</p>
-            )}
-            <p className="text-sm text-muted-foreground">CNIC: {client.cnic}</p>
-            <p className="text-sm text-muted-foreground">Contact: {client.contact || '-'}</p>
-            <p className="text-sm">Monthly Fee: {formatCurrency(client.monthlyFee || 0)}</p>
-            {client.paymentDate && (
-              <p className="text-xs text-muted-foreground">
-                Last Payment: {new Date(client.paymentDate).toLocaleDateString()}
-              </p>
-            )}
-          </div>
-          <div className="flex flex-col gap-2">
-            <Badge variant={client.paymentStatus === 'paid' ? 'default' : 'destructive'}>
-              {client.paymentStatus?.toUpperCase()}
-            </Badge>
-            <div className="flex gap-2">
-              <Button
-                size="sm"
-                onClick={() => generateReceipt(client)}
-                variant="outline"
-              >
-                <Receipt className="h-4 w-4" />
-              </Button>
-              <Button
-                size="sm"
-                variant="secondary"
-                onClick={() => handleEditClient(client)}
-              >
-                Edit
-              </Button>
-              <Button
-                size="sm"
-                onClick={() => togglePaymentStatus(client.id, client.paymentStatus)}
-                variant={client.paymentStatus === 'paid' ? 'outline' : 'default'}
-              >
-                Mark as {client.paymentStatus === 'paid' ? 'Unpaid' : 'Paid'}
-              </Button>
-              <AlertDialog>
-                <AlertDialogTrigger asChild>
-                  <Button size="sm" variant="destructive">
-                    <Trash2 className="h-4 w-4" />
+            <div className="flex flex-col gap-2">
+              <Badge variant={BILLING_STATUS_VARIANTS[status]}>
+                {BILLING_STATUS_LABELS[status].toUpperCase()}
+              </Badge>
+              {daysLeft !== undefined && daysLeft < 0 && (
+                <Badge variant="destructive">EXPIRED</Badge>
+              )}
+              {daysLeft !== undefined && daysLeft >= 0 && daysLeft <= 7 && (
+                <Badge variant="secondary">{daysLeft === 0 ? 'ENDS TODAY' : `${daysLeft} DAYS LEFT`}</Badge>
+              )}
+              <div className="flex gap-2">
+                <Button
+                  size="sm"
+                  onClick={() => openPassCards([client], client.id)}
+                  variant="outline"
+                  title="Pass card"
+                >
+                  <CreditCard className="h-4 w-4" />
+                </Button>
+                {getPlansFor(client.type).length > 0 && (
+                  <Button
+                    size="sm"
+                    variant="outline"
+                    onClick={() => startRenewal(client)}
+                  >
+                    <RefreshCw className="h-4 w-4 mr-1" />
+                    Renew
                   </Button>
-                </AlertDialogTrigger>
-                <AlertDialogContent>
-                  <AlertDialogHeader>
-                    <AlertDialogTitle>Remove Permanent Client</AlertDialogTitle>
-                    <AlertDialogDescription>
-                      Are you sure you want to remove vehicle <strong>{client.number}</strong> from permanent clients? This action cannot be undone.
-                    </AlertDialogDescription>
-                  </AlertDialogHeader>
-                  <AlertDialogFooter>
-                    <AlertDialogCancel>Cancel</AlertDialogCancel>
-                    <AlertDialogAction onClick={() => handleRemoveClient(client.id, client.number)}>
-                      Remove Client
-                    </AlertDialogAction>
-                  </AlertDialogFooter>
-                </AlertDialogContent>
-              </AlertDialog>
+                )}
+                <Button
+                  size="sm"
+                  variant="secondary"
+                  onClick={() => handleEditClient(client)}
+                >
+                  Edit
+                </Button>
+                <Button
+                  size="sm"
+                  onClick={() => setLedgerClient(client)}
+                  variant={status === 'paid' ? 'outline' : 'default'}
+                >
+                  <BookOpen className="h-4 w-4 mr-1" />
+                  Ledger
+                </Button>
+                <AlertDialog>
+                  <AlertDialogTrigger asChild>
+                    <Button size="sm" variant="destructive">
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </AlertDialogTrigger>
+                  <AlertDialogContent>
+                    <AlertDialogHeader>
+                      <AlertDialogTitle>Remove Permanent Client</AlertDialogTitle>
+                      <AlertDialogDescription>
+                        Are you sure you want to remove vehicle <strong>{client.number}</strong> from permanent clients? This action cannot be undone.
+                      </AlertDialogDescription>
+                    </AlertDialogHeader>
+                    <AlertDialogFooter>
+                      <AlertDialogCancel>Cancel</AlertDialogCancel>
+                      <AlertDialogAction onClick={() => handleRemoveClient(client.id, client.number)}>
+                        Remove Client
+                      </AlertDialogAction>
+                    </AlertDialogFooter>
+                  </AlertDialogContent>
+                </AlertDialog>
+              </div>
             </div>
           </div>
-        </div>
-      </CardContent>
-    </Card>
-  );
+        </CardContent>
+      </Card>
+    );
+  };
 
   return (
     <div className="space-y-6">
@@ -388,14 +462,14 @@ const PermanentClients: React.FC = () => {
                 value={editingClient.monthlyFee || ''}
                 onChange={e => setEditingClient({ ...editingClient, monthlyFee: e.target.value })}
               />
-              <Select value={editingClient.type} onValueChange={(value: 'car' | 'bike' | 'rickshaw') => setEditingClient({ ...editingClient, type: value })}>
+              <Select value={editingClient.type} onValueChange={(value) => setEditingClient({ ...editingClient, type: value })}>
                 <SelectTrigger>
                   <SelectValue placeholder="Select vehicle type" />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="car">Car</SelectItem>
-                  <SelectItem value="bike">Bike</SelectItem>
-                  <SelectItem value="rickshaw">Rickshaw</SelectItem>
+                  {vehicleTypes.map(category => (
+                    <SelectItem key={category.id} value={category.id}>{category.label}</SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
               <div className="flex gap-2 justify-end">
@@ -406,6 +480,7 @@ const PermanentClients: React.FC = () => {
           </Card>
         </div>
       )}
+      <ClientImportDialog open={importOpen} onClose={() => setImportOpen(false)} />
       <Tabs defaultValue="registration" className="w-full">
         <TabsList>
           <TabsTrigger value="registration">Registration</TabsTrigger>
@@ -415,9 +490,15 @@ const PermanentClients: React.FC = () => {
         <TabsContent value="registration">
           <Card>
             <CardHeader>
-              <CardTitle className="flex items-center">
-                <UserPlus className="h-5 w-5 mr-2" />
-                Register Permanent Client
+              <CardTitle className="flex items-center justify-between">
+                <span className="flex items-center">
+                  <UserPlus className="h-5 w-5 mr-2" />
+                  Register Permanent Client
+                </span>
+                <Button size="sm" variant="outline" onClick={() => setImportOpen(true)}>
+                  <FileSpreadsheet className="h-4 w-4 mr-2" />
+                  Import Spreadsheet
+                </Button>
               </CardTitle>
             </CardHeader>
             <CardContent className="space-y-4">
@@ -447,22 +528,14 @@ const PermanentClients: React.FC = () => {
                     setCnic(formatted);
                   }}
                 />
-                <Input className="text-lg"
-                  placeholder="Negotiated monthly fee (PKR)"
-                  type="number"
-                  value={monthlyFee}
-                  onChange={(e) => setMonthlyFee(e.target.value)}
-                />
-              </div>
-              <div className="grid gap-4 md:grid-cols-2">
-                <Select value={vehicleType} onValueChange={(value: 'car' | 'bike' | 'rickshaw') => setVehicleType(value)}>
+                <Select value={vehicleType} onValueChange={setSelectedType}>
                   <SelectTrigger>
                     <SelectValue placeholder="Select vehicle type" />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="car">Car</SelectItem>
-                    <SelectItem value="bike">Bike</SelectItem>
-                    <SelectItem value="rickshaw">Rickshaw</SelectItem>
+                    {vehicleTypes.map(category => (
+                      <SelectItem key={category.id} value={category.id}>{category.label}</SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
                 <Input className="text-lg"
@@ -477,6 +550,33 @@ const PermanentClients: React.FC = () => {
                   }}
                 />
               </div>
+              <div className="grid gap-4 md:grid-cols-2">
+                <Select value={selectedPlan ? selectedPlan.id : 'custom'} onValueChange={(value) => setPlanId(value === 'custom' ? '' : value)}>
+                  <SelectTrigger>
+                    <SelectValue placeholder="Select plan" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="custom">Negotiated monthly fee</SelectItem>
+                    {getPlansFor(vehicleType).map(plan => (
+                      <SelectItem key={plan.id} value={plan.id}>
+                        {plan.name}: {formatCurrency(plan.prices[vehicleType])}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                {selectedPlan ? (
+                  <p className="text-sm text-muted-foreground self-center">
+                    {PLAN_TERMS.find(term => term.months === selectedPlan.months)?.label || `${selectedPlan.months} months`}, {getPlanHoursLabel(selectedPlan.hours).toLowerCase()}, valid {getCurrentDay()} to {getTermEnd(getCurrentDay(), selectedPlan.months)}
+                  </p>
+                ) : (
+                  <Input className="text-lg"
+                    placeholder="Negotiated monthly fee (PKR)"
+                    type="number"
+                    value={monthlyFee}
+                    onChange={(e) => setMonthlyFee(e.target.value)}
+                  />
+                )}
+              </div>
               <Button onClick={handleRegistration} className="w-full">
                 Register Client
               </Button>
@@ -490,6 +590,10 @@ const PermanentClients: React.FC = () => {
               <CardTitle className="flex items-center justify-between">
                 Registration History
                 <div className="flex items-center gap-2">
+                  <Button size="sm" variant="outline" onClick={() => openPassCards(passClients)}>
+                    <Printer className="h-4 w-4 mr-2" />
+                    Print Paid Passes ({passClients.length})
+                  </Button>
                   <Search className="h-4 w-4" />
                   <Input className="text-lg"
                     placeholder="Search by vehicle number or CNIC"
@@ -505,7 +609,9 @@ const PermanentClients: React.FC = () => {
                 <TabsList>
                   <TabsTrigger value="all">All ({filteredClients.length})</TabsTrigger>
                   <TabsTrigger value="paid">Paid ({paidClients.length})</TabsTrigger>
-                  <TabsTrigger value="unpaid">Unpaid ({unpaidClients.length})</TabsTrigger>
+                  <TabsTrigger value="due">Due ({dueClients.length})</TabsTrigger>
+                  <TabsTrigger value="overdue">Overdue ({overdueClients.length})</TabsTrigger>
+                  <TabsTrigger value="expiring">Expiring (7 days) ({expiringClients.length})</TabsTrigger>
                 </TabsList>
 
                 <TabsContent value="all" className="mt-4">
@@ -528,12 +634,32 @@ const PermanentClients: React.FC = () => {
                   )}
                 </TabsContent>
 
-                <TabsContent value="unpaid" className="mt-4">
-                  {unpaidClients.length === 0 ? (
-                    <p className="text-center text-muted-foreground py-8">No unpaid clients found</p>
+                <TabsContent value="due" className="mt-4">
+                  {dueClients.length === 0 ? (
+                    <p className="text-center text-muted-foreground py-8">No clients with invoices due</p>
                   ) : (
                     <div className="space-y-4">
-                      {unpaidClients.map(client => <ClientCard key={client.id} client={client} />)}
+                      {dueClients.map(client => <ClientCard key={client.id} client={client} />)}
+                    </div>
+                  )}
+                </TabsContent>
+
+                <TabsContent value="overdue" className="mt-4">
+                  {overdueClients.length === 0 ? (
+                    <p className="text-center text-muted-foreground py-8">No overdue clients found</p>
+                  ) : (
+                    <div className="space-y-4">
+                      {overdueClients.map(client => <ClientCard key={client.id} client={client} />)}
+                    </div>
+                  )}
+                </TabsContent>
+
+                <TabsContent value="expiring" className="mt-4">
+                  {expiringClients.length === 0 ? (
+                    <p className="text-center text-muted-foreground py-8">No subscriptions ending in the next 7 days</p>
+                  ) : (
+                    <div className="space-y-4">
+                      {expiringClients.map(client => <ClientCard key={client.id} client={client} />)}
                     </div>
                   )}
                 </TabsContent>
@@ -543,75 +669,79 @@ const PermanentClients: React.FC = () => {
         </TabsContent>
       </Tabs>
 
-      {/* Receipt Modal */}
-      {showReceipt && currentReceipt && (
+      <ClientLedger client={ledgerClient} onClose={() => setLedgerClient(null)} />
+
+      <Dialog open={!!renewingClient} onOpenChange={(open) => { if (!open) setRenewingClient(null); }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Renew Subscription: {renewingClient?.number}</DialogTitle>
+          </DialogHeader>
+          {renewingClient && (
+            <div className="space-y-4">
+              <Select value={renewalPlanId} onValueChange={setRenewalPlanId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select plan" />
+                </SelectTrigger>
+                <SelectContent>
+                  {getPlansFor(renewingClient.type).map(plan => (
+                    <SelectItem key={plan.id} value={plan.id}>{plan.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              {renewalPlan && (
+                <div className="text-sm space-y-1">
+                  <p>Hours: {getPlanHoursLabel(renewalPlan.hours)}</p>
+                  <p>New term: {renewalStart} to {getTermEnd(renewalStart, renewalPlan.months)}</p>
+                  <p className="font-semibold">Invoice: {formatCurrency(renewalPlan.prices[renewingClient.type])}</p>
+                </div>
+              )}
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRenewingClient(null)}>Cancel</Button>
+            <Button onClick={handleRenewal} disabled={!renewalPlan || renewing}>Renew</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      {/* Pass Cards Modal */}
+      {passCards && (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/50">
-          <Card className="bg-white rounded-lg max-w-md w-full mx-4">
+          <Card className="bg-white rounded-lg max-w-3xl w-full mx-4 max-h-[90vh] overflow-y-auto">
             <CardHeader>
               <CardTitle className="flex justify-between items-center">
-                Permanent Vehicle Receipt
+                Pass {passCards.length === 1 ? 'Card' : `Cards (${passCards.length})`}
                 <div className="flex gap-2">
-                  <Button onClick={printReceipt} size="sm">
+                  <Button onClick={printPassCards} size="sm">
                     <Printer className="h-4 w-4 mr-2" />
                     Print
                   </Button>
-                  <Button onClick={() => setShowReceipt(false)} variant="outline" size="sm">
+                  <Button onClick={() => setPassCards(null)} variant="outline" size="sm">
                     Close
                   </Button>
                 </div>
               </CardTitle>
             </CardHeader>
-            <CardContent className="space-y-3">
-              <div id="permanent-receipt-content" className="text-center border-2 border-dashed border-border p-4 bg-muted/50">
-                <div className="receipt">
-                  <h3 className="font-bold text-lg mb-4">{settings.siteName || 'PARKING RECEIPT'}</h3>
-                  <div className="text-sm font-mono" style={{lineHeight: '1.8'}}>
-                    <div className="flex justify-between mb-2">
-                      <span className="font-semibold">Name:</span>
-                      <span>{currentReceipt.clientName || 'N/A'}</span>
-                    </div>
-                    <div className="flex justify-between mb-2">
-                      <span className="font-semibold">Contact:</span>
-                      <span>{currentReceipt.contact || '-'}</span>
-                    </div>
-                    <div className="flex justify-between mb-2">
-                      <span className="font-semibold">Date:</span>
-                      <span>{new Date(currentReceipt.receiptDate).toLocaleDateString()}</span>
-                    </div>
-                    <div className="flex justify-between mb-2">
-                      <span className="font-semibold">Vehicle Number:</span>
-                      <span>{currentReceipt.number}</span>
-                    </div>
-                    <div className="flex justify-between mb-2">
-                      <span className="font-semibold">CNIC:</span>
-                      <span>{currentReceipt.cnic}</span>
-                    </div>
-                    <div className="flex justify-between mb-2">
-                      <span className="font-semibold">Vehicle Type:</span>
-                      <span>{currentReceipt.type.toUpperCase()}</span>
-                    </div>
-                    <div className="flex justify-between mb-2">
-                      <span className="font-semibold">Monthly Fee:</span>
-                      <span>{formatCurrency(currentReceipt.monthlyFee || 0)}</span>
-                    </div>
-                    <div className="flex justify-between mb-2">
-                      <span className="font-semibold">Payment Status:</span>
-                      <span>{currentReceipt.paymentStatus?.toUpperCase()}</span>
-                    </div>
-                    {currentReceipt.paymentDate && (
-                      <div className="flex justify-between mb-4">
-                        <span className="font-semibold">Payment Date:</span>
-                        <span>{new Date(currentReceipt.paymentDate).toLocaleDateString()}</span>
-                      </div>
-                    )}
-                    <div className="border-t border-dashed border-gray-400 pt-3 mb-3"></div>
-                    <div className="barcode-container mb-3">
-                      <svg ref={barcodeRef}></svg>
-                      <p className="text-xs mt-2 text-muted-foreground">Permanent Vehicle ID</p>
-                    </div>
-                    <div className="border-t border-dashed border-gray-400 pt-3"></div>
-                    <p className="text-xs mt-3 font-normal">Keep this receipt for your records</p>
-                  </div>
+            <CardContent>
+              <div id="pass-cards-content">
+                <div className="pass-cards flex flex-wrap justify-center">
+                  {passCards.map(({ client, code }) => {
+                    // A plan client is good until its term ends once the term is paid for
+                    const paidThrough = getPaidThroughPeriod(invoices, client.id);
+                    const validFor = client.endDate
+                      ? getClientBillingStatus(invoices, client.id) === 'paid' ? `to ${client.endDate}` : undefined
+                      : paidThrough ? formatPeriod(paidThrough) : undefined;
+                    return (
+                      <PassCard
+                        key={client.id}
+                        client={client}
+                        code={code}
+                        siteName={settings.siteName || 'PARKING'}
+                        vehicleLabel={getVehicleLabel(vehicleTypes, client.type)}
+                        validFor={validFor}
+                      />
+                    );
+                  })}
                 </div>
               </div>
             </CardContent>
@@ -0,0 +1,339 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Dialog, DialogContent, DialogFooter, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useParkingContext } from '@/contexts/ParkingContext';
+import { useToast } from '@/hooks/use-toast';
+import { apiService, getCounterCode, ApiError } from '@/services/api';
+import { Shift, Vehicle } from '@/types/parking';
+import { formatCurrency, formatTime } from '@/utils/calculations';
+import { getPaymentMethodLabel, PAYMENT_METHODS } from '@/utils/payments';
+import { hasRole } from '@/utils/permissions';
+import { buildShiftReport } from '@/utils/shifts';
+import { Clock, FileText, Printer, Wallet } from 'lucide-react';
+
+const describeVariance = (variance: number): string => {
+  if (variance === 0) return 'Balanced';
+  return variance > 0 ? `Over by ${formatCurrency(variance)}` : `Short by ${formatCurrency(-variance)}`;
+};
+
+// The Z-report as printed on the thermal printer; the same markup is shown on screen first
+const ZReport: React.FC<{ shift: Shift; vehicles: Vehicle[]; siteName: string }> = ({ shift, vehicles, siteName }) => {
+  const report = buildShiftReport(shift, vehicles);
+  return (
+    <div className="receipt">
+      <h3 className="font-bold text-lg mb-1">{siteName}</h3>
+      <div className="font-semibold mb-3">Z-REPORT - COUNTER {shift.counter}</div>
+      <div className="space-y-1 text-sm">
+        <div className="flex justify-between"><span>Opened:</span><span>{formatTime(new Date(shift.openedAt))}</span></div>
+        <div className="flex justify-between"><span>Opened By:</span><span>{shift.openedBy}</span></div>
+        {shift.closedAt && (
+          <>
+            <div className="flex justify-between"><span>Closed:</span><span>{formatTime(new Date(shift.closedAt))}</span></div>
+            <div className="flex justify-between"><span>Closed By:</span><span>{shift.closedBy}</span></div>
+          </>
+        )}
+        <div className="border-t pt-2 mt-2 flex justify-between"><span>Entries:</span><span>{report.entries}</span></div>
+        <div className="flex justify-between"><span>Exits:</span><span>{report.exits}</span></div>
+        {PAYMENT_METHODS.filter(method => report.incomeByMethod[method.id]).map(method => (
+          <div key={method.id} className="flex justify-between">
+            <span>{getPaymentMethodLabel(method.id)}:</span><span>{formatCurrency(report.incomeByMethod[method.id] || 0)}</span>
+          </div>
+        ))}
+        <div className="flex justify-between font-semibold"><span>Total Income:</span><span>{formatCurrency(report.totalIncome)}</span></div>
+        <div className="flex justify-between"><span>Discounts ({report.discountCount}):</span><span>{formatCurrency(report.discountTotal)}</span></div>
+        <div className="flex justify-between"><span>Lost Tickets:</span><span>{report.lostTickets}</span></div>
+        <div className="border-t pt-2 mt-2 flex justify-between"><span>Opening Float:</span><span>{formatCurrency(shift.openingFloat)}</span></div>
+        <div className="flex justify-between"><span>Expected Cash:</span><span>{formatCurrency(report.expectedCash)}</span></div>
+        {report.countedCash !== undefined && report.variance !== undefined && (
+          <>
+            <div className="flex justify-between"><span>Counted Cash:</span><span>{formatCurrency(report.countedCash)}</span></div>
+            <div className="flex justify-between font-semibold"><span>Variance:</span><span>{describeVariance(report.variance)}</span></div>
+          </>
+        )}
+        {shift.note && <div className="border-t pt-2 mt-2 text-left">Note: {shift.note}</div>}
+      </div>
+    </div>
+  );
+};
+
+const ShiftManagement: React.FC = () => {
+  const { currentShift, openShift, closeShift, vehicles, settings, currentUser, pendingOperations } = useParkingContext();
+  const { toast } = useToast();
+  const [openingFloat, setOpeningFloat] = useState('');
+  const [countedCash, setCountedCash] = useState('');
+  const [note, setNote] = useState('');
+  const [reportShift, setReportShift] = useState<Shift | null>(null);
+  // Vehicles fetched for an earlier shift's report; null means the shift is covered by the loaded vehicles
+  const [reportVehicles, setReportVehicles] = useState<Vehicle[] | null>(null);
+  const [recentShifts, setRecentShifts] = useState<Shift[]>([]);
+  const canReviewShifts = hasRole(currentUser?.role, 'supervisor');
+
+  const loadRecentShifts = async () => {
+    try {
+      setRecentShifts(await apiService.getShifts());
+    } catch (error) {
+      console.error('Failed to load shifts:', error);
+    }
+  };
+
+  useEffect(() => {
+    if (canReviewShifts) loadRecentShifts();
+  }, [canReviewShifts]);
+
+  const handleOpen = async () => {
+    if (openingFloat === '') {
+      toast({ title: 'Error', description: 'Enter the opening float, or 0 for an empty drawer', variant: 'destructive' });
+      return;
+    }
+    try {
+      await openShift(Math.max(0, parseInt(openingFloat) || 0));
+      setOpeningFloat('');
+      toast({ title: 'Shift opened', description: `Entries and exits on counter ${getCounterCode()} now count towards this shift` });
+    } catch (error) {
+      const description = !(error instanceof ApiError)
+        ? 'The server could not be reached. Shifts can only be opened online.'
+        : error.status === 409
+          ? 'A shift is already open on this counter'
+          : 'Failed to open shift';
+      toast({ title: 'Error', description, variant: 'destructive' });
+    }
+  };
+
+  const handleClose = async () => {
+    if (countedCash === '') {
+      toast({ title: 'Error', description: 'Count the cash in the drawer and enter the total', variant: 'destructive' });
+      return;
+    }
+    // Queued exits are not on the server yet, so its expected cash would come up short
+    if (pendingOperations > 0) {
+      toast({ title: 'Error', description: 'Wait for pending operations to sync before closing the shift', variant: 'destructive' });
+      return;
+    }
+    try {
+      const closed = await closeShift(Math.max(0, parseInt(countedCash) || 0), note.trim() || undefined);
+      setCountedCash('');
+      setNote('');
+      setReportVehicles(null);
+      setReportShift(closed);
+      if (canReviewShifts) loadRecentShifts();
+      // Wait for the report dialog to render, then print it
+      setTimeout(printZReport, 350);
+    } catch (error) {
+      toast({ title: 'Error', description: 'Failed to close shift. Check the connection and try again.', variant: 'destructive' });
+    }
+  };
+
+  // Only today's and the open shift's vehicles are held in memory, so an earlier shift's come from the server
+  const showShiftReport = async (shift: Shift) => {
+    try {
+      setReportVehicles(await apiService.getShiftVehicles(shift.id));
+      setReportShift(shift);
+    } catch (error) {
+      toast({ title: 'Error', description: 'Failed to load the vehicles for this shift', variant: 'destructive' });
+    }
+  };
+
+  const printZReport = () => {
+    const printContent = document.getElementById('z-report-content');
+    if (printContent) {
+      const printWindow = window.open('', '_blank');
+      if (printWindow) {
+        printWindow.document.write(`
+          <html>
+            <head>
+              <title>Z-Report</title>
+              <style>
+                body { font-family: 'Courier New', monospace; margin: 0; padding: 15px; font-weight: bold; }
+                .receipt { max-width: 300px; margin: 0 auto; text-align: center; }
+                .receipt h3 { margin: 0 0 10px 0; font-size: 18px; font-weight: bold; }
+                .receipt div { font-size: 14px; line-height: 1.6; font-weight: bold; }
+                .flex { display: flex; justify-content: space-between; margin-bottom: 4px; font-weight: bold; }
+                .border-t { border-top: 2px dashed #000; padding-top: 8px; margin-top: 8px; }
+                .text-left { text-align: left; }
+                @media print {
+                  body { margin: 0; padding: 8px; font-weight: bold; }
+                  .receipt { max-width: none; width: 100%; }
+                  * { font-weight: bold !important; }
+                }
+              </style>
+            </head>
+            <body>
+              ${printContent.innerHTML}
+            </body>
+          </html>
+        `);
+        printWindow.document.close();
+        printWindow.print();
+        printWindow.close();
+      }
+    }
+  };
+
+  const liveReport = currentShift ? buildShiftReport(currentShift, vehicles) : null;
+  const liveVariance = liveReport && countedCash !== '' ? (parseInt(countedCash) || 0) - liveReport.expectedCash : undefined;
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <Wallet className="h-5 w-5 mr-2" />
+            Counter {getCounterCode()} Shift
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {!currentShift || !liveReport ? (
+            <>
+              <p className="text-sm text-muted-foreground">
+                No shift is open. Count the starting cash in the drawer and open a shift so entries and exits are counted in its cash-up.
+              </p>
+              <div className="flex gap-2 items-end">
+                <div>
+                  <Label>Opening Float (PKR)</Label>
+                  <Input type="number" min={0} value={openingFloat} onChange={(e) => setOpeningFloat(e.target.value)} className="w-40" />
+                </div>
+                <Button onClick={handleOpen}>Open Shift</Button>
+              </div>
+            </>
+          ) : (
+            <>
+              <div className="grid gap-4 grid-cols-2 md:grid-cols-4 text-sm">
+                <div>
+                  <div className="text-muted-foreground">Opened</div>
+                  <div className="font-semibold">{formatTime(new Date(currentShift.openedAt))} by {currentShift.openedBy}</div>
+                </div>
+                <div>
+                  <div className="text-muted-foreground">Entries / Exits</div>
+                  <div className="font-semibold">{liveReport.entries} / {liveReport.exits}</div>
+                </div>
+                <div>
+                  <div className="text-muted-foreground">Income</div>
+                  <div className="font-semibold">{formatCurrency(liveReport.totalIncome)}</div>
+                  <div className="text-xs text-muted-foreground">
+                    {PAYMENT_METHODS.filter(method => liveReport.incomeByMethod[method.id])
+                      .map(method => `${method.label} ${formatCurrency(liveReport.incomeByMethod[method.id] || 0)}`).join(', ')}
+                  </div>
+                </div>
+                <div>
+                  <div className="text-muted-foreground">Expected Cash</div>
+                  <div className="font-semibold">{formatCurrency(liveReport.expectedCash)}</div>
+                  <div className="text-xs text-muted-foreground">Float {formatCurrency(currentShift.openingFloat)} + cash exits</div>
+                </div>
+              </div>
+              <div className="border-t pt-4 space-y-3">
+                <h3 className="font-semibold">Close Shift</h3>
+                <div className="grid gap-3 md:grid-cols-2 items-end">
+                  <div>
+                    <Label>Counted Cash (PKR)</Label>
+                    <Input type="number" min={0} value={countedCash} onChange={(e) => setCountedCash(e.target.value)} />
+                  </div>
+                  {liveVariance !== undefined && (
+                    <div className={`text-lg font-semibold ${liveVariance < 0 ? 'text-destructive' : ''}`}>
+                      {describeVariance(liveVariance)}
+                    </div>
+                  )}
+                </div>
+                <div>
+                  <Label>Note</Label>
+                  <Textarea value={note} placeholder="Optional, e.g. why the drawer is short" onChange={(e) => setNote(e.target.value)} />
+                </div>
+                {pendingOperations > 0 && (
+                  <p className="text-sm text-orange-600">
+                    {pendingOperations} operation{pendingOperations === 1 ? ' is' : 's are'} waiting to sync. The shift can be closed once they reach the server.
+                  </p>
+                )}
+                <Button onClick={handleClose} variant="destructive" className="w-full">Close Shift and Print Z-Report</Button>
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      {canReviewShifts && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center">
+              <Clock className="h-5 w-5 mr-2" />
+              Recent Shifts
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {recentShifts.length === 0 ? (
+              <p className="text-center text-muted-foreground py-8">No shifts recorded yet</p>
+            ) : (
+              <div className="overflow-x-auto">
+                <table className="w-full border-collapse">
+                  <thead>
+                    <tr className="border-b">
+                      <th className="text-left p-3 font-semibold">Counter</th>
+                      <th className="text-left p-3 font-semibold">Opened</th>
+                      <th className="text-left p-3 font-semibold">Closed</th>
+                      <th className="text-left p-3 font-semibold">Expected</th>
+                      <th className="text-left p-3 font-semibold">Counted</th>
+                      <th className="text-left p-3 font-semibold">Variance</th>
+                      <th className="p-3"></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {recentShifts.map((shift) => {
+                      const variance = shift.countedCash !== undefined && shift.expectedCash !== undefined
+                        ? shift.countedCash - shift.expectedCash
+                        : undefined;
+                      return (
+                        <tr key={shift.id} className="border-b hover:bg-muted/50">
+                          <td className="p-3 font-semibold">{shift.counter}</td>
+                          <td className="p-3 text-sm">{formatTime(new Date(shift.openedAt))}<div className="text-xs text-muted-foreground">{shift.openedBy}</div></td>
+                          <td className="p-3 text-sm">
+                            {shift.closedAt ? formatTime(new Date(shift.closedAt)) : 'Open'}
+                            {shift.closedBy && <div className="text-xs text-muted-foreground">{shift.closedBy}</div>}
+                          </td>
+                          <td className="p-3 text-sm">{shift.expectedCash !== undefined ? formatCurrency(shift.expectedCash) : '-'}</td>
+                          <td className="p-3 text-sm">{shift.countedCash !== undefined ? formatCurrency(shift.countedCash) : '-'}</td>
+                          <td className={`p-3 text-sm font-semibold ${variance !== undefined && variance < 0 ? 'text-destructive' : ''}`}>
+                            {variance !== undefined ? describeVariance(variance) : '-'}
+                          </td>
+                          <td className="p-3">
+                            <Button size="sm" variant="outline" onClick={() => showShiftReport(shift)}>
+                              <FileText className="h-4 w-4 mr-1" />
+                              Z-Report
+                            </Button>
+                          </td>
+                        </tr>
+                      );
+                    })}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      <Dialog open={!!reportShift} onOpenChange={(open) => !open && setReportShift(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Z-Report</DialogTitle>
+          </DialogHeader>
+          {reportShift && (
+            <div id="z-report-content" className="text-center border-2 border-dashed border-border p-4 bg-muted/50">
+              <ZReport shift={reportShift} vehicles={reportVehicles ?? vehicles} siteName={settings.siteName} />
+            </div>
+          )}
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReportShift(null)}>Close</Button>
+            <Button onClick={printZReport}>
+              <Printer className="h-4 w-4 mr-2" />
+              Print
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default ShiftManagement;
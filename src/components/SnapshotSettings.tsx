@@ -0,0 +1,187 @@
+import React, { useEffect, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Switch } from '@/components/ui/switch';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
+import { useToast } from '@/hooks/use-toast';
+import { apiService } from '@/services/api';
+import { BackupSchedule, Snapshot } from '@/types/parking';
+import { formatTime } from '@/utils/calculations';
+import { Archive, RefreshCw } from 'lucide-react';
+
+const REASON_LABELS: Record<Snapshot['reason'], string> = {
+  scheduled: 'Scheduled',
+  manual: 'Manual',
+  'pre-restore': 'Before Restore'
+};
+
+const formatSize = (bytes: number): string => {
+  if (bytes < 1024) return `${bytes} B`;
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`;
+};
+
+interface SnapshotSettingsProps {
+  schedule: BackupSchedule;
+  onChange: (schedule: BackupSchedule) => void;
+  onSave: () => void;
+}
+
+// The schedule is saved with the rest of the settings; the snapshots themselves are listed and restored
+// straight from the server, so this card only works online
+const SnapshotSettings: React.FC<SnapshotSettingsProps> = ({ schedule, onChange, onSave }) => {
+  const [snapshots, setSnapshots] = useState<Snapshot[]>([]);
+  const [loadError, setLoadError] = useState('');
+  const [busy, setBusy] = useState(false);
+  const { toast } = useToast();
+
+  const refreshSnapshots = async () => {
+    try {
+      setSnapshots(await apiService.getSnapshots());
+      setLoadError('');
+    } catch (error) {
+      setLoadError(error instanceof Error ? error.message : 'Failed to list backups');
+    }
+  };
+
+  useEffect(() => {
+    refreshSnapshots();
+  }, []);
+
+  const handleTakeSnapshot = async () => {
+    setBusy(true);
+    try {
+      const snapshot = await apiService.takeSnapshot();
+      toast({ title: 'Backup taken', description: `${formatSize(snapshot.size)} saved on the server` });
+      await refreshSnapshots();
+    } catch (error) {
+      toast({ title: 'Backup failed', description: (error as Error).message, variant: 'destructive' });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  const handleRestore = async (snapshot: Snapshot) => {
+    setBusy(true);
+    try {
+      await apiService.restoreSnapshot(snapshot.id);
+      toast({
+        title: 'Backup restored',
+        description: `Data is back to ${formatTime(new Date(snapshot.createdAt))}. The data before the restore was kept as a backup.`,
+      });
+      await refreshSnapshots();
+    } catch (error) {
+      toast({ title: 'Restore failed', description: (error as Error).message, variant: 'destructive' });
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center justify-between">
+          <span className="flex items-center">
+            <Archive className="h-5 w-5 mr-2" />
+            Server Backups
+          </span>
+          <Button size="sm" variant="outline" onClick={refreshSnapshots}>
+            <RefreshCw className="h-4 w-4" />
+          </Button>
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between">
+          <p className="text-sm text-muted-foreground">Take a compressed backup of all data on a schedule</p>
+          <Switch checked={schedule.enabled} onCheckedChange={(enabled) => onChange({ ...schedule, enabled })} />
+        </div>
+        <div className="grid gap-4 md:grid-cols-2">
+          <div>
+            <Label>Every (hours)</Label>
+            <Input
+              type="number"
+              min={1}
+              value={schedule.intervalHours}
+              disabled={!schedule.enabled}
+              onChange={(e) => onChange({ ...schedule, intervalHours: Math.max(1, parseInt(e.target.value) || 1) })}
+            />
+          </div>
+          <div>
+            <Label>Backups to Keep</Label>
+            <Input
+              type="number"
+              min={1}
+              value={schedule.keep}
+              onChange={(e) => onChange({ ...schedule, keep: Math.max(1, parseInt(e.target.value) || 1) })}
+            />
+            <p className="text-xs text-muted-foreground mt-1">Older backups are deleted, whichever way they were taken</p>
+          </div>
+        </div>
+        <div className="flex gap-2">
+          <Button onClick={onSave} className="flex-1">Save Backup Schedule</Button>
+          <Button variant="outline" onClick={handleTakeSnapshot} disabled={busy}>Back Up Now</Button>
+        </div>
+
+        {loadError ? (
+          <p className="text-sm text-destructive">{loadError}</p>
+        ) : snapshots.length === 0 ? (
+          <p className="text-center text-muted-foreground py-4">No backups on the server yet</p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Taken</TableHead>
+                <TableHead>Type</TableHead>
+                <TableHead>Size</TableHead>
+                <TableHead>Vehicles</TableHead>
+                <TableHead>Clients</TableHead>
+                <TableHead>Invoices</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {snapshots.map(snapshot => (
+                <TableRow key={snapshot.id}>
+                  <TableCell>{formatTime(new Date(snapshot.createdAt))}</TableCell>
+                  <TableCell>
+                    <Badge variant={snapshot.reason === 'scheduled' ? 'secondary' : 'outline'}>{REASON_LABELS[snapshot.reason]}</Badge>
+                    {snapshot.createdBy && <span className="block text-xs text-muted-foreground">{snapshot.createdBy}</span>}
+                  </TableCell>
+                  <TableCell>{formatSize(snapshot.size)}</TableCell>
+                  <TableCell>{snapshot.counts?.vehicles ?? '-'}</TableCell>
+                  <TableCell>{snapshot.counts?.permanentClients ?? '-'}</TableCell>
+                  <TableCell>{snapshot.counts?.invoices ?? '-'}</TableCell>
+                  <TableCell>
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button size="sm" variant="destructive" disabled={busy}>Restore</Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Restore Backup</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            All data on the server will be replaced with the backup from <strong>{formatTime(new Date(snapshot.createdAt))}</strong> on every counter. The current data is backed up first.
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>Cancel</AlertDialogCancel>
+                          <AlertDialogAction onClick={() => handleRestore(snapshot)}>Restore</AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SnapshotSettings;
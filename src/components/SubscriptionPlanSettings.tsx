@@ -0,0 +1,118 @@
+import React from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useParkingContext } from '@/contexts/ParkingContext';
+import { PlanHours, SubscriptionPlan } from '@/types/parking';
+import { PLAN_HOURS, PLAN_TERMS } from '@/utils/plans';
+import { CalendarRange, Plus, Trash2 } from 'lucide-react';
+
+interface SubscriptionPlanSettingsProps {
+  plans: SubscriptionPlan[];
+  onChange: (plans: SubscriptionPlan[]) => void;
+  onSave: () => void;
+}
+
+// Plans are saved with the rest of the settings, so this only edits the list it is given
+const SubscriptionPlanSettings: React.FC<SubscriptionPlanSettingsProps> = ({ plans, onChange, onSave }) => {
+  const { vehicleTypes } = useParkingContext();
+
+  const updatePlan = (planId: string, changes: Partial<SubscriptionPlan>) => {
+    onChange(plans.map(plan => plan.id === planId ? { ...plan, ...changes } : plan));
+  };
+
+  // A blank price takes the vehicle type off the plan
+  const updatePrice = (plan: SubscriptionPlan, typeId: string, value: string) => {
+    const { [typeId]: _previous, ...prices } = plan.prices;
+    updatePlan(plan.id, { prices: value === '' ? prices : { ...prices, [typeId]: Math.max(0, parseInt(value) || 0) } });
+  };
+
+  const handleAddPlan = () => {
+    onChange([...plans, { id: Date.now().toString(), name: '', months: 1, hours: 'all', prices: {} }]);
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center">
+          <CalendarRange className="h-5 w-5 mr-2" />
+          Subscription Plans
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground">
+          Plans permanent clients can subscribe to. Each term is invoiced when it starts; leave a price blank for vehicle types the plan is not offered to
+        </p>
+        {plans.map(plan => (
+          <div key={plan.id} className="space-y-3 border rounded-md p-3">
+            <div className="grid gap-4 md:grid-cols-3">
+              <div>
+                <Label>Name</Label>
+                <Input
+                  value={plan.name}
+                  placeholder="e.g. Monthly Day"
+                  onChange={(e) => updatePlan(plan.id, { name: e.target.value })}
+                />
+              </div>
+              <div>
+                <Label>Term</Label>
+                <Select value={String(plan.months)} onValueChange={(value) => updatePlan(plan.id, { months: parseInt(value) })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PLAN_TERMS.map(term => (
+                      <SelectItem key={term.months} value={String(term.months)}>{term.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div>
+                <Label>Hours</Label>
+                <Select value={plan.hours} onValueChange={(value) => updatePlan(plan.id, { hours: value as PlanHours })}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {PLAN_HOURS.map(hours => (
+                      <SelectItem key={hours.id} value={hours.id}>{hours.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+            <div className="grid gap-4 md:grid-cols-3">
+              {vehicleTypes.map(type => (
+                <div key={type.id}>
+                  <Label>{type.label} (PKR per term)</Label>
+                  <Input
+                    type="number"
+                    min={0}
+                    value={plan.prices[type.id] ?? ''}
+                    placeholder="Not offered"
+                    onChange={(e) => updatePrice(plan, type.id, e.target.value)}
+                  />
+                </div>
+              ))}
+            </div>
+            <div className="flex justify-end">
+              <Button size="sm" variant="destructive" onClick={() => onChange(plans.filter(existing => existing.id !== plan.id))}>
+                <Trash2 className="h-4 w-4 mr-1" />
+                Remove Plan
+              </Button>
+            </div>
+          </div>
+        ))}
+        <Button variant="outline" onClick={handleAddPlan} className="w-full">
+          <Plus className="h-4 w-4 mr-1" />
+          Add Plan
+        </Button>
+        <Button onClick={onSave} className="w-full">Save Subscription Plans</Button>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default SubscriptionPlanSettings;
@@ -0,0 +1,78 @@
+import React from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { useParkingContext } from '@/contexts/ParkingContext';
+import { useToast } from '@/hooks/use-toast';
+import { formatCurrency, formatTime } from '@/utils/calculations';
+import { QueuedOperation } from '@/types/parking';
+
+interface SyncConflictsProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Offline operations the server turned down once the connection came back
+const SyncConflicts: React.FC<SyncConflictsProps> = ({ open, onOpenChange }) => {
+  const { syncConflicts, resolveConflict } = useParkingContext();
+  const { toast } = useToast();
+
+  const handleResolve = async (conflict: QueuedOperation, resolution: 'retry' | 'discard') => {
+    try {
+      await resolveConflict(conflict, resolution);
+      toast({
+        title: resolution === 'retry' ? 'Sent again' : 'Discarded',
+        description: `${conflict.vehicle.number.toUpperCase()} ${resolution === 'retry' ? 'has been sent to the server again' : 'has been removed from this counter'}`
+      });
+    } catch (error) {
+      toast({ title: 'Error', description: 'Failed to resolve conflict', variant: 'destructive' });
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle>Sync Conflicts</DialogTitle>
+          <DialogDescription>
+            These operations were recorded while offline and the server rejected them. Send again to record the vehicle on the server, or discard to drop it.
+          </DialogDescription>
+        </DialogHeader>
+        {syncConflicts.length === 0 ? (
+          <p className="text-center text-muted-foreground py-8">No conflicts</p>
+        ) : (
+          <div className="space-y-3 max-h-[60vh] overflow-y-auto">
+            {syncConflicts.map(conflict => (
+              <div key={conflict.seq} className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-3 border rounded">
+                <div className="space-y-1">
+                  <div className="flex items-center gap-2">
+                    <span className="font-semibold">{conflict.vehicle.number.toUpperCase()}</span>
+                    <Badge variant="outline">{conflict.vehicle.type.toUpperCase()}</Badge>
+                    <Badge variant={conflict.kind === 'vehicle.exit' ? 'destructive' : 'secondary'}>
+                      {conflict.kind === 'vehicle.exit' ? 'EXIT' : 'ENTRY'}
+                    </Badge>
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    Entered {formatTime(conflict.vehicle.entryTime)}
+                    {conflict.vehicle.exitTime && `, exited ${formatTime(conflict.vehicle.exitTime)} (${formatCurrency(conflict.vehicle.fee || 0)})`}
+                  </p>
+                  <p className="text-sm text-destructive">
+                    {conflict.kind === 'vehicle.exit' && conflict.error === 'Vehicle not found'
+                      ? 'The server has no record of this vehicle'
+                      : conflict.error}
+                  </p>
+                </div>
+                <div className="flex gap-2">
+                  <Button size="sm" onClick={() => handleResolve(conflict, 'retry')}>Send Again</Button>
+                  <Button size="sm" variant="outline" onClick={() => handleResolve(conflict, 'discard')}>Discard</Button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default SyncConflicts;
@@ -0,0 +1,204 @@
+import React, { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
+import { useParkingContext } from '@/contexts/ParkingContext';
+import { useToast } from '@/hooks/use-toast';
+import { apiService } from '@/services/api';
+import { User, UserRole } from '@/types/parking';
+import { ROLE_LABELS } from '@/utils/permissions';
+import { Users, UserPlus, Trash2 } from 'lucide-react';
+
+const UserManagement: React.FC = () => {
+  const { currentUser } = useParkingContext();
+  const { toast } = useToast();
+
+  const [users, setUsers] = useState<User[]>([]);
+  const [username, setUsername] = useState('');
+  const [displayName, setDisplayName] = useState('');
+  const [password, setPassword] = useState('');
+  const [role, setRole] = useState<UserRole>('attendant');
+
+  const loadUsers = useCallback(async () => {
+    try {
+      setUsers(await apiService.getUsers());
+    } catch (error) {
+      toast({ title: 'Error', description: 'Failed to load users', variant: 'destructive' });
+    }
+  }, [toast]);
+
+  useEffect(() => {
+    loadUsers();
+  }, [loadUsers]);
+
+  const handleAddUser = async () => {
+    if (!username.trim() || !password) {
+      toast({ title: 'Error', description: 'Username and password are required', variant: 'destructive' });
+      return;
+    }
+    try {
+      await apiService.addUser({ username, displayName, password, role });
+      setUsername('');
+      setDisplayName('');
+      setPassword('');
+      setRole('attendant');
+      toast({ title: 'User added', description: `${username.trim()} can now sign in` });
+      loadUsers();
+    } catch (error) {
+      toast({ title: 'Error', description: 'Failed to add user. The username may already be taken.', variant: 'destructive' });
+    }
+  };
+
+  const handleUpdateUser = async (user: User, updates: Parameters<typeof apiService.updateUser>[1], message: string) => {
+    try {
+      await apiService.updateUser(user.id, updates);
+      toast({ title: 'User updated', description: message });
+      loadUsers();
+    } catch (error) {
+      toast({ title: 'Error', description: 'Failed to update user. At least one active owner is required.', variant: 'destructive' });
+    }
+  };
+
+  const handleResetPassword = (user: User) => {
+    const newPassword = window.prompt(`New password for ${user.username}:`);
+    if (!newPassword) return;
+    handleUpdateUser(user, { password: newPassword }, `Password reset for ${user.username}`);
+  };
+
+  const handleRemoveUser = async (user: User) => {
+    try {
+      await apiService.removeUser(user.id);
+      toast({ title: 'User removed', description: `${user.username} can no longer sign in` });
+      loadUsers();
+    } catch (error) {
+      toast({ title: 'Error', description: 'Failed to remove user', variant: 'destructive' });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <UserPlus className="h-5 w-5 mr-2" />
+            Add Operator
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-2">
+            <div>
+              <Label>Username</Label>
+              <Input value={username} onChange={(e) => setUsername(e.target.value)} />
+            </div>
+            <div>
+              <Label>Display Name</Label>
+              <Input value={displayName} onChange={(e) => setDisplayName(e.target.value)} />
+            </div>
+            <div>
+              <Label>Password</Label>
+              <Input type="password" value={password} onChange={(e) => setPassword(e.target.value)} />
+            </div>
+            <div>
+              <Label>Role</Label>
+              <Select value={role} onValueChange={(value: UserRole) => setRole(value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="attendant">{ROLE_LABELS.attendant}</SelectItem>
+                  <SelectItem value="supervisor">{ROLE_LABELS.supervisor}</SelectItem>
+                  <SelectItem value="owner">{ROLE_LABELS.owner}</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Attendants use Walk-in and Currently Parked. Supervisors also get History and Permanent. Only owners can change Settings and pricing.
+          </p>
+          <Button onClick={handleAddUser} className="w-full">Add User</Button>
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <Users className="h-5 w-5 mr-2" />
+            Operators
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {users.length === 0 ? (
+            <p className="text-center text-muted-foreground py-8">No users found</p>
+          ) : (
+            <div className="space-y-3">
+              {users.map(user => (
+                <div key={user.id} className="flex flex-col sm:flex-row sm:items-center justify-between gap-3 p-3 border rounded">
+                  <div className="space-y-1">
+                    <div className="flex items-center gap-2">
+                      <span className="font-semibold">{user.username}</span>
+                      {!user.active && <Badge variant="destructive">DISABLED</Badge>}
+                      {user.id === currentUser?.id && <Badge variant="secondary">YOU</Badge>}
+                    </div>
+                    {user.displayName && <p className="text-sm text-muted-foreground">{user.displayName}</p>}
+                  </div>
+                  <div className="flex flex-wrap items-center gap-2">
+                    <Select
+                      value={user.role}
+                      onValueChange={(value: UserRole) => handleUpdateUser(user, { role: value }, `${user.username} is now ${ROLE_LABELS[value]}`)}
+                    >
+                      <SelectTrigger className="w-36">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="attendant">{ROLE_LABELS.attendant}</SelectItem>
+                        <SelectItem value="supervisor">{ROLE_LABELS.supervisor}</SelectItem>
+                        <SelectItem value="owner">{ROLE_LABELS.owner}</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <Button size="sm" variant="outline" onClick={() => handleResetPassword(user)}>
+                      Reset Password
+                    </Button>
+                    <Button
+                      size="sm"
+                      variant={user.active ? 'outline' : 'default'}
+                      onClick={() => handleUpdateUser(user, { active: !user.active }, `${user.username} has been ${user.active ? 'disabled' : 'enabled'}`)}
+                    >
+                      {user.active ? 'Disable' : 'Enable'}
+                    </Button>
+                    <AlertDialog>
+                      <AlertDialogTrigger asChild>
+                        <Button size="sm" variant="destructive" disabled={user.id === currentUser?.id}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </AlertDialogTrigger>
+                      <AlertDialogContent>
+                        <AlertDialogHeader>
+                          <AlertDialogTitle>Remove User</AlertDialogTitle>
+                          <AlertDialogDescription>
+                            Are you sure you want to remove <strong>{user.username}</strong>? They will no longer be able to sign in.
+                          </AlertDialogDescription>
+                        </AlertDialogHeader>
+                        <AlertDialogFooter>
+                          <AlertDialogCancel>Cancel</AlertDialogCancel>
+                          <AlertDialogAction onClick={() => handleRemoveUser(user)}>
+                            Remove User
+                          </AlertDialogAction>
+                        </AlertDialogFooter>
+                      </AlertDialogContent>
+                    </AlertDialog>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default UserManagement;
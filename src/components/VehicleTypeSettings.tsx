@@ -0,0 +1,295 @@
+import React, { useState, useEffect } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Label } from '@/components/ui/label';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertDialog, AlertDialogAction, AlertDialogCancel, AlertDialogContent, AlertDialogDescription, AlertDialogFooter, AlertDialogHeader, AlertDialogTitle, AlertDialogTrigger } from '@/components/ui/alert-dialog';
+import { useParkingContext } from '@/contexts/ParkingContext';
+import { useToast } from '@/hooks/use-toast';
+import { ApiError } from '@/services/api';
+import { VehicleCategory, VehiclePricing } from '@/types/parking';
+import { VEHICLE_ICONS, getVehicleIcon } from '@/utils/vehicleTypes';
+import { DollarSign, Plus, Trash2 } from 'lucide-react';
+
+// Blank optional inputs fall back to the default behaviour instead of charging 0
+const optionalNumber = (value: string): number | undefined => {
+  return value === '' ? undefined : parseInt(value) || 0;
+};
+
+const IconSelect: React.FC<{ value: string; onChange: (icon: string) => void }> = ({ value, onChange }) => (
+  <Select value={value} onValueChange={onChange}>
+    <SelectTrigger>
+      <SelectValue />
+    </SelectTrigger>
+    <SelectContent>
+      {Object.entries(VEHICLE_ICONS).map(([name, Icon]) => (
+        <SelectItem key={name} value={name}>
+          <span className="flex items-center gap-2 capitalize">
+            <Icon className="h-4 w-4" />
+            {name}
+          </span>
+        </SelectItem>
+      ))}
+    </SelectContent>
+  </Select>
+);
+
+const PricingFields: React.FC<{ pricing: VehiclePricing; onChange: (changes: Partial<VehiclePricing>) => void }> = ({ pricing, onChange }) => (
+  <div className="grid gap-4 md:grid-cols-3">
+    <div>
+      <Label>Base Hours</Label>
+      <Input type="number" value={pricing.baseHours} onChange={(e) => onChange({ baseHours: parseInt(e.target.value) || 0 })} />
+    </div>
+    <div>
+      <Label>Base Fee (PKR)</Label>
+      <Input type="number" value={pricing.baseFee} onChange={(e) => onChange({ baseFee: parseInt(e.target.value) || 0 })} />
+    </div>
+    <div>
+      <Label>Extra Hour Fee (PKR)</Label>
+      <Input type="number" value={pricing.extraHourFee} onChange={(e) => onChange({ extraHourFee: parseInt(e.target.value) || 0 })} />
+    </div>
+    <div>
+      <Label>Night Hour Fee (PKR)</Label>
+      <Input
+        type="number"
+        value={pricing.nightHourFee ?? ''}
+        placeholder={`Same as day (${pricing.extraHourFee})`}
+        onChange={(e) => onChange({ nightHourFee: optionalNumber(e.target.value) })}
+      />
+    </div>
+    <div>
+      <Label>Overnight Flat Fee (PKR)</Label>
+      <Input
+        type="number"
+        value={pricing.overnightFee ?? ''}
+        placeholder="Off"
+        onChange={(e) => onChange({ overnightFee: optionalNumber(e.target.value) })}
+      />
+    </div>
+    <div>
+      <Label>Daily Maximum (PKR)</Label>
+      <Input
+        type="number"
+        value={pricing.dailyMaximum ?? ''}
+        placeholder="No cap"
+        onChange={(e) => onChange({ dailyMaximum: optionalNumber(e.target.value) })}
+      />
+    </div>
+    <div>
+      <Label>Grace Period (minutes)</Label>
+      <Input
+        type="number"
+        value={pricing.gracePeriodMinutes ?? ''}
+        placeholder="None"
+        onChange={(e) => onChange({ gracePeriodMinutes: optionalNumber(e.target.value) })}
+      />
+    </div>
+    <div>
+      <Label>Round Up To</Label>
+      <Select
+        value={String(pricing.roundingMinutes || 60)}
+        onValueChange={(value) => onChange({ roundingMinutes: Number(value) as VehiclePricing['roundingMinutes'] })}
+      >
+        <SelectTrigger>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="15">15 minutes</SelectItem>
+          <SelectItem value="30">30 minutes</SelectItem>
+          <SelectItem value="60">1 hour</SelectItem>
+        </SelectContent>
+      </Select>
+    </div>
+  </div>
+);
+
+const emptyCategory: Omit<VehicleCategory, 'id' | 'sortOrder'> = { label: '', icon: 'car', pricing: { baseHours: 2, baseFee: 0, extraHourFee: 0 } };
+
+const VehicleTypeSettings: React.FC = () => {
+  const { vehicleTypes, addVehicleType, updateVehicleType, removeVehicleType } = useParkingContext();
+  const { toast } = useToast();
+
+  const [drafts, setDrafts] = useState<Record<string, VehicleCategory>>({});
+  const [newCategory, setNewCategory] = useState(emptyCategory);
+
+  // Keep the edit forms in sync when categories change here or on another counter
+  useEffect(() => {
+    setDrafts(Object.fromEntries(vehicleTypes.map(vehicleType => [vehicleType.id, vehicleType])));
+  }, [vehicleTypes]);
+
+  const updateDraft = (id: string, changes: Partial<VehicleCategory>) => {
+    setDrafts(current => ({ ...current, [id]: { ...current[id], ...changes } }));
+  };
+
+  const handleSave = async (draft: VehicleCategory) => {
+    if (!draft.label.trim()) {
+      toast({ title: 'Error', description: 'Enter a name for the vehicle type', variant: 'destructive' });
+      return;
+    }
+    try {
+      await updateVehicleType(draft.id, {
+        label: draft.label,
+        icon: draft.icon,
+        pricing: draft.pricing,
+        sortOrder: draft.sortOrder,
+        capacity: draft.capacity
+      });
+      toast({ title: 'Pricing saved', description: `${draft.label} pricing has been updated` });
+    } catch (error) {
+      toast({ title: 'Error', description: `Failed to save ${draft.label}`, variant: 'destructive' });
+    }
+  };
+
+  const handleAdd = async () => {
+    if (!newCategory.label.trim()) {
+      toast({ title: 'Error', description: 'Enter a name for the vehicle type', variant: 'destructive' });
+      return;
+    }
+    try {
+      const saved = await addVehicleType({ ...newCategory, sortOrder: vehicleTypes.length });
+      setNewCategory(emptyCategory);
+      toast({ title: 'Vehicle type added', description: `${saved.label} is now available at entry` });
+    } catch (error) {
+      const description = error instanceof ApiError && error.status === 409
+        ? 'A vehicle type with this name already exists'
+        : 'Failed to add vehicle type';
+      toast({ title: 'Error', description, variant: 'destructive' });
+    }
+  };
+
+  const handleRemove = async (vehicleType: VehicleCategory) => {
+    try {
+      await removeVehicleType(vehicleType.id);
+      toast({ title: 'Vehicle type removed', description: `${vehicleType.label} has been removed` });
+    } catch (error) {
+      const description = error instanceof ApiError && error.status === 409
+        ? `${vehicleType.label} is still used by vehicles or permanent clients`
+        : 'Failed to remove vehicle type';
+      toast({ title: 'Error', description, variant: 'destructive' });
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <DollarSign className="h-5 w-5 mr-2" />
+            Vehicle Types & Pricing
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-8">
+          {vehicleTypes.map(vehicleType => {
+            const draft = drafts[vehicleType.id] || vehicleType;
+            const Icon = getVehicleIcon(draft.icon);
+            return (
+              <div key={vehicleType.id} className="space-y-3 border-b pb-6 last:border-b-0">
+                <div className="flex items-center justify-between gap-2">
+                  <h3 className="font-semibold flex items-center">
+                    <Icon className="h-4 w-4 mr-2" />
+                    {vehicleType.label} Pricing
+                  </h3>
+                  <AlertDialog>
+                    <AlertDialogTrigger asChild>
+                      <Button size="sm" variant="destructive">
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </AlertDialogTrigger>
+                    <AlertDialogContent>
+                      <AlertDialogHeader>
+                        <AlertDialogTitle>Remove Vehicle Type</AlertDialogTitle>
+                        <AlertDialogDescription>
+                          Are you sure you want to remove <strong>{vehicleType.label}</strong>? Types that are still used by any vehicle or permanent client cannot be removed.
+                        </AlertDialogDescription>
+                      </AlertDialogHeader>
+                      <AlertDialogFooter>
+                        <AlertDialogCancel>Cancel</AlertDialogCancel>
+                        <AlertDialogAction onClick={() => handleRemove(vehicleType)}>
+                          Remove
+                        </AlertDialogAction>
+                      </AlertDialogFooter>
+                    </AlertDialogContent>
+                  </AlertDialog>
+                </div>
+                <div className="grid gap-4 md:grid-cols-4">
+                  <div>
+                    <Label>Name</Label>
+                    <Input value={draft.label} onChange={(e) => updateDraft(vehicleType.id, { label: e.target.value })} />
+                  </div>
+                  <div>
+                    <Label>Icon</Label>
+                    <IconSelect value={draft.icon} onChange={(icon) => updateDraft(vehicleType.id, { icon })} />
+                  </div>
+                  <div>
+                    <Label>Display Order</Label>
+                    <Input
+                      type="number"
+                      value={draft.sortOrder}
+                      onChange={(e) => updateDraft(vehicleType.id, { sortOrder: parseInt(e.target.value) || 0 })}
+                    />
+                  </div>
+                  <div>
+                    <Label>Capacity (spaces)</Label>
+                    <Input
+                      type="number"
+                      value={draft.capacity ?? ''}
+                      placeholder="Unlimited"
+                      onChange={(e) => updateDraft(vehicleType.id, { capacity: optionalNumber(e.target.value) })}
+                    />
+                  </div>
+                </div>
+                <PricingFields
+                  pricing={draft.pricing}
+                  onChange={(changes) => updateDraft(vehicleType.id, { pricing: { ...draft.pricing, ...changes } })}
+                />
+                <Button onClick={() => handleSave(draft)} variant="outline" className="w-full">Save {vehicleType.label}</Button>
+              </div>
+            );
+          })}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center">
+            <Plus className="h-5 w-5 mr-2" />
+            Add Vehicle Type
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid gap-4 md:grid-cols-3">
+            <div>
+              <Label>Name</Label>
+              <Input
+                value={newCategory.label}
+                placeholder="e.g. Van, Truck, Loader Rickshaw"
+                onChange={(e) => setNewCategory({ ...newCategory, label: e.target.value })}
+              />
+            </div>
+            <div>
+              <Label>Icon</Label>
+              <IconSelect value={newCategory.icon} onChange={(icon) => setNewCategory({ ...newCategory, icon })} />
+            </div>
+            <div>
+              <Label>Capacity (spaces)</Label>
+              <Input
+                type="number"
+                value={newCategory.capacity ?? ''}
+                placeholder="Unlimited"
+                onChange={(e) => setNewCategory({ ...newCategory, capacity: optionalNumber(e.target.value) })}
+              />
+            </div>
+          </div>
+          <PricingFields
+            pricing={newCategory.pricing}
+            onChange={(changes) => setNewCategory({ ...newCategory, pricing: { ...newCategory.pricing, ...changes } })}
+          />
+          <Button onClick={handleAdd} className="w-full">Add Vehicle Type</Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default VehicleTypeSettings;
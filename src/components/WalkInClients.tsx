@@ -6,8 +6,18 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
 import { useParkingContext } from '@/contexts/ParkingContext';
 import { useToast } from '@/hooks/use-toast';
-import { generateBarcode, formatTime, formatTimeOnly, calculateParkingFee, formatCurrency } from '@/utils/calculations';
-import { QrCode, Printer, Search } from 'lucide-react';
+import { apiService, ApiError } from '@/services/api';
+import { isTicketCode, formatTime, formatTimeOnly, formatCurrency } from '@/utils/calculations';
+import { addLostTicketPenalty, applyDiscount, calculateFeeBreakdown, describeDiscount } from '@/utils/tariff';
+import { getOccupancy, getVehicleCategory, getVehicleLabel } from '@/utils/vehicleTypes';
+import { getPaymentMethodLabel } from '@/utils/payments';
+import { checkPass, checkPlatePass } from '@/utils/passes';
+import { CapacityOverride, FeeBreakdown, FeeDiscount, FeeLine, LostTicket } from '@/types/parking';
+import CapacityOverrideDialog from './CapacityOverrideDialog';
+import LostTicketDialog from './LostTicketDialog';
+import ExitDiscountFields from './ExitDiscountFields';
+import PaymentFields, { PaymentDetails } from './PaymentFields';
+import { QrCode, Printer, Search, TicketSlash } from 'lucide-react';
 import JsBarcode from 'jsbarcode';
 
 // Helper to calculate duration between two times (entryTime, exitTime)
@@ -21,12 +31,14 @@ function getTimeParked(entryTime: Date, exitTime: Date) {
   return `${diffMins}m`;
 }
 
+// What the exit receipt shows for a visit covered by a permanent client's pass
+const PASS_BREAKDOWN: FeeBreakdown = { total: 0, billedMinutes: 0, lines: [{ label: 'Monthly pass', amount: 0 }] };
+
 
 const WalkInClients: React.FC = () => {
   // Unified exit handler for merged input bar
   const handleUnifiedExit = (value: string) => {
-    // Heuristic: barcode is at least 10 chars and all digits (or contains only allowed barcode chars)
-    if (value.length >= 10 && /[0-9]{6,}/.test(value)) {
+    if (isTicketCode(value)) {
       handleBarcodeExitUnified(value);
     } else {
       // Do not alter user input; use it as-is for manual exit
@@ -38,11 +50,6 @@ const WalkInClients: React.FC = () => {
   // Helper to use barcode exit logic with unified input bar
   const handleBarcodeExitUnified = (value: string) => {
     setExitBarcode(value);
-    // Immediately show the vehicle number in the exit input if we can resolve it
-    const matched = vehicles.find(v => generateBarcode(v.number, v.entryTime) === value && !v.exitTime);
-    if (matched) {
-      setExitNumber(matched.number);
-    }
     setTimeout(() => {
       handleBarcodeExit(value);
       setExitBarcode('');
@@ -53,7 +60,7 @@ const WalkInClients: React.FC = () => {
   const vehicleNumberInputRef = useRef<HTMLInputElement>(null);
   // Lock the exit input to a vehicle number while a scan is being processed
   const [vehicleNumber, setVehicleNumber] = useState('');
-  const [vehicleType, setVehicleType] = useState<'car' | 'bike' | 'rickshaw'>('car');
+  const [selectedType, setSelectedType] = useState('');
   const [exitNumber, setExitNumber] = useState('');
   const [exitBarcode, setExitBarcode] = useState('');
   // Suppress subsequent scanner characters briefly after detecting a barcode
@@ -61,11 +68,28 @@ const WalkInClients: React.FC = () => {
   const [currentReceipt, setCurrentReceipt] = useState<any>(null);
   const [showExitReceipt, setShowExitReceipt] = useState(false);
   const [exitReceiptData, setExitReceiptData] = useState<any>(null);
-
-  const { addVehicle, exitVehicle, vehicles, settings } = useParkingContext();
+  const [showCapacityOverride, setShowCapacityOverride] = useState(false);
+  const [showLostTicket, setShowLostTicket] = useState(false);
+  const [discount, setDiscount] = useState<FeeDiscount | undefined>();
+  const [payment, setPayment] = useState<PaymentDetails>({ paymentMethod: 'cash' });
+
+  const { addVehicle, exitVehicle, vehicles, settings, vehicleTypes, getCurrentlyParked, currentShift, permanentClients, invoices } = useParkingContext();
+  // A plate on a valid pass enters as the client's registered type. Otherwise default to the
+  // first category until one is picked, or if the picked one has been removed.
+  const entryPass = checkPlatePass(permanentClients, invoices, settings, vehicleNumber);
+  const vehicleType = entryPass?.valid
+    ? entryPass.client.type
+    : vehicleTypes.some(category => category.id === selectedType) ? selectedType : vehicleTypes[0]?.id || '';
   const { toast } = useToast();
 
-  const handleEntry = async () => {
+  const selectedCategory = getVehicleCategory(vehicleTypes, vehicleType);
+  const selectedOccupancy = getOccupancy(getCurrentlyParked(), selectedCategory);
+
+  // Entries and exits are recorded against the counter's open shift. Without one they still go through,
+  // with a warning, and are left out of every shift's cash-up.
+  const noShiftWarning = currentShift ? '' : '. No shift is open, so it is not counted in a cash-up';
+
+  const handleEntry = async (capacityOverride?: CapacityOverride) => {
     try {
       if (!vehicleNumber.trim()) {
         toast({
@@ -85,30 +109,46 @@ const WalkInClients: React.FC = () => {
         });
         return;
       }
+      // A full section needs an override before another ticket is issued
+      if (selectedOccupancy.full && !capacityOverride) {
+        setShowCapacityOverride(true);
+        return;
+      }
+      setShowCapacityOverride(false);
+      // The client is still let in, but pays like any other walk-in
+      if (entryPass && !entryPass.valid) {
+        toast({
+          title: "Pass not valid",
+          description: `${entryPass.warning}. The visit will be charged as a walk-in.`,
+          variant: "destructive"
+        });
+      }
+      const passClient = entryPass?.valid ? entryPass.client : undefined;
 
       const entryTime = new Date();
-      const { id: vehicleId, entryTime: persistedEntryTime } = await addVehicle({
+      const { id: vehicleId, entryTime: persistedEntryTime, ticketNumber, ticket } = await addVehicle({
         number: vehicleNumber,
         type: vehicleType,
-        entryTime
-      });
-
-      // Use the exact persisted entryTime from backend/local storage to ensure barcode matches
-      const barcode = generateBarcode(vehicleNumber, persistedEntryTime);
+        entryTime,
+        passClientId: passClient?.id
+      }, capacityOverride);
 
+      // Only the server can sign a ticket, so an entry queued offline prints without a barcode
       const receiptData = {
         id: vehicleId,
         vehicleNumber,
         vehicleType,
         entryTime: persistedEntryTime,
-        barcode
+        ticketNumber,
+        passClientName: passClient?.clientName,
+        barcode: ticket
       };
       setCurrentReceipt(receiptData);
       setShowReceipt(true);
       setVehicleNumber('');
       toast({
         title: "Vehicle entered",
-        description: `${vehicleType.toUpperCase()} ${vehicleNumber} has been registered`,
+        description: `${getVehicleLabel(vehicleTypes, vehicleType).toUpperCase()} ${vehicleNumber} has been registered${passClient ? ' on a monthly pass' : ''}${noShiftWarning}`,
       });
       // Wait for the receipt modal and barcode to render, then trigger print
       setTimeout(() => {
@@ -158,29 +198,70 @@ const WalkInClients: React.FC = () => {
     showExitReceiptWithFee(vehicle);
   };
 
-  const showExitReceiptWithFee = (vehicle: any) => {
+  const showExitReceiptWithFee = (vehicle: any, lostTicket?: LostTicket) => {
+    // The pass must still be paid up at exit: the one recognised at entry is checked again, and a vehicle
+    // that came in as a walk-in is looked up by its plate
     const exitTime = new Date();
-    const calculatedFee = calculateParkingFee(
+    const entryPassClient = vehicle.passClientId ? permanentClients.find(client => client.id === vehicle.passClientId) : undefined;
+    const exitPass = entryPassClient
+      ? checkPass(entryPassClient, invoices, settings, exitTime)
+      : checkPlatePass(permanentClients, invoices, settings, vehicle.number);
+    if (exitPass && !exitPass.valid) {
+      toast({
+        title: "Pass not valid",
+        description: `${exitPass.warning}. Charging as a walk-in.`,
+        variant: "destructive"
+      });
+    }
+    const passClientId: string | undefined = exitPass?.valid ? exitPass.client.id : undefined;
+    const breakdown = passClientId ? PASS_BREAKDOWN : addLostTicketPenalty(calculateFeeBreakdown(
       vehicle.entryTime,
       exitTime,
-      vehicle.type,
-      settings.pricing
-    );
+      getVehicleCategory(vehicleTypes, vehicle.type).pricing,
+      settings.nightBand
+    ), lostTicket);
 
     const exitData = {
       ...vehicle,
       exitTime,
-      calculatedFee,
-      barcode: generateBarcode(vehicle.number, vehicle.entryTime)
+      calculatedFee: breakdown.total,
+      breakdown,
+      // The driver's details are still kept for a lost ticket, but a pass holder pays no penalty
+      lostTicket: passClientId && lostTicket ? { ...lostTicket, penalty: 0 } : lostTicket,
+      passClientId,
+      passClientName: passClientId ? permanentClients.find(client => client.id === passClientId)?.clientName : undefined
     };
 
     setExitReceiptData(exitData);
+    setDiscount(undefined);
+    setPayment({ paymentMethod: 'cash' });
     setShowExitReceipt(true);
   };
 
   const confirmExit = () => {
     if (exitReceiptData) {
-      exitVehicle(exitReceiptData.id);
+      if (discount && (!discount.reasonCode || (discount.kind !== 'waiver' && !discount.value))) {
+        toast({
+          title: "Error",
+          description: "Choose a reason and an amount for the discount, or remove it",
+          variant: "destructive"
+        });
+        return;
+      }
+      if (payment.amountTendered !== undefined && payment.amountTendered < applyDiscount(exitReceiptData.calculatedFee, discount)) {
+        toast({
+          title: "Error",
+          description: "Cash tendered is less than the fee",
+          variant: "destructive"
+        });
+        return;
+      }
+      exitVehicle(exitReceiptData.id, exitReceiptData.exitTime, {
+        lostTicket: exitReceiptData.lostTicket,
+        discount,
+        ...payment,
+        passClientId: exitReceiptData.passClientId
+      });
       setExitNumber('');
       setExitBarcode('');
       setShowExitReceipt(false);
@@ -188,12 +269,30 @@ const WalkInClients: React.FC = () => {
 
       toast({
         title: "Vehicle exited",
-        description: `${exitReceiptData.type.toUpperCase()} ${exitReceiptData.number} has exited`,
+        description: `${getVehicleLabel(vehicleTypes, exitReceiptData.type).toUpperCase()} ${exitReceiptData.number} has exited${noShiftWarning}`,
+      });
+    }
+  };
+
+  const handleLostTicket = ({ number, cnic, note }: { number: string; cnic: string; note: string }) => {
+    const vehicle = vehicles.find(v =>
+      v.number.toLowerCase() === number.toLowerCase() && !v.exitTime
+    );
+    if (!vehicle) {
+      toast({
+        title: "Error",
+        description: "Vehicle not found or already exited",
+        variant: "destructive"
       });
+      return;
     }
+    setShowLostTicket(false);
+    setExitNumber(vehicle.number);
+    showExitReceiptWithFee(vehicle, { cnic, note, penalty: settings.lostTicketPenalty || 0 });
   };
 
-  const handleBarcodeExit = (barcode?: string) => {
+  // The server checks the ticket's signature, so a forged or altered ticket is refused here
+  const handleBarcodeExit = async (barcode?: string) => {
     const value = typeof barcode === 'string' ? barcode.trim() : exitBarcode.trim();
     if (!value) {
       toast({
@@ -204,26 +303,26 @@ const WalkInClients: React.FC = () => {
       return;
     }
 
-    // Normalize scanned value to uppercase for robust comparison
-    const scanned = value.toUpperCase();
-    console.log('Scanned barcode:', scanned);
-    console.log('Available vehicles:', vehicles.filter(v => !v.exitTime).map(v => ({
-      number: v.number,
-      entryTime: v.entryTime,
-      barcode: generateBarcode(v.number, v.entryTime)
-    })));
-
-    const vehicle = vehicles.find(v => {
-      const vehicleBarcode = generateBarcode(v.number, v.entryTime);
-      const match = !v.exitTime && (vehicleBarcode === scanned || scanned.includes(vehicleBarcode));
-      console.log(`Comparing: scanned="${scanned}" vs generated="${vehicleBarcode}" for vehicle ${v.number} => ${match ? 'MATCH' : 'NO MATCH'}`);
-      return match;
-    });
+    let ticketVehicleId: string;
+    try {
+      ticketVehicleId = (await apiService.verifyTicket(value)).id;
+    } catch (error) {
+      const description = !(error instanceof ApiError)
+        ? 'The ticket could not be verified. Exit the vehicle by its number instead.'
+        : error.status === 409
+          ? 'This ticket has already been used'
+          : error.status === 404
+            ? 'No vehicle on this pass is parked'
+            : `Invalid or altered ticket. Scanned: ${value}`;
+      toast({ title: "Error", description, variant: "destructive" });
+      return;
+    }
 
+    const vehicle = vehicles.find(v => v.id === ticketVehicleId && !v.exitTime);
     if (!vehicle) {
       toast({
         title: "Error",
-        description: `Invalid barcode or vehicle already exited. Scanned: ${value}`,
+        description: "Vehicle not found or already exited",
         variant: "destructive"
       });
       return;
@@ -247,7 +346,7 @@ const WalkInClients: React.FC = () => {
 
   // Generate barcode when receipt is shown
   useEffect(() => {
-    if (showReceipt && currentReceipt && barcodeRef.current) {
+    if (showReceipt && currentReceipt?.barcode && barcodeRef.current) {
       try {
         JsBarcode(barcodeRef.current, currentReceipt.barcode, {
           format: "CODE128",
@@ -290,6 +389,7 @@ const WalkInClients: React.FC = () => {
                 .receipt { max-width: 1350px; margin: 0 auto; text-align: center; }
                 .receipt h3 { margin: 0 0 20px 0; font-size: 81px; font-weight: bold; }
                 .receipt div { font-size: 63px; line-height: 1.8; font-weight: bold; }
+                .receipt .ticket-number { font-size: 96px; letter-spacing: 4px; margin-bottom: 20px; }
                 .flex { display: flex; justify-content: space-between; margin-bottom: 8px; font-weight: bold; }
                 .font-semibold { font-weight: bold; }
                 .border-t { border-top: 2px dashed #000; padding-top: 12px; margin-bottom: 12px; }
@@ -338,6 +438,7 @@ const WalkInClients: React.FC = () => {
                 .barcode-container svg { width: 100%; height: auto; }
                 .text-xs { font-size: 12px; margin-top: 15px; font-weight: bold; }
                 .text-lg { font-size: 16px; font-weight: bold; }
+                .fee-line { font-size: 12px; margin-bottom: 4px; }
                 @media print {
                   body { margin: 0; padding: 8px; font-weight: bold; }
                   .receipt { max-width: none; width: 100%; }
@@ -361,6 +462,11 @@ const WalkInClients: React.FC = () => {
 
   return (
     <div className="space-y-6">
+      {!currentShift && (
+        <p className="text-sm font-semibold text-destructive">
+          No shift is open on this counter. Entries and exits are still recorded, but not against a shift until one is opened on the Shift tab.
+        </p>
+      )}
       {/* Unified Vehicle Entry and Exit Interface */}
       <div className="flex flex-col md:flex-row gap-8">
         {/* Entry Box */}
@@ -391,42 +497,33 @@ const WalkInClients: React.FC = () => {
                 Clear
               </Button>
             </div>
-            <div className="flex items-center gap-6 mb-4">
-              <label className="flex items-center gap-2">
-                <input
-                  type="radio"
-                  name="vehicleType"
-                  value="car"
-                  checked={vehicleType === 'car'}
-                  onChange={() => setVehicleType('car')}
-                  className="accent-blue-600"
-                />
-                Car
-              </label>
-              <label className="flex items-center gap-2">
-                <input
-                  type="radio"
-                  name="vehicleType"
-                  value="bike"
-                  checked={vehicleType === 'bike'}
-                  onChange={() => setVehicleType('bike')}
-                  className="accent-blue-600"
-                />
-                Bike
-              </label>
-              <label className="flex items-center gap-2">
-                <input
-                  type="radio"
-                  name="vehicleType"
-                  value="rickshaw"
-                  checked={vehicleType === 'rickshaw'}
-                  onChange={() => setVehicleType('rickshaw')}
-                  className="accent-blue-600"
-                />
-                Rickshaw
-              </label>
+            <div className="flex flex-wrap items-center gap-6 mb-4">
+              {vehicleTypes.map(category => (
+                <label key={category.id} className="flex items-center gap-2">
+                  <input
+                    type="radio"
+                    name="vehicleType"
+                    value={category.id}
+                    checked={vehicleType === category.id}
+                    disabled={!!entryPass?.valid}
+                    onChange={() => setSelectedType(category.id)}
+                    className="accent-blue-600"
+                  />
+                  {category.label}
+                </label>
+              ))}
             </div>
-            <Button onClick={handleEntry} className="w-full">Enter</Button>
+            {entryPass && (
+              <p className={`text-sm font-semibold mb-2 ${entryPass.valid ? 'text-green-700' : 'text-destructive'}`}>
+                {entryPass.valid ? `Monthly pass: ${entryPass.client.clientName || entryPass.client.number}` : entryPass.warning}
+              </p>
+            )}
+            {selectedOccupancy.full && (
+              <p className="text-sm font-semibold text-destructive mb-2">
+                {selectedCategory.label} section is full ({selectedOccupancy.occupied}/{selectedOccupancy.capacity})
+              </p>
+            )}
+            <Button onClick={() => handleEntry()} className="w-full">Enter</Button>
           </div>
         </div>
         {/* Exit Box */}
@@ -439,19 +536,16 @@ const WalkInClients: React.FC = () => {
                 value={exitNumber}
                 onChange={(e) => {
                   const value = e.target.value;
-                  // Heuristic: barcode is at least 10 chars and contains at least 6 consecutive digits
-                  const isBarcode = value.length >= 10 && /[0-9]{6,}/.test(value);
                   // Do not modify what the user sees in the input
                   setExitNumber(value);
-                  if (isBarcode) {
+                  if (isTicketCode(value)) {
                     handleBarcodeExitUnified(value);
                   }
                 }}
                 onKeyPress={(e) => {
                   if (e.key === 'Enter') {
                     const value = (e.target as HTMLInputElement).value;
-                    const isBarcode = value.length >= 10 && /[0-9]{6,}/.test(value);
-                    if (isBarcode) {
+                    if (isTicketCode(value)) {
                       // Do not alter input; process barcode directly
                       setExitNumber(value);
                       e.preventDefault();
@@ -474,6 +568,10 @@ const WalkInClients: React.FC = () => {
               </Button>
             </div>
             <Button onClick={() => handleUnifiedExit(exitNumber)} className="w-full mb-4">Exit Vehicle</Button>
+            <Button onClick={() => setShowLostTicket(true)} variant="outline" className="w-full">
+              <TicketSlash className="h-4 w-4 mr-2" />
+              Lost Ticket
+            </Button>
 
           </div>
         </div>
@@ -497,6 +595,11 @@ const WalkInClients: React.FC = () => {
             <div id="receipt-content" className="text-center border-2 border-dashed border-border p-4 bg-muted/50">
               <div className="receipt">
                 <h3 className="font-bold mb-4" style={{ fontSize: '20.25px' }}>{settings.siteName || 'PARKING RECEIPT'}</h3>
+                {currentReceipt.ticketNumber && (
+                  <div className="ticket-number text-3xl font-mono font-bold tracking-widest mb-4">
+                    {currentReceipt.ticketNumber}
+                  </div>
+                )}
                 <div className="text-lg font-mono" style={{ lineHeight: '1.6', fontSize: '15.75px' }}>
                   <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: '18px', letterSpacing: '2px', fontSize: '15.75px' }}>
                     <span className="font-semibold" style={{ minWidth: 170, textAlign: 'left', display: 'inline-block' }}>Date:</span>
@@ -508,15 +611,23 @@ const WalkInClients: React.FC = () => {
                   </div>
                   <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: '18px', letterSpacing: '2px', fontSize: '15.75px' }}>
                     <span className="font-semibold" style={{ minWidth: 170, textAlign: 'left', display: 'inline-block' }}>Vehicle Type:</span>
-                    <span style={{ minWidth: 170, textAlign: 'right', display: 'inline-block' }}>{currentReceipt.vehicleType.toUpperCase()}</span>
+                    <span style={{ minWidth: 170, textAlign: 'right', display: 'inline-block' }}>{getVehicleLabel(vehicleTypes, currentReceipt.vehicleType).toUpperCase()}</span>
                   </div>
                   <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: '18px', letterSpacing: '2px', fontSize: '15.75px' }}>
                     <span className="font-semibold" style={{ minWidth: 170, textAlign: 'left', display: 'inline-block' }}>Vehicle Number:</span>
                     <span style={{ minWidth: 170, textAlign: 'right', display: 'inline-block' }}>{currentReceipt.vehicleNumber}</span>
                   </div>
+                  {currentReceipt.passClientName && (
+                    <div style={{ display: 'flex', justifyContent: 'space-between', marginBottom: '18px', letterSpacing: '2px', fontSize: '15.75px' }}>
+                      <span className="font-semibold" style={{ minWidth: 170, textAlign: 'left', display: 'inline-block' }}>Monthly Pass:</span>
+                      <span style={{ minWidth: 170, textAlign: 'right', display: 'inline-block' }}>{currentReceipt.passClientName}</span>
+                    </div>
+                  )}
                   <div className="border-t border-dashed border-gray-400 pt-3 mb-3"></div>
                   <div className="barcode-container mb-3">
-                    <svg ref={barcodeRef}></svg>
+                    {currentReceipt.barcode
+                      ? <svg ref={barcodeRef}></svg>
+                      : <p className="text-xs font-normal">Issued offline - exit by vehicle number</p>}
                     <p className="text-xs mt-2 text-muted-foreground" style={{ fontSize: '22.5px' }}>{currentReceipt.vehicleNumber}</p>
                   </div>
                   <div className="border-t border-dashed border-gray-400 pt-3"></div>
@@ -532,6 +643,23 @@ const WalkInClients: React.FC = () => {
         </Card>
       )}
 
+      <CapacityOverrideDialog
+        open={showCapacityOverride}
+        onOpenChange={setShowCapacityOverride}
+        vehicleNumber={vehicleNumber}
+        vehicleType={selectedCategory}
+        occupancy={selectedOccupancy}
+        onApproved={(override) => handleEntry(override)}
+      />
+
+      <LostTicketDialog
+        open={showLostTicket}
+        onOpenChange={setShowLostTicket}
+        initialNumber={isTicketCode(exitNumber) ? '' : exitNumber}
+        penalty={settings.lostTicketPenalty || 0}
+        onSubmit={handleLostTicket}
+      />
+
       {/* Exit Receipt Modal */}
       {showExitReceipt && exitReceiptData && (
         <div
@@ -561,14 +689,38 @@ const WalkInClients: React.FC = () => {
                 <div className="receipt">
                   <h3 className="font-bold text-lg mb-4">{settings.siteName || 'PARKING RECEIPT'}</h3>
                   <div className="text-sm font-mono" style={{ lineHeight: '1.8' }}>
+                    {exitReceiptData.ticketNumber && (
+                      <div className="flex justify-between mb-2">
+                        <span className="font-semibold">Ticket No:</span>
+                        <span>{exitReceiptData.ticketNumber}</span>
+                      </div>
+                    )}
+                    {exitReceiptData.lostTicket && (
+                      <>
+                        <div className="flex justify-between mb-2">
+                          <span className="font-semibold">Ticket:</span>
+                          <span>LOST</span>
+                        </div>
+                        <div className="flex justify-between mb-2">
+                          <span className="font-semibold">Driver CNIC:</span>
+                          <span>{exitReceiptData.lostTicket.cnic}</span>
+                        </div>
+                      </>
+                    )}
                     <div className="flex justify-between mb-2">
                       <span className="font-semibold">Vehicle Number:</span>
                       <span>{exitReceiptData.number}</span>
                     </div>
                     <div className="flex justify-between mb-2">
                       <span className="font-semibold">Vehicle Type:</span>
-                      <span>{exitReceiptData.type.toUpperCase()}</span>
+                      <span>{getVehicleLabel(vehicleTypes, exitReceiptData.type).toUpperCase()}</span>
                     </div>
+                    {exitReceiptData.passClientId && (
+                      <div className="flex justify-between mb-2">
+                        <span className="font-semibold">Monthly Pass:</span>
+                        <span>{exitReceiptData.passClientName || 'YES'}</span>
+                      </div>
+                    )}
                     <div className="flex justify-between mb-2">
                       <span className="font-semibold">Entry Date:</span>
                       <span>{new Date(exitReceiptData.entryTime).toLocaleDateString()}</span>
@@ -590,10 +742,40 @@ const WalkInClients: React.FC = () => {
                       <span className="font-semibold">Duration:</span>
                       <span>{getTimeParked(new Date(exitReceiptData.entryTime), new Date(exitReceiptData.exitTime))}</span>
                     </div>
+                    {exitReceiptData.breakdown.lines.map((line: FeeLine) => (
+                      <div key={line.label} className="flex justify-between fee-line text-muted-foreground">
+                        <span>{line.label}</span>
+                        <span>{formatCurrency(line.amount)}</span>
+                      </div>
+                    ))}
+                    {discount && (
+                      <div className="flex justify-between fee-line text-muted-foreground">
+                        <span>{describeDiscount(discount, settings.discountReasons)}</span>
+                        <span>-{formatCurrency(exitReceiptData.calculatedFee - applyDiscount(exitReceiptData.calculatedFee, discount))}</span>
+                      </div>
+                    )}
                     <div className="flex justify-between mb-4 text-lg font-bold">
                       <span>Total Fee:</span>
-                      <span>{formatCurrency(exitReceiptData.calculatedFee)}</span>
+                      <span>{formatCurrency(applyDiscount(exitReceiptData.calculatedFee, discount))}</span>
                     </div>
+                    {!exitReceiptData.passClientId && (
+                      <div className="flex justify-between mb-2">
+                        <span className="font-semibold">Paid By:</span>
+                        <span>{getPaymentMethodLabel(payment.paymentMethod)}</span>
+                      </div>
+                    )}
+                    {payment.amountTendered !== undefined && (
+                      <>
+                        <div className="flex justify-between mb-2">
+                          <span className="font-semibold">Tendered:</span>
+                          <span>{formatCurrency(payment.amountTendered)}</span>
+                        </div>
+                        <div className="flex justify-between mb-2">
+                          <span className="font-semibold">Change:</span>
+                          <span>{formatCurrency(Math.max(0, payment.amountTendered - applyDiscount(exitReceiptData.calculatedFee, discount)))}</span>
+                        </div>
+                      </>
+                    )}
                     <div className="border-t border-dashed border-gray-400 pt-3 mb-3"></div>
                     <div className="barcode-container mb-3">
                       <svg ref={barcodeRef}></svg>
@@ -604,6 +786,12 @@ const WalkInClients: React.FC = () => {
                   </div>
                 </div>
               </div>
+              {!exitReceiptData.passClientId && (
+                <>
+                  <ExitDiscountFields reasons={settings.discountReasons || []} discount={discount} onChange={setDiscount} />
+                  <PaymentFields total={applyDiscount(exitReceiptData.calculatedFee, discount)} payment={payment} onChange={setPayment} />
+                </>
+              )}
               <div className="flex gap-3 mt-4">
                 <Button onClick={confirmExit} className="flex-1">
                   Confirm Exit
@@ -1,37 +1,132 @@
-import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
-import { Vehicle, Settings, DailyStats } from '@/types/parking';
+import React, { createContext, useContext, useState, useEffect, useRef, ReactNode } from 'react';
+import { Vehicle, Settings, DailyStats, User, SyncChange, QueuedOperation, VehicleCategory, CapacityOverride, ExitAdjustments, Shift, Invoice, PaymentMethod } from '@/types/parking';
 import { 
   loadVehicles, 
   saveVehicles, 
   loadSettings, 
   saveSettings, 
-  loadDailyStats, 
-  saveDailyStats,
   loadPermanentClients,
   savePermanentClients,
-  getDefaultSettings
+  loadCachedSettings,
+  cacheSettings,
+  getDefaultSettings,
+  loadVehicleTypes,
+  loadCachedVehicleTypes,
+  cacheVehicleTypes,
+  loadCurrentShift,
+  cacheCurrentShift,
+  loadInvoices,
+  cacheInvoices
 } from '@/utils/storage';
-import { apiService, getConfiguredApiBaseUrl } from '@/services/api';
+import { apiService, getAuthToken, setAuthToken, setUnauthorizedHandler, createRequestId, getCounterCode, ApiError } from '@/services/api';
+import { enqueueOperation, getPendingOperations, removePendingOperation, addConflict, getConflicts, removeConflict } from '@/utils/outbox';
 import { calculateParkingFee, getTodayString } from '@/utils/calculations';
+import { applyDiscount } from '@/utils/tariff';
+import { sumByPaymentMethod } from '@/utils/payments';
+import { getVehicleCategory } from '@/utils/vehicleTypes';
+import { checkPass, normalizePlate } from '@/utils/passes';
 
 interface ParkingContextType {
   vehicles: Vehicle[];
   permanentClients: Vehicle[];
   settings: Settings;
-  dailyStats: DailyStats[];
+  vehicleTypes: VehicleCategory[];
   isAuthenticated: boolean;
-  login: (username: string, password: string) => boolean;
+  currentUser: User | null;
+  login: (username: string, password: string) => Promise<boolean>;
   logout: () => void;
-  addVehicle: (vehicle: Omit<Vehicle, 'id'>) => Promise<{ id: string; entryTime: Date }>;
-  exitVehicle: (vehicleId: string) => Promise<void>;
+  addVehicle: (vehicle: Omit<Vehicle, 'id'>, capacityOverride?: CapacityOverride) => Promise<Pick<Vehicle, 'id' | 'entryTime' | 'ticketNumber' | 'ticket'>>;
+  exitVehicle: (vehicleId: string, exitTime?: Date, adjustments?: ExitAdjustments) => Promise<void>;
   addPermanentClient: (client: Omit<Vehicle, 'id'>) => void;
   updatePermanentClient: (clientId: string, updates: Partial<Vehicle>) => void;
   removePermanentClient: (clientId: string) => void;
+  renewPermanentClient: (clientId: string, planId?: string) => Promise<{ client: Vehicle; invoice: Invoice }>;
+  importPermanentClients: (clients: Omit<Vehicle, 'id'>[]) => Promise<Vehicle[]>;
   updateSettings: (newSettings: Settings) => void;
+  addVehicleType: (vehicleType: Omit<VehicleCategory, 'id' | 'updatedAt'>) => Promise<VehicleCategory>;
+  updateVehicleType: (vehicleTypeId: string, updates: Partial<Omit<VehicleCategory, 'id' | 'updatedAt'>>) => Promise<void>;
+  removeVehicleType: (vehicleTypeId: string) => Promise<void>;
+  currentShift: Shift | null;
+  openShift: (openingFloat: number) => Promise<Shift>;
+  closeShift: (countedCash: number, note?: string) => Promise<Shift>;
+  refreshCurrentShift: () => Promise<void>;
+  invoices: Invoice[];
+  recordInvoicePayment: (invoiceId: string, payment: { amount: number; method: PaymentMethod; note?: string }) => Promise<Invoice>;
   getCurrentlyParked: () => Vehicle[];
   getTodayStats: () => DailyStats;
+  pendingOperations: number;
+  syncConflicts: QueuedOperation[];
+  resolveConflict: (conflict: QueuedOperation, resolution: 'retry' | 'discard') => Promise<void>;
 }
 
+// Changes normally arrive over the live event stream; while it is down, each terminal polls the feed this often
+const SYNC_INTERVAL_MS = 5000;
+
+// API and localStorage hand back dates as strings
+const reviveVehicle = (vehicle: unknown): Vehicle => {
+  const stored = vehicle as Vehicle;
+  return {
+    ...stored,
+    entryTime: new Date(stored.entryTime),
+    exitTime: stored.exitTime ? new Date(stored.exitTime) : undefined,
+    paymentDate: stored.paymentDate ? new Date(stored.paymentDate) : undefined
+  };
+};
+
+const upsertById = <T extends { id: string }>(list: T[], item: T): T[] =>
+  list.some(existing => existing.id === item.id)
+    ? list.map(existing => (existing.id === item.id ? item : existing))
+    : [...list, item];
+
+// The same entry replayed carries the same plate and the entry time its receipt was printed with
+const isSameEntry = (stored: Vehicle, submitted: Vehicle): boolean =>
+  normalizePlate(stored.number) === normalizePlate(submitted.number)
+  && stored.entryTime.getTime() === new Date(submitted.entryTime).getTime();
+
+type DeliveryResult =
+  | { status: 'delivered'; vehicle: Vehicle }
+  | { status: 'retry' }
+  | { status: 'conflict'; error: string };
+
+// Sends one entry or exit; network failures and server errors are worth retrying, other rejections are not
+const deliverOperation = async (operation: QueuedOperation): Promise<DeliveryResult> => {
+  const { vehicle } = operation;
+  try {
+    const saved = operation.kind === 'vehicle.entry'
+      ? await apiService.addVehicle(vehicle, operation.idempotencyKey, operation.capacityOverride)
+      : await apiService.exitVehicle(vehicle.id, {
+        fee: vehicle.fee || 0,
+        updatedAt: vehicle.updatedAt,
+        exitTime: vehicle.exitTime,
+        calculatedFee: vehicle.calculatedFee,
+        lostTicket: vehicle.lostTicket,
+        discount: vehicle.discount,
+        paymentMethod: vehicle.paymentMethod,
+        amountTendered: vehicle.amountTendered,
+        changeGiven: vehicle.changeGiven,
+        exitShiftId: vehicle.exitShiftId,
+        // null clears a pass recognised at entry that had lapsed by the time the vehicle left
+        passClientId: vehicle.passClientId ?? null
+      }, operation.idempotencyKey);
+    return { status: 'delivered', vehicle: reviveVehicle(saved) };
+  } catch (error) {
+    if (!(error instanceof ApiError) || error.status >= 500 || error.status === 401) {
+      return { status: 'retry' };
+    }
+    // Another counter already recorded this vehicle; keep the server's record rather than ours.
+    // An entry whose id is taken by a different vehicle was never recorded, so it stays a conflict.
+    if (error.status === 409 && error.body?.vehicle) {
+      const stored = reviveVehicle(error.body.vehicle);
+      if (operation.kind === 'vehicle.entry' && !isSameEntry(stored, vehicle)) {
+        return { status: 'conflict', error: `Vehicle id ${vehicle.id} is already used by ${stored.number}` };
+      }
+      console.warn('Sync conflict, keeping server record:', error.message);
+      return { status: 'delivered', vehicle: stored };
+    }
+    return { status: 'conflict', error: error.message };
+  }
+};
+
 const ParkingContext = createContext<ParkingContextType | undefined>(undefined);
 
 export const useParkingContext = () => {
@@ -45,29 +140,174 @@ export const useParkingContext = () => {
 export const ParkingProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
   const [vehicles, setVehicles] = useState<Vehicle[]>([]);
   const [permanentClients, setPermanentClients] = useState<Vehicle[]>([]);
-  const [settings, setSettings] = useState<Settings>(getDefaultSettings());
-  const [dailyStats, setDailyStats] = useState<DailyStats[]>([]);
-  const [isAuthenticated, setIsAuthenticated] = useState(false);
+  const [settings, setSettings] = useState<Settings>(loadCachedSettings);
+  const [vehicleTypes, setVehicleTypes] = useState<VehicleCategory[]>(loadCachedVehicleTypes);
+  // A stored token is trusted until the server rejects it with a 401
+  const [isAuthenticated, setIsAuthenticated] = useState(() => !!getAuthToken());
+  const [currentUser, setCurrentUser] = useState<User | null>(null);
+  const [currentShift, setCurrentShift] = useState<Shift | null>(null);
+  const [invoices, setInvoices] = useState<Invoice[]>([]);
+
+  // Mirrors of state for async callbacks that would otherwise see stale closures
+  const vehiclesRef = useRef<Vehicle[]>([]);
+  const permanentClientsRef = useRef<Vehicle[]>([]);
+  const vehicleTypesRef = useRef<VehicleCategory[]>(vehicleTypes);
+  const currentShiftRef = useRef<Shift | null>(null);
+  const invoicesRef = useRef<Invoice[]>([]);
+  // Last change-feed position applied; null until the server has been reached
+  const syncCursorRef = useRef<number | null>(null);
+  const [pendingOperations, setPendingOperations] = useState(0);
+  const [syncConflicts, setSyncConflicts] = useState<QueuedOperation[]>([]);
+  const pendingOperationsRef = useRef(0);
+  const flushingRef = useRef(false);
+
+  const commitVehicles = (updatedVehicles: Vehicle[]) => {
+    vehiclesRef.current = updatedVehicles;
+    setVehicles(updatedVehicles);
+    saveVehicles(updatedVehicles);
+  };
+
+  const commitPermanentClients = (updatedClients: Vehicle[]) => {
+    permanentClientsRef.current = updatedClients;
+    setPermanentClients(updatedClients);
+    savePermanentClients(updatedClients);
+  };
+
+  const commitVehicleTypes = (updatedTypes: VehicleCategory[]) => {
+    const sorted = [...updatedTypes].sort((a, b) => a.sortOrder - b.sortOrder || a.label.localeCompare(b.label));
+    vehicleTypesRef.current = sorted;
+    setVehicleTypes(sorted);
+    cacheVehicleTypes(sorted);
+  };
+
+  const commitCurrentShift = (shift: Shift | null) => {
+    currentShiftRef.current = shift;
+    setCurrentShift(shift);
+    cacheCurrentShift(shift);
+  };
+
+  const commitInvoices = (updatedInvoices: Invoice[]) => {
+    invoicesRef.current = updatedInvoices;
+    setInvoices(updatedInvoices);
+    cacheInvoices(updatedInvoices);
+  };
+
+  const refreshOutbox = async () => {
+    try {
+      const pending = await getPendingOperations();
+      pendingOperationsRef.current = pending.length;
+      setPendingOperations(pending.length);
+      setSyncConflicts(await getConflicts());
+    } catch (error) {
+      console.error('Failed to read offline queue:', error);
+    }
+  };
+
+  // Goes straight to the server unless earlier operations are still queued, since those must land first
+  const submitOperation = async (operation: QueuedOperation): Promise<Vehicle> => {
+    if (pendingOperationsRef.current === 0) {
+      const result = await deliverOperation(operation);
+      if (result.status === 'delivered') return result.vehicle;
+      if (result.status === 'conflict') {
+        await addConflict(operation, result.error);
+        await refreshOutbox();
+        return operation.vehicle;
+      }
+    }
+    try {
+      await enqueueOperation(operation);
+      pendingOperationsRef.current += 1;
+    } catch (error) {
+      console.error('Failed to queue operation offline:', error);
+    }
+    await refreshOutbox();
+    return operation.vehicle;
+  };
+
+  // Replays queued operations in order once /api/health answers, stopping at the first that still cannot get through
+  const flushOutbox = async () => {
+    if (flushingRef.current) return;
+    flushingRef.current = true;
+    try {
+      const operations = await getPendingOperations();
+      if (operations.length === 0) return;
+      await apiService.healthCheck();
+
+      for (const operation of operations) {
+        const result = await deliverOperation(operation);
+        if (result.status === 'retry') break;
+        if (result.status === 'delivered') {
+          commitVehicles(upsertById(vehiclesRef.current, result.vehicle));
+          await removePendingOperation(operation.seq!);
+        } else {
+          await addConflict(operation, result.error);
+        }
+      }
+    } catch (error) {
+      console.warn('Server still unreachable, keeping queued operations:', error);
+    } finally {
+      flushingRef.current = false;
+      await refreshOutbox();
+    }
+  };
+
+  // The sync interval is set up once per login, so it reaches the latest flushOutbox through a ref
+  const flushOutboxRef = useRef(flushOutbox);
+  flushOutboxRef.current = flushOutbox;
+
+  // Any 401 from the API drops us back to the login page
+  useEffect(() => {
+    setUnauthorizedHandler(() => {
+      setIsAuthenticated(false);
+      setCurrentUser(null);
+    });
+    return () => setUnauthorizedHandler(null);
+  }, []);
 
   useEffect(() => {
+    // Nothing can be loaded from the API until we hold a session token
+    if (!isAuthenticated) return;
+
     // Load data from API with fallback to localStorage
     const loadData = async () => {
       try {
-        // Load vehicles and convert string dates back to Date objects
-        const loadedVehicles = (await loadVehicles()).map(vehicle => ({
-          ...vehicle,
-          entryTime: new Date(vehicle.entryTime),
-          exitTime: vehicle.exitTime ? new Date(vehicle.exitTime) : undefined,
-          paymentDate: vehicle.paymentDate ? new Date(vehicle.paymentDate) : undefined
-        }));
+        // Resolve who is signed in so the dashboard can show only their tabs
+        try {
+          const session = await apiService.getSession();
+          setCurrentUser(session.user);
+        } catch (error) {
+          console.warn('Failed to load session:', error);
+        }
+
+        // Take the feed position before the snapshot so nothing written in between is missed;
+        // replaying a change already in the snapshot is harmless
+        try {
+          syncCursorRef.current = (await apiService.getChanges()).cursor;
+        } catch (error) {
+          syncCursorRef.current = null;
+        }
+
+        // The shift is needed first because its opening bounds which vehicles are loaded
+        const shift = await loadCurrentShift();
+        commitCurrentShift(shift);
+
+        // Only vehicles still parked and those seen today or during the open shift are kept in memory;
+        // History, Analytics and older Z-Reports read anything earlier from the server
+        const windowStart = new Date();
+        windowStart.setHours(0, 0, 0, 0);
+        if (shift && new Date(shift.openedAt) < windowStart) windowStart.setTime(new Date(shift.openedAt).getTime());
+
+        // Load vehicles and convert string dates back to Date objects; queued operations
+        // are not on the server yet, so lay them over whatever it returned
+        let loadedVehicles = (await loadVehicles(windowStart)).map(reviveVehicle);
+        for (const operation of await getPendingOperations().catch(() => [] as QueuedOperation[])) {
+          loadedVehicles = upsertById(loadedVehicles, operation.vehicle);
+        }
+        vehiclesRef.current = loadedVehicles;
         setVehicles(loadedVehicles);
         
-        const loadedClients = (await loadPermanentClients()).map(client => ({
-          ...client,
-          entryTime: new Date(client.entryTime),
-          exitTime: client.exitTime ? new Date(client.exitTime) : undefined,
-          paymentDate: client.paymentDate ? new Date(client.paymentDate) : undefined
-        }));
+        const loadedClients = (await loadPermanentClients()).map(reviveVehicle);
+        permanentClientsRef.current = loadedClients;
         setPermanentClients(loadedClients);
         
         // Load settings from API, then merge with defaults to guarantee required fields
@@ -75,240 +315,203 @@ export const ParkingProvider: React.FC<{ children: ReactNode }> = ({ children })
         const defaultSettings = getDefaultSettings();
         const mergedSettings: Settings = {
           ...defaultSettings,
-          ...rawSettings,
-          credentials: {
-            ...defaultSettings.credentials,
-            ...(rawSettings as any)?.credentials
-          }
+          ...rawSettings
         };
         setSettings(mergedSettings);
 
-        // After settings are loaded, auto-auth if credentials unchanged
-        try {
-          const storedAuth = localStorage.getItem('auth_logged_in') === 'true';
-          const storedSig = localStorage.getItem('auth_cred_sig') || '';
-          const currentSig = `${mergedSettings.credentials.username}|${mergedSettings.credentials.password}`;
-          // Update stored signature to current backend settings
-          localStorage.setItem('auth_cred_sig', currentSig);
-          if (storedAuth && storedSig === currentSig) {
-            setIsAuthenticated(true);
-          } else {
-            setIsAuthenticated(false);
-            localStorage.setItem('auth_logged_in', 'false');
-          }
-        } catch {}
-        
-        // Rebuild all daily stats from loaded vehicles instead of just loading from storage
-        if (loadedVehicles.length > 0) {
-          rebuildAllDailyStats(loadedVehicles);
-        } else {
-          const stats = await loadDailyStats();
-          setDailyStats(stats);
-        }
+        commitVehicleTypes(await loadVehicleTypes());
+        commitInvoices(await loadInvoices());
       } catch (error) {
         console.error('Failed to load data:', error);
       }
     };
     
-    loadData();
-    
-    // Reset daily stats at midnight
-    const checkMidnight = setInterval(() => {
-      const now = new Date();
-      if (now.getHours() === 0 && now.getMinutes() === 0) {
-        updateDailyStats();
+    // Merge changes from the feed into local state record by record
+    const applyChanges = (changes: SyncChange[]) => {
+      let nextVehicles = vehiclesRef.current;
+      let nextClients = permanentClientsRef.current;
+      let nextTypes = vehicleTypesRef.current;
+      let nextInvoices = invoicesRef.current;
+
+      for (const change of changes) {
+        if (change.op === 'reset') {
+          // A backup restore replaced whole tables, so start over from a fresh snapshot
+          loadData();
+          return;
+        }
+        if (change.entityType === 'vehicle' && change.op === 'upsert') {
+          nextVehicles = upsertById(nextVehicles, reviveVehicle(change.data));
+        } else if (change.entityType === 'permanent_client') {
+          nextClients = change.op === 'delete'
+            ? nextClients.filter(client => client.id !== change.entityId)
+            : upsertById(nextClients, reviveVehicle(change.data));
+        } else if (change.entityType === 'vehicle_type') {
+          nextTypes = change.op === 'delete'
+            ? nextTypes.filter(vehicleType => vehicleType.id !== change.entityId)
+            : upsertById(nextTypes, change.data as unknown as VehicleCategory);
+        } else if (change.entityType === 'shift' && change.op === 'upsert') {
+          // Only this counter's shift matters here; closing it on another terminal ends it here too
+          const shift = change.data as unknown as Shift;
+          if (shift.counter === getCounterCode() && (!shift.closedAt || currentShiftRef.current?.id === shift.id)) {
+            commitCurrentShift(shift.closedAt ? null : shift);
+          }
+        } else if (change.entityType === 'invoice' && change.op === 'upsert') {
+          nextInvoices = upsertById(nextInvoices, change.data as unknown as Invoice);
+        } else if (change.entityType === 'settings' && change.op === 'upsert') {
+          const syncedSettings = { ...getDefaultSettings(), ...change.data };
+          setSettings(syncedSettings);
+          cacheSettings(syncedSettings);
+        }
       }
-    }, 60000); // Check every minute
 
-    return () => clearInterval(checkMidnight);
-  }, []);
+      if (nextVehicles !== vehiclesRef.current) commitVehicles(nextVehicles);
+      if (nextClients !== permanentClientsRef.current) commitPermanentClients(nextClients);
+      if (nextTypes !== vehicleTypesRef.current) commitVehicleTypes(nextTypes);
+      if (nextInvoices !== invoicesRef.current) commitInvoices(nextInvoices);
+    };
 
-  // Global Auto Restore poll (works even when not on Admin Settings page)
-  useEffect(() => {
-    const interval = setInterval(async () => {
+    // Changes pushed by the server are applied in place; anything at or before our cursor is already here
+    let eventSource: EventSource | null = null;
+    const connectEventStream = () => {
+      if (eventSource || syncCursorRef.current === null || !getAuthToken()) return;
+      eventSource = apiService.openEventStream(syncCursorRef.current);
+      eventSource.addEventListener('change', (event) => {
+        const change: SyncChange = JSON.parse((event as MessageEvent).data);
+        if (syncCursorRef.current !== null && change.seq <= syncCursorRef.current) return;
+        syncCursorRef.current = change.seq;
+        applyChanges([change]);
+      });
+    };
+
+    loadData().then(connectEventStream);
+    refreshOutbox();
+
+    const syncInterval = setInterval(async () => {
+      if (!getAuthToken()) return;
+      // Push our queued writes before pulling everyone else's
+      await flushOutboxRef.current();
+      // The server was unreachable at load time, so a full reload is the only safe way back in
+      if (syncCursorRef.current === null) {
+        await loadData();
+        connectEventStream();
+        return;
+      }
+      // The browser reconnects a dropped stream by itself, but gives up after an error response such as an expired token
+      if (eventSource?.readyState === EventSource.CLOSED) {
+        eventSource = null;
+        connectEventStream();
+      }
+      if (eventSource?.readyState === EventSource.OPEN) return;
       try {
-        // Only run if Auto Restore is explicitly enabled
-        const autoRestoreEnabled = localStorage.getItem('autoRestore') === 'true';
-        if (!autoRestoreEnabled) return;
-        
-        // Check if user was recently active (within last 15 seconds)
-        const lastActivity = localStorage.getItem('last_user_activity');
-        if (lastActivity) {
-          const timeSinceActivity = Date.now() - parseInt(lastActivity);
-          if (timeSinceActivity < 15000) {
-            console.log('Skipping auto restore - user recently active');
-            return;
-          }
-        }
-        
-        // Fetch live data directly from API
-        const freshVehicles = await apiService.getVehicles();
-        const freshClients = await apiService.getPermanentClients();
-        const freshSettings = await apiService.getSettings();
-        const freshStats = await apiService.getDailyStats();
-
-        const sigVehicles = (arr: any[]) => JSON.stringify(
-          arr.map((v: any) => ({ id: v.id, exitTime: v.exitTime || null, fee: v.fee || 0 })).sort((a: any, b: any) => a.id.localeCompare(b.id))
-        );
-        const sigClients = (arr: any[]) => JSON.stringify(arr.map((c: any) => c.id).sort());
-        const sigSettings = (s: any) => JSON.stringify({
-          username: s?.credentials?.username,
-          password: s?.credentials?.password,
-          siteName: s?.siteName,
-          viewMode: s?.viewMode,
-        });
-
-        const currentVehicles = JSON.parse(localStorage.getItem('parking_vehicles') || '[]') as any[];
-        const currentClients = JSON.parse(localStorage.getItem('parking_permanent_clients') || '[]') as any[];
-        const currentSettings = JSON.parse(localStorage.getItem('parking_settings') || '{}') as any;
-
-        // Always replace local data with server data when Auto Restore is enabled
-        localStorage.setItem('parking_vehicles', JSON.stringify(freshVehicles));
-        localStorage.setItem('parking_permanent_clients', JSON.stringify(freshClients));
-        localStorage.setItem('parking_settings', JSON.stringify(freshSettings));
-        localStorage.setItem('parking_daily_stats', JSON.stringify(freshStats));
-        
-        // Always reload to ensure UI reflects server state
-        window.location.reload();
+        const feed = await apiService.getChanges(syncCursorRef.current);
+        syncCursorRef.current = feed.cursor;
+        if (feed.changes.length > 0) applyChanges(feed.changes);
       } catch (error) {
-        console.error('Auto Restore failed:', error);
+        console.warn('Failed to pull changes:', error);
       }
-    }, 60 * 1000);
-
-    return () => clearInterval(interval);
-  }, []);
+    }, SYNC_INTERVAL_MS);
 
+    return () => {
+      eventSource?.close();
+      clearInterval(syncInterval);
+    };
+  }, [isAuthenticated]);
 
-  const login = (username: string, password: string): boolean => {
-    if (username === settings.credentials.username && password === settings.credentials.password) {
+  const login = async (username: string, password: string): Promise<boolean> => {
+    try {
+      const result = await apiService.login(username, password);
+      if (!result?.token) return false;
+      setAuthToken(result.token);
+      setCurrentUser(result.user);
       setIsAuthenticated(true);
-      try {
-        const sig = `${settings.credentials.username}|${settings.credentials.password}`;
-        localStorage.setItem('auth_logged_in', 'true');
-        localStorage.setItem('auth_cred_sig', sig);
-      } catch {}
       return true;
+    } catch (error) {
+      console.error('Login failed:', error);
+      return false;
     }
-    return false;
   };
 
   const logout = () => {
+    setAuthToken(null);
+    setCurrentUser(null);
     setIsAuthenticated(false);
-    try {
-      localStorage.setItem('auth_logged_in', 'false');
-    } catch {}
   };
 
-  const addVehicle = async (vehicle: Omit<Vehicle, 'id'>): Promise<{ id: string; entryTime: Date }> => {
-    const tempId = Date.now().toString();
-    const newVehicle: Vehicle = {
-      ...vehicle,
-      id: tempId
-    };
-
-    // Save to API first and prefer server-assigned ID
-    let serverId: string | null = null;
-    let serverEntryTime: Date | null = null;
-    try {
-      const created: any = await apiService.addVehicle(newVehicle);
-      if (created && created.id) {
-        serverId = String(created.id);
-      }
-      if (created && created.entryTime) {
-        serverEntryTime = new Date(created.entryTime);
-      }
-    } catch (error) {
-      console.error('Failed to save vehicle to API:', error);
-    }
+  // The ticket and its number are only issued when the server records the entry straight away; a queued entry has neither
+  const addVehicle = async (vehicle: Omit<Vehicle, 'id'>, capacityOverride?: CapacityOverride): Promise<Pick<Vehicle, 'id' | 'entryTime' | 'ticketNumber' | 'ticket'>> => {
+    // The id and entry time are ours from the start so a receipt printed offline still matches once replayed
+    const finalVehicle = await submitOperation({
+      kind: 'vehicle.entry',
+      idempotencyKey: createRequestId(),
+      vehicle: { ...vehicle, id: createRequestId(), entryShiftId: currentShiftRef.current?.id },
+      capacityOverride,
+      createdAt: new Date().toISOString()
+    });
 
-    const finalVehicle: Vehicle = {
-      ...newVehicle,
-      id: serverId || newVehicle.id,
-      entryTime: serverEntryTime || newVehicle.entryTime,
-    } as Vehicle;
+    // Read the latest list, since changes from other counters may have arrived during the request
+    commitVehicles(upsertById(vehiclesRef.current, finalVehicle));
 
-    const updatedVehicles = [...vehicles, finalVehicle];
-    setVehicles(updatedVehicles);
-    saveVehicles(updatedVehicles);
-    updateDailyStats(updatedVehicles);
+    return { id: finalVehicle.id, entryTime: finalVehicle.entryTime, ticketNumber: finalVehicle.ticketNumber, ticket: finalVehicle.ticket };
+  };
 
-    // Sync complete vehicle list to server immediately after entry (mirror exit behavior)
-    try {
-      const vehicles = JSON.parse(localStorage.getItem('parking_vehicles') || '[]');
-      const permanentClients = JSON.parse(localStorage.getItem('parking_permanent_clients') || '[]');
-      const settings = JSON.parse(localStorage.getItem('parking_settings') || '{}');
-      const dailyStats = JSON.parse(localStorage.getItem('parking_daily_stats') || '[]');
-      const backup = { vehicles: updatedVehicles, permanentClients, settings, dailyStats, backupDate: new Date().toISOString() };
-
-      const API_BASE_URL = getConfiguredApiBaseUrl();
-      await fetch(`${API_BASE_URL}/backup`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(backup)
-      });
-    } catch (error) {
-      console.error('Failed to sync after vehicle entry:', error);
-    }
+  // Pass the exit time a receipt was shown for so the charge matches what the customer saw.
+  // A lost ticket adds its penalty and a discount is applied last; both are kept on the record for History.
+  // Payment defaults to cash, as for the quick exit from Currently Parked. The fee counts towards the open shift.
+  // A visit on a permanent client's pass, whether recognised at entry or at exit, is charged nothing.
+  const exitVehicle = async (vehicleId: string, exitTime: Date = new Date(), adjustments: ExitAdjustments = {}) => {
+    const { lostTicket, paymentMethod = 'cash', amountTendered } = adjustments;
+    const vehicle = vehiclesRef.current.find(v => v.id === vehicleId && !v.exitTime);
+    if (!vehicle) return;
+
+    // The pass has to be paid up and for this plate when the vehicle leaves, even if it was recognised at
+    // entry; the server refuses a pass exit that is not
+    const passClient = permanentClientsRef.current.find(client => client.id === (adjustments.passClientId || vehicle.passClientId));
+    const passClientId = passClient && normalizePlate(passClient.number) === normalizePlate(vehicle.number)
+      && checkPass(passClient, invoicesRef.current, settings, exitTime).valid ? passClient.id : undefined;
+    const discount = passClientId ? undefined : adjustments.discount;
+    const { pricing } = getVehicleCategory(vehicleTypesRef.current, vehicle.type);
+    const calculatedFee = passClientId ? 0 : calculateParkingFee(vehicle.entryTime, exitTime, pricing, settings.nightBand) + (lostTicket?.penalty || 0);
+    const fee = applyDiscount(calculatedFee, discount);
+    const changeGiven = amountTendered !== undefined ? amountTendered - fee : undefined;
+    const exitedVehicle = await submitOperation({
+      kind: 'vehicle.exit',
+      idempotencyKey: createRequestId(),
+      vehicle: {
+        ...vehicle,
+        exitTime,
+        fee,
+        calculatedFee,
+        lostTicket,
+        discount,
+        paymentMethod,
+        amountTendered,
+        changeGiven,
+        exitShiftId: currentShiftRef.current?.id,
+        passClientId
+      },
+      createdAt: exitTime.toISOString()
+    });
 
-    return { id: finalVehicle.id, entryTime: finalVehicle.entryTime };
+    commitVehicles(upsertById(vehiclesRef.current, exitedVehicle));
   };
 
-  const exitVehicle = async (vehicleId: string) => {
-    // Mark user as active to prevent auto restore interruption
-    try {
-      localStorage.setItem('last_user_activity', Date.now().toString());
-    } catch {}
-    
-    const exitTime = new Date();
-    const vehicle = vehicles.find(v => v.id === vehicleId && !v.exitTime);
-    
-    if (vehicle) {
-      const fee = calculateParkingFee(vehicle.entryTime, exitTime, vehicle.type, settings.pricing);
-      
-      // Save to API first
-      try {
-        await apiService.exitVehicle(vehicleId, fee);
-      } catch (error) {
-        console.error('Failed to exit vehicle via API (will retry once):', error);
-        // Minimal retry after short delay
-        try {
-          await new Promise(res => setTimeout(res, 2000));
-          await apiService.exitVehicle(vehicleId, fee);
-        } catch (err2) {
-          console.error('Retry failed to exit vehicle via API:', err2);
-        }
-      }
-    }
-    
-    const updatedVehicles = vehicles.map(vehicle => {
-      if (vehicle.id === vehicleId && !vehicle.exitTime) {
-        const fee = calculateParkingFee(vehicle.entryTime, exitTime, vehicle.type, settings.pricing);
-        return { ...vehicle, exitTime, fee };
+  // Retrying sends the vehicle's entry first when the server has never seen it, then the original operation
+  const resolveConflict = async (conflict: QueuedOperation, resolution: 'retry' | 'discard') => {
+    const { seq, error, ...operation } = conflict;
+    await removeConflict(seq!);
+    if (resolution === 'retry') {
+      // The version we held belonged to a record the server no longer has
+      const vehicle = { ...operation.vehicle, updatedAt: undefined };
+      if (operation.kind === 'vehicle.exit') {
+        const { exitTime, fee, ...entry } = vehicle;
+        await submitOperation({ ...operation, kind: 'vehicle.entry', idempotencyKey: createRequestId(), vehicle: entry });
       }
-      return vehicle;
-    });
-    
-    setVehicles(updatedVehicles);
-    saveVehicles(updatedVehicles);
-    updateDailyStats(updatedVehicles);
-    
-    // Sync complete vehicle list to server immediately after exit
-    try {
-      const vehicles = JSON.parse(localStorage.getItem('parking_vehicles') || '[]');
-      const permanentClients = JSON.parse(localStorage.getItem('parking_permanent_clients') || '[]');
-      const settings = JSON.parse(localStorage.getItem('parking_settings') || '{}');
-      const dailyStats = JSON.parse(localStorage.getItem('parking_daily_stats') || '[]');
-      const backup = { vehicles: updatedVehicles, permanentClients, settings, dailyStats, backupDate: new Date().toISOString() };
-      
-      const API_BASE_URL = getConfiguredApiBaseUrl();
-      await fetch(`${API_BASE_URL}/backup`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(backup)
-      });
-    } catch (error) {
-      console.error('Failed to sync after vehicle exit:', error);
+      commitVehicles(upsertById(vehiclesRef.current, await submitOperation({ ...operation, idempotencyKey: createRequestId(), vehicle })));
+    } else {
+      // The server does not have this vehicle, so drop it here too
+      commitVehicles(vehiclesRef.current.filter(vehicle => vehicle.id !== operation.vehicle.id));
     }
+    await refreshOutbox();
   };
 
   const addPermanentClient = (client: Omit<Vehicle, 'id'>) => {
@@ -319,36 +522,53 @@ export const ParkingProvider: React.FC<{ children: ReactNode }> = ({ children })
       paymentStatus: 'unpaid'
     };
     
-    const updatedClients = [...permanentClients, newClient];
-    // Attempt to persist to API (non-blocking to avoid UI lag)
+    // Attempt to persist to API (non-blocking to avoid UI lag); the server keeps our id
     apiService.addPermanentClient(newClient).catch((err) => {
       console.error('Failed to add permanent client to API:', err);
     });
-    setPermanentClients(updatedClients);
-    savePermanentClients(updatedClients);
+    commitPermanentClients([...permanentClientsRef.current, newClient]);
   };
 
   const updatePermanentClient = (clientId: string, updates: Partial<Vehicle>) => {
-    const updatedClients = permanentClients.map(client =>
+    const existing = permanentClientsRef.current.find(client => client.id === clientId);
+    const updatedClients = permanentClientsRef.current.map(client =>
       client.id === clientId ? { ...client, ...updates } : client
     );
     
-    // Attempt to persist to API (non-blocking)
-    apiService.updatePermanentClient(clientId, updates).catch((err) => {
+    // Attempt to persist to API (non-blocking); a conflict is resolved by taking the server's copy
+    apiService.updatePermanentClient(clientId, { ...updates, updatedAt: existing?.updatedAt }).then((saved) => {
+      commitPermanentClients(upsertById(permanentClientsRef.current, reviveVehicle(saved)));
+    }).catch((err) => {
+      if (err instanceof ApiError && err.status === 409 && err.body?.client) {
+        commitPermanentClients(upsertById(permanentClientsRef.current, reviveVehicle(err.body.client)));
+      }
       console.error('Failed to update permanent client on API:', err);
     });
-    setPermanentClients(updatedClients);
-    savePermanentClients(updatedClients);
+    commitPermanentClients(updatedClients);
   };
 
   const removePermanentClient = (clientId: string) => {
-    const updatedClients = permanentClients.filter(client => client.id !== clientId);
     // Attempt to persist to API (non-blocking)
     apiService.removePermanentClient(clientId).catch((err) => {
       console.error('Failed to remove permanent client on API:', err);
     });
-    setPermanentClients(updatedClients);
-    savePermanentClients(updatedClients);
+    commitPermanentClients(permanentClientsRef.current.filter(client => client.id !== clientId));
+  };
+
+  // Renewal bills the new term, so like payments it waits for the server
+  const renewPermanentClient = async (clientId: string, planId?: string) => {
+    const { client, invoice } = await apiService.renewPermanentClient(clientId, planId);
+    const renewed = reviveVehicle(client);
+    commitPermanentClients(upsertById(permanentClientsRef.current, renewed));
+    commitInvoices(upsertById(invoicesRef.current, invoice));
+    return { client: renewed, invoice };
+  };
+
+  // The server checks the whole batch and writes it in one go, so an import is never applied offline
+  const importPermanentClients = async (clients: Omit<Vehicle, 'id'>[]) => {
+    const imported = (await apiService.importPermanentClients(clients)).map(reviveVehicle);
+    commitPermanentClients(imported.reduce((clients, client) => upsertById(clients, client), permanentClientsRef.current));
+    return imported;
   };
 
   const updateSettings = (newSettings: Settings) => {
@@ -356,63 +576,77 @@ export const ParkingProvider: React.FC<{ children: ReactNode }> = ({ children })
     saveSettings(newSettings);
   };
 
-  const getCurrentlyParked = (): Vehicle[] => {
-    return vehicles.filter(vehicle => !vehicle.exitTime);
+  // Categories are owner-managed and the server assigns their ids, so these wait for the API instead of
+  // updating optimistically; the caller reports failures such as removing a category still in use
+  const addVehicleType = async (vehicleType: Omit<VehicleCategory, 'id' | 'updatedAt'>) => {
+    const saved = await apiService.addVehicleType(vehicleType);
+    commitVehicleTypes(upsertById(vehicleTypesRef.current, saved));
+    return saved;
+  };
+
+  const updateVehicleType = async (vehicleTypeId: string, updates: Partial<Omit<VehicleCategory, 'id' | 'updatedAt'>>) => {
+    const saved = await apiService.updateVehicleType(vehicleTypeId, updates);
+    commitVehicleTypes(upsertById(vehicleTypesRef.current, saved));
   };
 
-  const rebuildAllDailyStats = (vehiclesToUse: Vehicle[]) => {
-    // Get all unique dates from vehicle entries and exits
-    const allDates = new Set<string>();
-    vehiclesToUse.forEach(v => {
-      allDates.add(v.entryTime.toDateString());
-      if (v.exitTime) {
-        allDates.add(v.exitTime.toDateString());
+  const removeVehicleType = async (vehicleTypeId: string) => {
+    await apiService.removeVehicleType(vehicleTypeId);
+    commitVehicleTypes(vehicleTypesRef.current.filter(vehicleType => vehicleType.id !== vehicleTypeId));
+  };
+
+  // Shifts are opened and closed online only, since the server keeps one open shift per counter.
+  // If another terminal on the same counter already opened one, that shift is adopted and the 409 passed on.
+  const openShift = async (openingFloat: number) => {
+    try {
+      const shift = await apiService.openShift(openingFloat);
+      commitCurrentShift(shift);
+      return shift;
+    } catch (error) {
+      if (error instanceof ApiError && error.status === 409 && error.body?.shift) {
+        commitCurrentShift(error.body.shift as Shift);
       }
-    });
+      throw error;
+    }
+  };
+
+  const closeShift = async (countedCash: number, note?: string) => {
+    if (!currentShiftRef.current) throw new Error('No shift is open');
+    const shift = await apiService.closeShift(currentShiftRef.current.id, countedCash, note);
+    commitCurrentShift(null);
+    return shift;
+  };
 
-    const rebuiltStats: DailyStats[] = Array.from(allDates).map(dateString => {
-      // Get all vehicles that entered on this date (for counts)
-      const enteredVehicles = vehiclesToUse.filter(v => 
-        v.entryTime.toDateString() === dateString
-      );
-      
-      // Get all vehicles that exited on this date (for income)
-      const exitedVehicles = vehiclesToUse.filter(v => 
-        v.exitTime && v.exitTime.toDateString() === dateString
-      );
-
-      return {
-        date: dateString,
-        totalCars: enteredVehicles.filter(v => v.type === 'car').length,
-        totalBikes: enteredVehicles.filter(v => v.type === 'bike').length,
-        totalRickshaws: enteredVehicles.filter(v => v.type === 'rickshaw').length,
-        totalVehicles: enteredVehicles.length,
-        // Income from vehicles that exited on this date
-        totalIncome: exitedVehicles.reduce((sum, v) => sum + (v.fee || 0), 0),
-        // Show vehicles that entered on this date
-        vehicles: enteredVehicles
-      };
-    }).sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()); // Sort newest first
-
-    setDailyStats(rebuiltStats);
-    saveDailyStats(rebuiltStats);
+  // Called after the counter code changes, since each counter has its own shift
+  const refreshCurrentShift = async () => {
+    commitCurrentShift(await apiService.getCurrentShift());
   };
 
-  const updateDailyStats = (updatedVehicleList?: Vehicle[]) => {
-    const vehiclesToUse = updatedVehicleList || vehicles;
-    rebuildAllDailyStats(vehiclesToUse);
+  // Invoices are generated by the server, so the only thing recorded here is a payment, and only online
+  const recordInvoicePayment = async (invoiceId: string, payment: { amount: number; method: PaymentMethod; note?: string }) => {
+    const invoice = await apiService.addInvoicePayment(invoiceId, payment);
+    commitInvoices(upsertById(invoicesRef.current, invoice));
+    return invoice;
+  };
+
+  const getCurrentlyParked = (): Vehicle[] => {
+    return vehicles.filter(vehicle => !vehicle.exitTime);
   };
 
+  // Only today is worked out here, in one pass; longer ranges come from the server's reports
   const getTodayStats = (): DailyStats => {
     const today = getTodayString();
-    return dailyStats.find(s => s.date === today) || {
+    const enteredVehicles = vehicles.filter(v => v.entryTime.toDateString() === today);
+    const exitedVehicles = vehicles.filter(v => v.exitTime && v.exitTime.toDateString() === today);
+    return {
       date: today,
-      totalCars: 0,
-      totalBikes: 0,
-      totalRickshaws: 0,
-      totalVehicles: 0,
-      totalIncome: 0,
-      vehicles: []
+      byType: enteredVehicles.reduce<Record<string, number>>((counts, v) => {
+        counts[v.type] = (counts[v.type] || 0) + 1;
+        return counts;
+      }, {}),
+      totalVehicles: enteredVehicles.length,
+      totalIncome: exitedVehicles.reduce((sum, v) => sum + (v.fee || 0), 0),
+      incomeByMethod: sumByPaymentMethod(exitedVehicles),
+      vehicles: enteredVehicles
     };
   };
 
@@ -421,8 +655,9 @@ export const ParkingProvider: React.FC<{ children: ReactNode }> = ({ children })
       vehicles,
       permanentClients,
       settings,
-      dailyStats,
+      vehicleTypes,
       isAuthenticated,
+      currentUser,
       login,
       logout,
       addVehicle,
@@ -430,9 +665,23 @@ export const ParkingProvider: React.FC<{ children: ReactNode }> = ({ children })
       addPermanentClient,
       updatePermanentClient,
       removePermanentClient,
+      renewPermanentClient,
+      importPermanentClients,
       updateSettings,
+      addVehicleType,
+      updateVehicleType,
+      removeVehicleType,
+      currentShift,
+      openShift,
+      closeShift,
+      refreshCurrentShift,
+      invoices,
+      recordInvoicePayment,
       getCurrentlyParked,
-      getTodayStats
+      getTodayStats,
+      pendingOperations,
+      syncConflicts,
+      resolveConflict
     }}>
       {children}
     </ParkingContext.Provider>
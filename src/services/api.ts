@@ -1,3 +1,5 @@
+import { User, AuditEntry, AuditFilters, ChangeFeed, Vehicle, VehicleCategory, CapacityOverride, LostTicket, FeeDiscount, PaymentMethod, Shift, Invoice, PassCode, ImportMode, ImportPreview, ImportSectionDiff, Snapshot, ReportActivity, ReportGroupBy, ReportSummary } from '@/types/parking';
+
 // Dynamic API base URL with localStorage override so we can change servers without rebuilds
 export function getConfiguredApiBaseUrl(): string {
   try {
@@ -19,24 +21,123 @@ export function setConfiguredApiBaseUrl(url: string) {
   } catch {}
 }
 
+// Session token issued by /auth/login; attached to every request
+const AUTH_TOKEN_KEY = 'auth_token';
+
+export function getAuthToken(): string | null {
+  try {
+    return localStorage.getItem(AUTH_TOKEN_KEY);
+  } catch {
+    return null;
+  }
+}
+
+export function setAuthToken(token: string | null) {
+  try {
+    if (token) {
+      localStorage.setItem(AUTH_TOKEN_KEY, token);
+    } else {
+      localStorage.removeItem(AUTH_TOKEN_KEY);
+    }
+  } catch {
+    // Without storage the session only lasts until the page is reloaded
+  }
+}
+
+// Called when the server rejects our session so the app can return to the login page
+let unauthorizedHandler: (() => void) | null = null;
+
+export function setUnauthorizedHandler(handler: (() => void) | null) {
+  unauthorizedHandler = handler;
+}
+
+// crypto.randomUUID is missing outside secure contexts, e.g. a counter reaching the server over plain LAN http
+export function createRequestId(): string {
+  return crypto.randomUUID ? crypto.randomUUID() : `${Date.now()}-${Math.random().toString(36).slice(2)}`;
+}
+
+// Stable id for this browser, sent with every request so the change feed can tell counters apart
+const CLIENT_ID_KEY = 'client_id';
+
+export function getClientId(): string {
+  try {
+    let clientId = localStorage.getItem(CLIENT_ID_KEY);
+    if (!clientId) {
+      clientId = createRequestId();
+      localStorage.setItem(CLIENT_ID_KEY, clientId);
+    }
+    return clientId;
+  } catch {
+    return 'unknown';
+  }
+}
+
+// Code for this terminal's counter, sent with every request so the server can number its tickets
+const COUNTER_KEY = 'counter_code';
+
+export function getCounterCode(): string {
+  try {
+    return localStorage.getItem(COUNTER_KEY) || 'A';
+  } catch {
+    return 'A';
+  }
+}
+
+export function setCounterCode(code: string) {
+  try {
+    const normalized = code.toUpperCase().replace(/[^A-Z0-9]/g, '').slice(0, 3);
+    if (normalized) {
+      localStorage.setItem(COUNTER_KEY, normalized);
+    } else {
+      localStorage.removeItem(COUNTER_KEY);
+    }
+  } catch {
+    // Without storage the terminal keeps issuing tickets as counter A
+  }
+}
+
+// Error responses carry { error } and, for conflicts, the server's copy of the record
+export interface ApiErrorBody {
+  error?: string;
+  [key: string]: unknown;
+}
+
+// Carries the HTTP status and parsed body so callers can react to conflicts (409) with the server's copy
+export class ApiError extends Error {
+  constructor(public status: number, public body: ApiErrorBody | null) {
+    super(body?.error || `HTTP error! status: ${status}`);
+    this.name = 'ApiError';
+  }
+}
+
 class ApiService {
   private async request<T>(endpoint: string, options: RequestInit = {}): Promise<T> {
     const base = getConfiguredApiBaseUrl();
     const url = `${base}${endpoint}`;
+    const token = getAuthToken();
     
     const config: RequestInit = {
+      ...options,
       headers: {
         'Content-Type': 'application/json',
+        'X-Client-Id': getClientId(),
+        'X-Counter': getCounterCode(),
+        ...(token ? { Authorization: `Bearer ${token}` } : {}),
         ...options.headers,
       },
-      ...options,
     };
 
     try {
       const response = await fetch(url, config);
       
+      if (response.status === 401) {
+        setAuthToken(null);
+        unauthorizedHandler?.();
+      }
+
       if (!response.ok) {
-        throw new Error(`HTTP error! status: ${response.status}`);
+        const body = await response.json().catch(() => null);
+        throw new ApiError(response.status, body);
       }
       
       return await response.json();
@@ -48,28 +149,103 @@ class ApiService {
 
   // Authentication
   async login(username: string, password: string) {
-    return this.request('/auth/login', {
+    return this.request<{ success: boolean; token: string; user: User }>('/auth/login', {
       method: 'POST',
       body: JSON.stringify({ username, password }),
     });
   }
 
+  async getSession() {
+    return this.request<{ user: User }>('/auth/session');
+  }
+
+  async updateCredentials(currentPassword: string, username: string, password: string) {
+    return this.request('/auth/credentials', {
+      method: 'PUT',
+      body: JSON.stringify({ currentPassword, username, password }),
+    });
+  }
+
+  // A supervisor's credentials, entered at another operator's counter, approve one over-capacity entry
+  async approveCapacityOverride(username: string, password: string, number: string, type: string) {
+    return this.request<{ approval: string; approver: User }>('/auth/approvals/capacity', {
+      method: 'POST',
+      body: JSON.stringify({ username, password, number, type }),
+    });
+  }
+
+  // Users
+  async getUsers() {
+    return this.request<User[]>('/users');
+  }
+
+  async addUser(user: { username: string; displayName: string; password: string; role: User['role'] }) {
+    return this.request<User>('/users', {
+      method: 'POST',
+      body: JSON.stringify(user),
+    });
+  }
+
+  async updateUser(userId: string, updates: Partial<Omit<User, 'id' | 'username' | 'createdAt'>> & { password?: string }) {
+    return this.request<User>(`/users/${userId}`, {
+      method: 'PUT',
+      body: JSON.stringify(updates),
+    });
+  }
+
+  async removeUser(userId: string) {
+    return this.request(`/users/${userId}`, {
+      method: 'DELETE',
+    });
+  }
+
   // Vehicles
-  async getVehicles() {
-    return this.request('/vehicles');
+  // Without "since" every vehicle ever recorded is returned, which only backups should need
+  async getVehicles(since?: Date) {
+    return this.request<Vehicle[]>(since ? `/vehicles?since=${encodeURIComponent(since.toISOString())}` : '/vehicles');
+  }
+
+  // The vehicles that entered or left during a shift, for the Z-Report of a shift outside the loaded window
+  async getShiftVehicles(shiftId: string) {
+    return this.request<Vehicle[]>(`/vehicles?shiftId=${encodeURIComponent(shiftId)}`);
   }
 
-  async addVehicle(vehicle: any) {
+  // The idempotency key lets a replayed operation be recognised if its first attempt did reach the server
+  async addVehicle(vehicle: any, idempotencyKey?: string, capacityOverride?: CapacityOverride) {
     return this.request('/vehicles', {
       method: 'POST',
-      body: JSON.stringify(vehicle),
+      headers: idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : undefined,
+      body: JSON.stringify({ ...vehicle, capacityOverride }),
+    });
+  }
+
+  // Answers 400 when the signature does not match and 409 when the ticket has already been used.
+  // A pass card answers with the vehicle parked under its plate, or 404 if there is none.
+  async verifyTicket(code: string) {
+    return this.request<Vehicle>('/tickets/verify', {
+      method: 'POST',
+      body: JSON.stringify({ code }),
     });
   }
 
-  async exitVehicle(vehicleId: string, fee: number) {
+  // updatedAt is the version this terminal last saw; the server answers 409 if it has moved on
+  async exitVehicle(vehicleId: string, exit: {
+    fee: number;
+    updatedAt?: string;
+    exitTime?: Date;
+    calculatedFee?: number;
+    lostTicket?: LostTicket;
+    discount?: FeeDiscount;
+    paymentMethod?: PaymentMethod;
+    amountTendered?: number;
+    changeGiven?: number;
+    exitShiftId?: string;
+    passClientId?: string | null;
+  }, idempotencyKey?: string) {
     return this.request(`/vehicles/${vehicleId}/exit`, {
       method: 'PUT',
-      body: JSON.stringify({ fee }),
+      headers: idempotencyKey ? { 'Idempotency-Key': idempotencyKey } : undefined,
+      body: JSON.stringify(exit),
     });
   }
 
@@ -85,10 +261,20 @@ class ApiService {
     });
   }
 
+  // All or nothing: a 400 carries { rows: [{ row, errors }] } for the rows the server rejected
+  async importPermanentClients(clients: Omit<Vehicle, 'id'>[]) {
+    return this.request<Vehicle[]>('/permanent-clients/import', {
+      method: 'POST',
+      body: JSON.stringify({ clients }),
+    });
+  }
+
+  // A field set to undefined is being cleared; JSON would drop it, so send null instead
   async updatePermanentClient(clientId: string, updates: any) {
+    const body = Object.fromEntries(Object.entries(updates).map(([key, value]) => [key, value === undefined ? null : value]));
     return this.request(`/permanent-clients/${clientId}`, {
       method: 'PUT',
-      body: JSON.stringify(updates),
+      body: JSON.stringify(body),
     });
   }
 
@@ -98,6 +284,84 @@ class ApiService {
     });
   }
 
+  // Codes for pass cards, for every client or just one
+  async getPassCodes(clientId?: string) {
+    return this.request<PassCode[]>(`/passes${clientId ? `?clientId=${encodeURIComponent(clientId)}` : ''}`);
+  }
+
+  // Vehicle Types
+  async getVehicleTypes() {
+    return this.request<VehicleCategory[]>('/vehicle-types');
+  }
+
+  async addVehicleType(vehicleType: Omit<VehicleCategory, 'id' | 'updatedAt'> & { id?: string }) {
+    return this.request<VehicleCategory>('/vehicle-types', {
+      method: 'POST',
+      body: JSON.stringify(vehicleType),
+    });
+  }
+
+  // As with clients, an undefined field (such as a removed capacity) is sent as null so it is cleared
+  async updateVehicleType(vehicleTypeId: string, updates: Partial<Omit<VehicleCategory, 'id' | 'updatedAt'>>) {
+    const body = Object.fromEntries(Object.entries(updates).map(([key, value]) => [key, value === undefined ? null : value]));
+    return this.request<VehicleCategory>(`/vehicle-types/${vehicleTypeId}`, {
+      method: 'PUT',
+      body: JSON.stringify(body),
+    });
+  }
+
+  async removeVehicleType(vehicleTypeId: string) {
+    return this.request(`/vehicle-types/${vehicleTypeId}`, {
+      method: 'DELETE',
+    });
+  }
+
+  // Shifts
+  async getShifts() {
+    return this.request<Shift[]>('/shifts');
+  }
+
+  // The open shift on this terminal's counter, or null
+  async getCurrentShift() {
+    return this.request<Shift | null>('/shifts/current');
+  }
+
+  // Answers 409 with the open shift if this counter already has one
+  async openShift(openingFloat: number) {
+    return this.request<Shift>('/shifts', {
+      method: 'POST',
+      body: JSON.stringify({ openingFloat }),
+    });
+  }
+
+  async closeShift(shiftId: string, countedCash: number, note?: string) {
+    return this.request<Shift>(`/shifts/${shiftId}/close`, {
+      method: 'PUT',
+      body: JSON.stringify({ countedCash, note }),
+    });
+  }
+
+  // Invoices
+  async getInvoices() {
+    return this.request<Invoice[]>('/invoices');
+  }
+
+  // Answers 400 for a zero amount or one larger than what is still owed on the invoice
+  async addInvoicePayment(invoiceId: string, payment: { amount: number; method: PaymentMethod; note?: string }) {
+    return this.request<Invoice>(`/invoices/${invoiceId}/payments`, {
+      method: 'POST',
+      body: JSON.stringify(payment),
+    });
+  }
+
+  // Answers 409 when the term that would start has already been invoiced
+  async renewPermanentClient(clientId: string, planId?: string) {
+    return this.request<{ client: Vehicle; invoice: Invoice }>(`/permanent-clients/${clientId}/renew`, {
+      method: 'POST',
+      body: JSON.stringify({ planId }),
+    });
+  }
+
   // Settings
   async getSettings() {
     return this.request('/settings');
@@ -110,15 +374,75 @@ class ApiService {
     });
   }
 
-  // Daily Stats
-  async getDailyStats() {
-    return this.request('/daily-stats');
+  // Reports
+  // from and to are inclusive YYYY-MM-DD days in the server's time zone
+  async getReportSummary(from: string, to: string, groupBy: ReportGroupBy = 'day') {
+    return this.request<ReportSummary>(`/reports/summary?from=${from}&to=${to}&groupBy=${groupBy}`);
+  }
+
+  // Finished visits that left within the range, newest first
+  async getReportVehicles(from: string, to: string) {
+    return this.request<Vehicle[]>(`/reports/vehicles?from=${from}&to=${to}`);
+  }
+
+  async getReportActivity(from: string, to: string) {
+    return this.request<ReportActivity>(`/reports/activity?from=${from}&to=${to}`);
+  }
+
+  // Change Feed
+  async getChanges(since?: number) {
+    return this.request<ChangeFeed>(`/changes${since !== undefined ? `?since=${since}` : ''}`);
+  }
+
+  // Live changes pushed by the server; EventSource cannot send headers, so the token goes in the query string
+  openEventStream(since: number) {
+    const params = new URLSearchParams({ since: String(since), token: getAuthToken() || '' });
+    return new EventSource(`${getConfiguredApiBaseUrl()}/events?${params.toString()}`);
+  }
+
+  // Audit Log
+  async getAuditLog(filters: AuditFilters = {}) {
+    const params = new URLSearchParams();
+    Object.entries(filters).forEach(([key, value]) => {
+      if (value) params.set(key, value);
+    });
+    const query = params.toString();
+    return this.request<AuditEntry[]>(`/audit${query ? `?${query}` : ''}`);
+  }
+
+  // Backup
+  // Answers 400 with every validation error in `details` when the file does not match the schemas
+  async previewBackup(backup: Record<string, unknown>, mode: ImportMode) {
+    return this.request<ImportPreview>(`/backup/preview?mode=${mode}`, {
+      method: 'POST',
+      body: JSON.stringify(backup),
+    });
+  }
+
+  async downloadBackup() {
+    return this.request<Record<string, unknown>>('/backup/download');
+  }
+
+  async uploadBackup(backup: Record<string, unknown>, mode: ImportMode = 'replace') {
+    return this.request<{ success: boolean; message: string; sections: ImportSectionDiff[] }>(`/backup?mode=${mode}`, {
+      method: 'POST',
+      body: JSON.stringify(backup),
+    });
+  }
+
+  // Snapshots
+  async getSnapshots() {
+    return this.request<Snapshot[]>('/backups');
+  }
+
+  async takeSnapshot() {
+    return this.request<Snapshot>('/backups', { method: 'POST' });
   }
 
-  async updateDailyStats(stats: any) {
-    return this.request('/daily-stats', {
+  // Snapshots the current data first and answers it as safetySnapshot, so the restore can be undone
+  async restoreSnapshot(snapshotId: string) {
+    return this.request<{ success: boolean; message: string; sections: ImportSectionDiff[]; safetySnapshot: Snapshot }>(`/backups/${snapshotId}/restore`, {
       method: 'POST',
-      body: JSON.stringify(stats),
     });
   }
 
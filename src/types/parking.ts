@@ -1,49 +1,344 @@
+// Canonical record shape shared with the API; server/schema.js maps it to and from database columns
 export interface Vehicle {
   id: string;
   number: string;
   clientName?: string;
-  type: 'car' | 'bike' | 'rickshaw';
+  type: string; // VehicleCategory id
   entryTime: Date;
   exitTime?: Date;
-  fee?: number;
+  fee?: number; // What was charged, after any discount
+  calculatedFee?: number; // What the tariff asked for, including any lost-ticket penalty
+  discount?: FeeDiscount;
+  paymentMethod?: PaymentMethod;
+  amountTendered?: number; // Cash handed over by the driver
+  changeGiven?: number;
   isPermanent?: boolean;
   cnic?: string;
   monthlyFee?: number;
   paymentStatus?: 'paid' | 'unpaid';
   paymentDate?: Date;
   contact?: string; // Added for permanent client contact number
+  updatedAt?: string; // Server version, sent back with updates to detect conflicting edits
+  ticketNumber?: string; // Assigned by the server per counter and day, e.g. A-20261019-0042
+  ticket?: string; // Signed barcode, only on the server's answer to the entry that issued it
+  lostTicket?: LostTicket; // Set when the vehicle left without its ticket
+  entryShiftId?: string; // Shift open on the counter when the vehicle entered
+  exitShiftId?: string; // Shift open on the counter when it left, which its fee counts towards
+  passClientId?: string; // Permanent client whose pass covered the visit, which is then charged nothing
+  enteredBy?: string; // Username of the operator who recorded the entry; set by the server
+  exitedBy?: string; // Username of the operator who recorded the exit
+  planId?: string; // Permanent clients only: SubscriptionPlan id; unset for clients invoiced monthly on monthlyFee
+  startDate?: string; // YYYY-MM-DD, first day of the current subscription
+  endDate?: string; // YYYY-MM-DD, last day covered; the pass lapses after it
+}
+
+export type PaymentMethod = 'cash' | 'card' | 'jazzcash' | 'easypaisa';
+
+// How an exit fee was reduced; reasonCode is one of Settings.discountReasons
+export interface FeeDiscount {
+  kind: 'percent' | 'fixed' | 'waiver';
+  value?: number; // Percentage or PKR off; unused for a waiver
+  reasonCode: string;
+  note?: string;
+}
+
+// Recorded with an exit alongside the tariff fee; the change is worked out from the final fee
+export interface ExitAdjustments {
+  lostTicket?: LostTicket;
+  discount?: FeeDiscount;
+  paymentMethod?: PaymentMethod;
+  amountTendered?: number;
+  passClientId?: string; // A permanent client's pass recognised at exit; the visit is charged nothing
+}
+
+// Result of looking up a plate's monthly pass at entry or exit
+export interface PassCheck {
+  client: Vehicle;
+  valid: boolean;
+  warning?: string; // Why the pass cannot be used, shown to the attendant
+}
+
+// Signed code printed on a client's pass card; the exit scanner accepts it like a ticket
+export interface PassCode {
+  clientId: string;
+  code: string;
+}
+
+export interface DiscountReason {
+  code: string;
+  label: string;
+}
+
+// Captured when a driver exits without their ticket; the penalty is charged on top of the normal fee
+export interface LostTicket {
+  cnic: string;
+  note: string;
+  penalty: number;
+}
+
+// Tariff for one vehicle type. Everything after extraHourFee is optional so settings saved
+// before the tariff engine keep charging exactly as they did.
+export interface VehiclePricing {
+  baseHours: number;
+  baseFee: number;
+  extraHourFee: number; // Per extra hour during the day band
+  nightHourFee?: number; // Per extra hour during the night band; defaults to extraHourFee
+  gracePeriodMinutes?: number; // Stays this short are free
+  overnightFee?: number; // Flat fee per night, replacing hourly charges inside the night band
+  dailyMaximum?: number; // Cap on charges within each 24 hours from entry; 0 means no cap
+  roundingMinutes?: 15 | 30 | 60; // Billing increment; defaults to whole hours
+}
+
+// Hours (0-23, local time) bounding the night band; a start after the end wraps past midnight
+export interface NightBand {
+  startHour: number;
+  endHour: number;
+}
+
+export interface FeeLine {
+  label: string;
+  amount: number;
+}
+
+export interface FeeBreakdown {
+  total: number;
+  billedMinutes: number;
+  lines: FeeLine[];
+}
+
+// A vehicle category configured in Settings; the id is what vehicles store as their type
+export interface VehicleCategory {
+  id: string;
+  label: string;
+  icon: string; // Key of VEHICLE_ICONS in src/utils/vehicleTypes.ts
+  pricing: VehiclePricing;
+  sortOrder: number;
+  capacity?: number; // Spaces in the lot for this category; unset means unlimited
+  updatedAt?: string;
+}
+
+// Sent with an entry that goes past capacity. Without an approval token the signed-in
+// operator must be a supervisor; either way the server logs who allowed it.
+export interface CapacityOverride {
+  approval?: string;
+}
+
+// A cash drawer session on one counter, from the opening float to the closing count
+export interface Shift {
+  id: string;
+  counter: string;
+  openedBy: string; // Username
+  openedAt: string;
+  openingFloat: number;
+  closedBy?: string;
+  closedAt?: string;
+  countedCash?: number;
+  expectedCash?: number; // Worked out by the server when the shift is closed
+  note?: string;
+  updatedAt?: string;
+}
+
+// Totals printed on a shift's Z-report, built from the vehicles tagged with the shift
+export interface ShiftReport {
+  entries: number;
+  exits: number;
+  totalIncome: number;
+  incomeByMethod: Partial<Record<PaymentMethod, number>>;
+  discountCount: number;
+  discountTotal: number;
+  lostTickets: number;
+  expectedCash: number;
+  countedCash?: number;
+  variance?: number; // Counted minus expected; negative when the drawer is short
+}
+
+// One month's charge for a permanent client; src/utils/billing.ts works out whether it is paid, due or overdue
+export interface Invoice {
+  id: string; // "<client id>-<period>"
+  clientId: string;
+  period: string; // YYYY-MM
+  amount: number;
+  dueDate: string; // YYYY-MM-DD
+  issuedAt: string;
+  coversTo?: string; // YYYY-MM-DD, last day of the term on an invoice raised for a subscription plan
+  payments: InvoicePayment[];
+  updatedAt?: string;
+}
+
+export interface InvoicePayment {
+  id: string;
+  amount: number;
+  method: PaymentMethod;
+  paidAt: string;
+  receivedBy?: string; // Username
+  note?: string;
+}
+
+export type PlanHours = 'all' | 'day' | 'night';
+
+// A subscription offered to permanent clients, kept in Settings
+export interface SubscriptionPlan {
+  id: string;
+  name: string;
+  months: number; // Length of one term
+  hours: PlanHours; // Day and night follow Settings.nightBand
+  prices: Record<string, number>; // Per term, by vehicle type id; a type without a price cannot take the plan
+}
+
+export type BillingStatus = 'paid' | 'due' | 'overdue';
+
+// How often the server snapshots its data and how many snapshots it keeps
+export interface BackupSchedule {
+  enabled: boolean;
+  intervalHours: number;
+  keep: number;
 }
 
 export interface Settings {
   siteName: string;
-  pricing: {
-    car: { baseHours: number; baseFee: number; extraHourFee: number };
-    bike: { baseHours: number; baseFee: number; extraHourFee: number };
-    rickshaw: { baseHours: number; baseFee: number; extraHourFee: number };
-  };
-  credentials: {
-    username: string;
-    password: string;
-  };
+  nightBand?: NightBand;
+  lostTicketPenalty?: number; // PKR added to the fee when a driver exits without their ticket
+  discountReasons?: DiscountReason[]; // Codes an operator must pick from to discount or waive a fee
+  billingDueDay?: number; // Day of the month (1-28) permanent client invoices fall due; defaults to the 10th
+  subscriptionPlans?: SubscriptionPlan[];
+  backupSchedule?: BackupSchedule; // Defaults to enabled, every 24 hours, keeping 14
   viewMode: 'grid' | 'list';
 }
 
 export interface DailyStats {
   date: string;
-  totalCars: number;
-  totalBikes: number;
-  totalRickshaws: number;
+  byType: Record<string, number>; // Vehicles entered per category id
+  incomeByMethod: Partial<Record<PaymentMethod, number>>; // Income from exits on this day per payment method
   totalVehicles: number;
   totalIncome: number;
   vehicles: Vehicle[];
 }
 
+export type ReportGroupBy = 'day' | 'week' | 'month' | 'type' | 'operator';
+
+// Totals for one group of a report. Entries count on the day a vehicle came in, everything else on the day it left
+export interface ReportTotals {
+  entries: number;
+  byType: Record<string, number>; // Entries per category id
+  exits: number;
+  income: number;
+  incomeByMethod: Partial<Record<PaymentMethod, number>>;
+  lostTickets: number;
+  lostTicketPenalties: number;
+  discounts: number;
+  discountAmount: number; // What the tariff asked for minus what was charged
+  passVisits: number;
+}
+
+export interface ReportGroup extends ReportTotals {
+  key: string | null; // YYYY-MM-DD (the Monday, for weeks), YYYY-MM, a category id or an operator's username; null when no operator was recorded
+}
+
+export interface ReportSummary {
+  from: string;
+  to: string;
+  groupBy: ReportGroupBy;
+  groups: ReportGroup[]; // Oldest first, or by income for types and operators
+  totals: ReportTotals;
+}
+
+export interface ReportActivity {
+  from: string;
+  to: string;
+  entriesByHour: { weekday: number; hour: number; entries: number }[]; // ISO weekdays, Monday 1 to Sunday 7; only hours with entries
+  dwellByType: { type: string; visits: number; averageMinutes: number }[]; // Visits that left within the range
+  peakOccupancy: { day: string; peak: number; at: string | null }[]; // Every day of the range; at is null when the peak was carried over from the day before
+}
+
 export interface Receipt {
   id: string;
   vehicleNumber: string;
-  vehicleType: 'car' | 'bike' | 'rickshaw';
+  vehicleType: string;
   entryTime: Date;
   exitTime?: Date;
   fee?: number;
   barcode: string;
-}
\ No newline at end of file
+}
+
+export type UserRole = 'attendant' | 'supervisor' | 'owner';
+
+export interface User {
+  id: string;
+  username: string;
+  displayName: string;
+  role: UserRole;
+  active: boolean;
+  createdAt: string;
+}
+
+export interface AuditEntry {
+  id: string;
+  createdAt: string;
+  actorId: string | null;
+  actorUsername: string | null;
+  action: string;
+  entityType: string;
+  entityId: string | null;
+  before: Record<string, unknown> | null;
+  after: Record<string, unknown> | null;
+}
+
+export interface AuditFilters {
+  actor?: string;
+  action?: string;
+  from?: string;
+  to?: string;
+}
+
+export interface SyncChange {
+  seq: number;
+  entityType: 'vehicle' | 'permanent_client' | 'vehicle_type' | 'shift' | 'invoice' | 'settings' | 'all';
+  entityId: string;
+  op: 'upsert' | 'delete' | 'reset';
+  data: Record<string, unknown> | null;
+  clientId: string | null;
+}
+
+// merge adds and updates records but keeps the server's copy of a conflict; replace makes each section in the file an exact copy
+export type ImportMode = 'merge' | 'replace';
+
+// How one section of a backup file (vehicles, permanentClients, ...) compares with the server
+export interface ImportSectionDiff {
+  name: string;
+  added: number;
+  changed: number;
+  unchanged: number;
+  removed: number; // On the server but not in the file; only replace removes them
+  conflicts: { key: string; label: string }[]; // Changed on the server since the file's copy was saved
+}
+
+// A gzipped backup kept on the server, as listed by GET /api/backups
+export interface Snapshot {
+  id: string;
+  createdAt: string;
+  size: number; // Bytes, compressed
+  reason: 'scheduled' | 'manual' | 'pre-restore';
+  createdBy?: string;
+  counts: Record<string, number> | null; // Records per backup section; null if its metadata is missing
+}
+
+export interface ImportPreview {
+  sections: ImportSectionDiff[];
+  settingsChanged: boolean;
+}
+
+export interface ChangeFeed {
+  cursor: number;
+  changes: SyncChange[];
+}
+
+// An entry or exit made while the server was unreachable, waiting in the offline outbox
+export interface QueuedOperation {
+  seq?: number;
+  kind: 'vehicle.entry' | 'vehicle.exit';
+  idempotencyKey: string;
+  vehicle: Vehicle;
+  capacityOverride?: CapacityOverride;
+  createdAt: string;
+  error?: string; // Why the server rejected it, once it has become a conflict
+}
@@ -0,0 +1,78 @@
+import { BillingStatus, Invoice } from '@/types/parking';
+
+// Invoice periods are local calendar months, written YYYY-MM the same way the server writes them
+export const getCurrentPeriod = (date: Date = new Date()): string => {
+  return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+};
+
+export const formatPeriod = (period: string): string => {
+  const [year, month] = period.split('-').map(Number);
+  return new Date(year, month - 1, 1).toLocaleDateString('en-PK', { month: 'long', year: 'numeric' });
+};
+
+// Days are YYYY-MM-DD in local time, as used for due dates and plan terms
+export const getCurrentDay = (date: Date = new Date()): string => {
+  return `${getCurrentPeriod(date)}-${String(date.getDate()).padStart(2, '0')}`;
+};
+
+export const addDays = (day: string, days: number): string => {
+  return new Date(Date.parse(`${day}T00:00:00Z`) + days * 24 * 60 * 60 * 1000).toISOString().slice(0, 10);
+};
+
+export const getAmountPaid = (invoice: Invoice): number => {
+  return invoice.payments.reduce((sum, payment) => sum + payment.amount, 0);
+};
+
+export const getInvoiceBalance = (invoice: Invoice): number => {
+  return Math.max(0, invoice.amount - getAmountPaid(invoice));
+};
+
+// Overdue from the day after the due date until the balance is cleared
+export const getInvoiceStatus = (invoice: Invoice, today: Date = new Date()): BillingStatus => {
+  if (getInvoiceBalance(invoice) === 0) return 'paid';
+  return getCurrentDay(today) > invoice.dueDate ? 'overdue' : 'due';
+};
+
+// Newest period first
+export const getClientInvoices = (invoices: Invoice[], clientId: string): Invoice[] => {
+  return invoices
+    .filter(invoice => invoice.clientId === clientId)
+    .sort((a, b) => b.period.localeCompare(a.period));
+};
+
+// A client is as far behind as its worst invoice; one with nothing billed yet counts as paid
+export const getClientBillingStatus = (invoices: Invoice[], clientId: string, today: Date = new Date()): BillingStatus => {
+  const statuses = getClientInvoices(invoices, clientId).map(invoice => getInvoiceStatus(invoice, today));
+  if (statuses.includes('overdue')) return 'overdue';
+  if (statuses.includes('due')) return 'due';
+  return 'paid';
+};
+
+// What the client owes on a day: unpaid invoices whose due date has come. One raised ahead of time, for
+// next month or an early renewal, is not owed yet. The server counts the same before a pass exit.
+export const getOwedInvoices = (invoices: Invoice[], clientId: string, today: Date = new Date()): Invoice[] => {
+  const day = getCurrentDay(today);
+  return getClientInvoices(invoices, clientId).filter(invoice => getInvoiceBalance(invoice) > 0 && invoice.dueDate <= day);
+};
+
+export const getClientBalance = (invoices: Invoice[], clientId: string): number => {
+  return getClientInvoices(invoices, clientId).reduce((sum, invoice) => sum + getInvoiceBalance(invoice), 0);
+};
+
+// Latest month the client has fully paid for, printed on its pass card
+export const getPaidThroughPeriod = (invoices: Invoice[], clientId: string): string | undefined => {
+  return getClientInvoices(invoices, clientId).find(invoice => getInvoiceBalance(invoice) === 0)?.period;
+};
+
+export const BILLING_STATUS_LABELS: Record<BillingStatus, string> = {
+  paid: 'Paid',
+  due: 'Due',
+  overdue: 'Overdue'
+};
+
+// Badge variant for each status
+export const BILLING_STATUS_VARIANTS = {
+  paid: 'default',
+  due: 'secondary',
+  overdue: 'destructive'
+} as const;
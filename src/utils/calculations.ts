@@ -1,25 +1,18 @@
-import { Settings } from '@/types/parking';
+import { NightBand, VehiclePricing } from '@/types/parking';
+import { calculateFeeBreakdown } from '@/utils/tariff';
 
 export const calculateParkingFee = (
   entryTime: Date,
   exitTime: Date,
-  vehicleType: 'car' | 'bike' | 'rickshaw',
-  pricing: Settings['pricing']
+  pricing: VehiclePricing,
+  nightBand?: NightBand
 ): number => {
-  const hoursDiff = Math.ceil((exitTime.getTime() - entryTime.getTime()) / (1000 * 60 * 60));
-  const vehiclePricing = pricing[vehicleType];
-  
-  if (hoursDiff <= vehiclePricing.baseHours) {
-    return vehiclePricing.baseFee;
-  }
-  
-  const extraHours = hoursDiff - vehiclePricing.baseHours;
-  return vehiclePricing.baseFee + (extraHours * vehiclePricing.extraHourFee);
+  return calculateFeeBreakdown(entryTime, exitTime, pricing, nightBand).total;
 };
 
-export const generateBarcode = (vehicleNumber: string, entryTime: Date): string => {
-  return `${vehicleNumber.replace(/\s+/g, '').toUpperCase()}-${entryTime.getTime()}`;
-};
+// Entry tickets are "<serial>-<signature>", signed by the server when the entry is recorded.
+// Pass cards use the same shape with a "PASS" serial.
+export const isTicketCode = (value: string): boolean => /^\S+-[0-9A-F]{12}$/i.test(value.trim());
 
 export const formatCurrency = (amount: number): string => {
   return `${amount} PKR`;
@@ -0,0 +1,102 @@
+import { Vehicle, VehicleCategory } from '@/types/parking';
+import { CNIC_REGEX, CONTACT_REGEX } from '@/utils/validation';
+import { normalizePlate } from '@/utils/passes';
+
+export type ClientImportField = 'number' | 'clientName' | 'cnic' | 'contact' | 'type' | 'monthlyFee';
+
+// Column header -> field; index into the spreadsheet's header row, or -1 when the field is not mapped
+export type ClientColumnMapping = Record<ClientImportField, number>;
+
+export const CLIENT_IMPORT_FIELDS: { id: ClientImportField; label: string; aliases: string[] }[] = [
+  { id: 'number', label: 'Plate', aliases: ['plate', 'vehicle number', 'vehicle no', 'registration', 'number'] },
+  { id: 'clientName', label: 'Name', aliases: ['name', 'client name', 'client', 'owner'] },
+  { id: 'cnic', label: 'CNIC', aliases: ['cnic', 'cnic number', 'id card'] },
+  { id: 'contact', label: 'Contact', aliases: ['contact', 'phone', 'mobile', 'contact number', 'cell'] },
+  { id: 'type', label: 'Vehicle Type', aliases: ['type', 'vehicle type', 'category'] },
+  { id: 'monthlyFee', label: 'Monthly Fee', aliases: ['monthly fee', 'fee', 'amount', 'rent'] }
+];
+
+export interface ClientImportRow {
+  line: number; // Row number in the spreadsheet, counting the header as 1
+  client?: Omit<Vehicle, 'id'>; // Set only when the row has no errors
+  errors: string[];
+}
+
+// Matches each field to the first header that is one of its names, ignoring case and punctuation
+export const guessColumnMapping = (headers: string[]): ClientColumnMapping => {
+  const simplify = (text: string) => text.toLowerCase().replace(/[^a-z]+/g, ' ').trim();
+  const simplified = headers.map(simplify);
+  return Object.fromEntries(CLIENT_IMPORT_FIELDS.map(field => [
+    field.id,
+    simplified.findIndex(header => field.aliases.includes(header))
+  ])) as ClientColumnMapping;
+};
+
+// A register written without dashes, or a CNIC Excel turned into a number, is 13 digits in a row
+const normalizeCnic = (value: string): string => {
+  const digits = value.replace(/\D/g, '');
+  return digits.length === 13 ? `${digits.slice(0, 5)}-${digits.slice(5, 12)}-${digits.slice(12)}` : value;
+};
+
+// Local mobile numbers (03001234567) and ones without the plus become +92xxxxxxxxxx
+const normalizeContact = (value: string): string => {
+  const digits = value.replace(/\D/g, '');
+  if (digits.length === 11 && digits.startsWith('0')) return `+92${digits.slice(1)}`;
+  if (digits.length === 12 && digits.startsWith('92')) return `+${digits}`;
+  if (digits.length === 10 && digits.startsWith('3')) return `+92${digits}`;
+  return value;
+};
+
+// Runs each data row through the same checks as the registration form. Plates already registered,
+// or repeated further up the file, are errors too.
+export const validateClientRows = (
+  rows: string[][],
+  mapping: ClientColumnMapping,
+  vehicleTypes: VehicleCategory[],
+  existingClients: Vehicle[]
+): ClientImportRow[] => {
+  const registeredPlates = new Set(existingClients.map(client => normalizePlate(client.number)));
+  const filePlates = new Set<string>();
+  return rows.map((row, index) => {
+    const cell = (field: ClientImportField) => (mapping[field] >= 0 ? row[mapping[field]] || '' : '').trim();
+    const errors: string[] = [];
+
+    const number = cell('number');
+    const clientName = cell('clientName');
+    const cnic = normalizeCnic(cell('cnic'));
+    const contact = normalizeContact(cell('contact'));
+    const typeText = cell('type').toLowerCase();
+    const feeText = cell('monthlyFee').replace(/,/g, '');
+
+    if (!number) errors.push('Plate is missing');
+    else if (registeredPlates.has(normalizePlate(number))) errors.push(`Plate ${number} is already registered`);
+    else if (filePlates.has(normalizePlate(number))) errors.push(`Plate ${number} appears earlier in the sheet`);
+    if (!clientName) errors.push('Name is missing');
+    if (!CNIC_REGEX.test(cnic)) errors.push(`CNIC "${cell('cnic')}" is not in xxxxx-xxxxxxx-x format`);
+    if (!CONTACT_REGEX.test(contact)) errors.push(`Contact "${cell('contact')}" is not a +92xxxxxxxxxx mobile number`);
+    // A blank type means the first category, as on the form
+    const type = typeText
+      ? vehicleTypes.find(category => category.id.toLowerCase() === typeText || category.label.toLowerCase() === typeText)
+      : vehicleTypes[0];
+    if (!type) errors.push(`Vehicle type "${cell('type')}" does not exist`);
+    const monthlyFee = Number(feeText);
+    if (!feeText || !Number.isFinite(monthlyFee) || monthlyFee < 0) errors.push(`Monthly fee "${cell('monthlyFee')}" is not an amount`);
+
+    if (number) filePlates.add(normalizePlate(number));
+    if (errors.length > 0 || !type) return { line: index + 2, errors };
+    return {
+      line: index + 2,
+      errors,
+      client: {
+        number,
+        clientName,
+        type: type.id,
+        entryTime: new Date(),
+        cnic,
+        monthlyFee: Math.round(monthlyFee),
+        contact,
+        paymentStatus: 'unpaid'
+      }
+    };
+  });
+};
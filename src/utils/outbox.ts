@@ -0,0 +1,75 @@
+import { QueuedOperation } from '@/types/parking';
+
+// Entries and exits made while the server is unreachable wait here until they can be replayed.
+// IndexedDB rather than localStorage so the queue survives a crash mid-write and keeps Date values.
+const DB_NAME = 'parking_outbox';
+const DB_VERSION = 1;
+const PENDING_STORE = 'pending';
+const CONFLICT_STORE = 'conflicts';
+
+const openOutbox = (): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    const db = request.result;
+    // The auto-increment key doubles as replay order
+    if (!db.objectStoreNames.contains(PENDING_STORE)) {
+      db.createObjectStore(PENDING_STORE, { keyPath: 'seq', autoIncrement: true });
+    }
+    if (!db.objectStoreNames.contains(CONFLICT_STORE)) {
+      db.createObjectStore(CONFLICT_STORE, { keyPath: 'seq' });
+    }
+  };
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const withStores = async <T>(
+  storeNames: string[],
+  mode: IDBTransactionMode,
+  action: (transaction: IDBTransaction) => IDBRequest<T> | void
+): Promise<T | undefined> => {
+  const db = await openOutbox();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(storeNames, mode);
+    const request = action(transaction);
+    transaction.oncomplete = () => {
+      db.close();
+      resolve(request ? request.result : undefined);
+    };
+    transaction.onerror = () => {
+      db.close();
+      reject(transaction.error);
+    };
+  });
+};
+
+export const enqueueOperation = async (operation: QueuedOperation): Promise<void> => {
+  await withStores([PENDING_STORE], 'readwrite', transaction => transaction.objectStore(PENDING_STORE).add(operation));
+};
+
+export const getPendingOperations = async (): Promise<QueuedOperation[]> => {
+  return (await withStores<QueuedOperation[]>([PENDING_STORE], 'readonly', transaction => transaction.objectStore(PENDING_STORE).getAll())) || [];
+};
+
+export const removePendingOperation = async (seq: number): Promise<void> => {
+  await withStores([PENDING_STORE], 'readwrite', transaction => transaction.objectStore(PENDING_STORE).delete(seq));
+};
+
+// The server rejected the operation, so it leaves the queue and waits for someone to decide what to do
+export const addConflict = async (operation: QueuedOperation, error: string): Promise<void> => {
+  await withStores([PENDING_STORE, CONFLICT_STORE], 'readwrite', transaction => {
+    const seq = operation.seq ?? Date.now();
+    transaction.objectStore(CONFLICT_STORE).put({ ...operation, seq, error });
+    if (operation.seq !== undefined) {
+      transaction.objectStore(PENDING_STORE).delete(operation.seq);
+    }
+  });
+};
+
+export const getConflicts = async (): Promise<QueuedOperation[]> => {
+  return (await withStores<QueuedOperation[]>([CONFLICT_STORE], 'readonly', transaction => transaction.objectStore(CONFLICT_STORE).getAll())) || [];
+};
+
+export const removeConflict = async (seq: number): Promise<void> => {
+  await withStores([CONFLICT_STORE], 'readwrite', transaction => transaction.objectStore(CONFLICT_STORE).delete(seq));
+};
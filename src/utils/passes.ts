@@ -0,0 +1,45 @@
+import { Invoice, PassCheck, Settings, Vehicle } from '@/types/parking';
+import { formatCurrency } from '@/utils/calculations';
+import { formatPeriod, getClientInvoices, getCurrentDay, getCurrentPeriod, getInvoiceBalance, getInvoiceStatus, getOwedInvoices } from '@/utils/billing';
+import { getPlan, getPlanHoursLabel, isWithinPlanHours } from '@/utils/plans';
+
+// Plates are compared without spaces or case, the same way the server compares them on tickets
+export const normalizePlate = (number: string): string => number.replace(/\s+/g, '').toUpperCase();
+
+export const findPermanentClient = (clients: Vehicle[], number: string): Vehicle | undefined => {
+  const plate = normalizePlate(number);
+  return plate ? clients.find(client => normalizePlate(client.number) === plate) : undefined;
+};
+
+// Only a paid-up client passes: an invoice still unpaid on or after its due date stops the pass. A client on
+// a plan is covered until its endDate, and only in the plan's hours. A client still invoiced monthly is
+// covered for a month once that month has been invoiced. The server checks the same before a pass exit.
+export const checkPass = (client: Vehicle, invoices: Invoice[], settings: Settings, at: Date = new Date()): PassCheck => {
+  const owed = getOwedInvoices(invoices, client.id, at);
+  if (owed.length > 0) {
+    const balance = owed.reduce((sum, invoice) => sum + getInvoiceBalance(invoice), 0);
+    const status = owed.some(invoice => getInvoiceStatus(invoice, at) === 'overdue') ? 'overdue' : 'due';
+    return { client, valid: false, warning: `Pass for ${client.number} is unpaid: ${formatCurrency(balance)} ${status}` };
+  }
+  if (client.endDate) {
+    if (getCurrentDay(at) > client.endDate) {
+      return { client, valid: false, warning: `Pass for ${client.number} expired on ${client.endDate}` };
+    }
+  } else {
+    const period = getCurrentPeriod(at);
+    if (client.monthlyFee && !getClientInvoices(invoices, client.id).some(invoice => invoice.period === period)) {
+      return { client, valid: false, warning: `Pass for ${client.number} has expired: it has not been renewed for ${formatPeriod(period)}` };
+    }
+  }
+  const plan = getPlan(settings.subscriptionPlans, client.planId);
+  if (plan && !isWithinPlanHours(plan, settings.nightBand, at)) {
+    return { client, valid: false, warning: `Pass for ${client.number} is ${getPlanHoursLabel(plan.hours).toLowerCase()}` };
+  }
+  return { client, valid: true };
+};
+
+// The pass check for a plate, or null when it does not belong to a permanent client
+export const checkPlatePass = (clients: Vehicle[], invoices: Invoice[], settings: Settings, number: string): PassCheck | null => {
+  const client = findPermanentClient(clients, number);
+  return client ? checkPass(client, invoices, settings) : null;
+};
@@ -0,0 +1,23 @@
+import { PaymentMethod, Vehicle } from '@/types/parking';
+
+export const PAYMENT_METHODS: { id: PaymentMethod; label: string }[] = [
+  { id: 'cash', label: 'Cash' },
+  { id: 'card', label: 'Card' },
+  { id: 'jazzcash', label: 'JazzCash' },
+  { id: 'easypaisa', label: 'Easypaisa' }
+];
+
+export const getPaymentMethodLabel = (method: PaymentMethod): string => {
+  return PAYMENT_METHODS.find(candidate => candidate.id === method)?.label || method;
+};
+
+// Exits recorded before payment methods were captured were all paid in cash
+export const getPaymentMethod = (vehicle: Vehicle): PaymentMethod => vehicle.paymentMethod || 'cash';
+
+export const sumByPaymentMethod = (vehicles: Vehicle[]): Partial<Record<PaymentMethod, number>> => {
+  return vehicles.reduce<Partial<Record<PaymentMethod, number>>>((totals, vehicle) => {
+    const method = getPaymentMethod(vehicle);
+    totals[method] = (totals[method] || 0) + (vehicle.fee || 0);
+    return totals;
+  }, {});
+};
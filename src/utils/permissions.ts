@@ -0,0 +1,33 @@
+import { UserRole } from '@/types/parking';
+
+export type Feature = 'walkin' | 'parked' | 'shift' | 'history' | 'analytics' | 'permanent' | 'settings' | 'audit';
+
+// Roles are ordered: each one can use everything the roles before it can
+const ROLE_ORDER: UserRole[] = ['attendant', 'supervisor', 'owner'];
+
+// Lowest role allowed to use each feature
+const FEATURE_MIN_ROLE: Record<Feature, UserRole> = {
+  walkin: 'attendant',
+  parked: 'attendant',
+  shift: 'attendant',
+  history: 'supervisor',
+  analytics: 'supervisor',
+  permanent: 'supervisor',
+  settings: 'owner',
+  audit: 'owner'
+};
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  attendant: 'Attendant',
+  supervisor: 'Supervisor',
+  owner: 'Owner'
+};
+
+export const hasRole = (role: UserRole | undefined, minimumRole: UserRole): boolean => {
+  if (!role) return false;
+  return ROLE_ORDER.indexOf(role) >= ROLE_ORDER.indexOf(minimumRole);
+};
+
+export const canAccess = (role: UserRole | undefined, feature: Feature): boolean => {
+  return hasRole(role, FEATURE_MIN_ROLE[feature]);
+};
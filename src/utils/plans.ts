@@ -0,0 +1,68 @@
+import { Invoice, NightBand, PlanHours, SubscriptionPlan, Vehicle } from '@/types/parking';
+import { addDays, getCurrentDay, getCurrentPeriod } from '@/utils/billing';
+import { isNightHour } from '@/utils/tariff';
+
+export const PLAN_TERMS: { months: number; label: string }[] = [
+  { months: 1, label: 'Monthly' },
+  { months: 3, label: 'Quarterly' },
+  { months: 6, label: 'Half-yearly' },
+  { months: 12, label: 'Yearly' }
+];
+
+export const PLAN_HOURS: { id: PlanHours; label: string }[] = [
+  { id: 'all', label: 'All hours' },
+  { id: 'day', label: 'Day only' },
+  { id: 'night', label: 'Night only' }
+];
+
+export const getPlanHoursLabel = (hours: PlanHours): string => {
+  return PLAN_HOURS.find(candidate => candidate.id === hours)?.label || hours;
+};
+
+export const getPlan = (plans: SubscriptionPlan[] = [], planId?: string): SubscriptionPlan | undefined => {
+  return planId ? plans.find(plan => plan.id === planId) : undefined;
+};
+
+// Undefined when the plan is not offered for this vehicle type
+export const getPlanPrice = (plan: SubscriptionPlan, type: string): number | undefined => {
+  return plan.prices[type];
+};
+
+// Mirrors the server: a term ends the day before the same date `months` later, or on the last day
+// of a month too short to have it
+export const getTermEnd = (startDate: string, months: number): string => {
+  const [year, month, day] = startDate.split('-').map(Number);
+  const lastDay = new Date(Date.UTC(year, month - 1 + months + 1, 0)).getUTCDate();
+  const sameDate = new Date(Date.UTC(year, month - 1 + months, Math.min(day, lastDay))).toISOString().slice(0, 10);
+  return day > lastDay ? sameDate : addDays(sameDate, -1);
+};
+
+// Where the server will start the next term: straight after the current one, today once it has lapsed,
+// or next month for a client whose monthly invoice already covers this one
+export const getRenewalStart = (client: Vehicle, invoices: Invoice[], today: Date = new Date()): string => {
+  const day = getCurrentDay(today);
+  if (client.endDate) {
+    return client.endDate >= day ? addDays(client.endDate, 1) : day;
+  }
+  const period = getCurrentPeriod(today);
+  const billed = invoices.some(invoice => invoice.clientId === client.id && invoice.period === period);
+  return billed ? addDays(getTermEnd(`${period}-01`, 1), 1) : day;
+};
+
+// Whole days left on the client's term, 0 on its last day and negative once it has lapsed
+export const getDaysLeft = (client: Vehicle, today: Date = new Date()): number | undefined => {
+  if (!client.endDate) return undefined;
+  return Math.round((Date.parse(`${client.endDate}T00:00:00Z`) - Date.parse(`${getCurrentDay(today)}T00:00:00Z`)) / (24 * 60 * 60 * 1000));
+};
+
+export const isExpiringSoon = (client: Vehicle, days = 7, today: Date = new Date()): boolean => {
+  const daysLeft = getDaysLeft(client, today);
+  return daysLeft !== undefined && daysLeft >= 0 && daysLeft <= days;
+};
+
+// Day and night plans only apply while a night band is configured
+export const isWithinPlanHours = (plan: SubscriptionPlan, nightBand: NightBand | undefined, at: Date = new Date()): boolean => {
+  if (plan.hours === 'all' || !nightBand) return true;
+  const night = isNightHour(at.getHours(), nightBand);
+  return plan.hours === 'night' ? night : !night;
+};
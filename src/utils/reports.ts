@@ -0,0 +1,55 @@
+import { ReportGroupBy } from '@/types/parking';
+import { addDays, formatPeriod, getCurrentDay } from '@/utils/billing';
+
+export interface ReportRange {
+  from: string; // Inclusive YYYY-MM-DD days
+  to: string;
+}
+
+// The last `days` days up to and including today
+export const getRecentRange = (days: number = 30): ReportRange => {
+  const to = getCurrentDay();
+  return { from: addDays(to, 1 - days), to };
+};
+
+// Report days are local, so parse them as local midnight rather than UTC
+export const parseReportDay = (day: string): Date => {
+  const [year, month, date] = day.split('-').map(Number);
+  return new Date(year, month - 1, date);
+};
+
+export const formatReportDay = (day: string): string => {
+  return parseReportDay(day).toLocaleDateString('en-PK', { weekday: 'long', year: 'numeric', month: 'long', day: 'numeric' });
+};
+
+export const formatShortDay = (day: string): string => {
+  return parseReportDay(day).toLocaleDateString('en-PK', { month: 'short', day: 'numeric' });
+};
+
+// Labels a time group of the summary: a day, the Monday starting a week, or a YYYY-MM month
+export const formatReportKey = (groupBy: ReportGroupBy, key: string | null): string => {
+  if (!key) return 'Unknown';
+  if (groupBy === 'month') return formatPeriod(key);
+  if (groupBy === 'week') return `Week of ${formatShortDay(key)}`;
+  return groupBy === 'day' ? formatShortDay(key) : key;
+};
+
+// Every day of the range in order, for series that should show empty days too
+export const listDays = (range: ReportRange): string[] => {
+  const days: string[] = [];
+  if (!range.from || !range.to) return days;
+  for (let day = range.from; day <= range.to; day = addDays(day, 1)) days.push(day);
+  return days;
+};
+
+// The same days `months` calendar months away; the 31st of a shorter month becomes its last day
+export const shiftMonths = (day: string, months: number): string => {
+  if (!day) return day; // A date input being cleared
+  const [year, month, date] = day.split('-').map(Number);
+  const lastDate = new Date(Date.UTC(year, month - 1 + months + 1, 0)).getUTCDate();
+  return new Date(Date.UTC(year, month - 1 + months, Math.min(date, lastDate))).toISOString().slice(0, 10);
+};
+
+export const shiftRange = (range: ReportRange, months: number): ReportRange => {
+  return { from: shiftMonths(range.from, months), to: shiftMonths(range.to, months) };
+};
@@ -0,0 +1,23 @@
+import { Shift, ShiftReport, Vehicle } from '@/types/parking';
+import { sumByPaymentMethod } from '@/utils/payments';
+
+// Totals for a Z-report. While the shift is open the expected cash is worked out here the same way
+// the server does when it closes: the opening float plus every cash exit tagged with the shift.
+export const buildShiftReport = (shift: Shift, vehicles: Vehicle[]): ShiftReport => {
+  const exited = vehicles.filter(vehicle => vehicle.exitTime && vehicle.exitShiftId === shift.id);
+  const discounted = exited.filter(vehicle => vehicle.discount);
+  const incomeByMethod = sumByPaymentMethod(exited);
+  const expectedCash = shift.expectedCash ?? shift.openingFloat + (incomeByMethod.cash || 0);
+  return {
+    entries: vehicles.filter(vehicle => vehicle.entryShiftId === shift.id).length,
+    exits: exited.length,
+    totalIncome: exited.reduce((sum, vehicle) => sum + (vehicle.fee || 0), 0),
+    incomeByMethod,
+    discountCount: discounted.length,
+    discountTotal: discounted.reduce((sum, vehicle) => sum + (vehicle.calculatedFee ?? vehicle.fee ?? 0) - (vehicle.fee || 0), 0),
+    lostTickets: exited.filter(vehicle => vehicle.lostTicket).length,
+    expectedCash,
+    countedCash: shift.countedCash,
+    variance: shift.countedCash !== undefined ? shift.countedCash - expectedCash : undefined
+  };
+};
@@ -0,0 +1,62 @@
+import { readSheet } from 'read-excel-file/browser';
+
+export const SPREADSHEET_EXTENSIONS = ['.csv', '.xlsx'];
+
+// RFC 4180: fields may be quoted, and quoted fields may hold commas, line breaks and doubled quotes
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      rows.push([...row, field]);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+  if (field !== '' || row.length > 0) rows.push([...row, field]);
+  return rows;
+};
+
+const cellToString = (cell: unknown): string => {
+  if (cell === null || cell === undefined) return '';
+  if (cell instanceof Date) return cell.toISOString().slice(0, 10);
+  return String(cell).trim();
+};
+
+// Every cell as trimmed text, with blank rows dropped. Excel stores numbers such as a CNIC typed
+// without dashes as numbers, so they come back as their digits.
+export const readSpreadsheet = async (file: File): Promise<string[][]> => {
+  const name = file.name.toLowerCase();
+  let rows: unknown[][];
+  if (name.endsWith('.csv')) {
+    // Spreadsheet programs often save CSV with a byte order mark
+    rows = parseCsv((await file.text()).replace(/^\uFEFF/, ''));
+  } else if (name.endsWith('.xlsx')) {
+    rows = await readSheet(file);
+  } else {
+    throw new Error(`Only ${SPREADSHEET_EXTENSIONS.join(' and ')} files can be imported`);
+  }
+  return rows
+    .map(row => row.map(cellToString))
+    .filter(row => row.some(cell => cell !== ''));
+};
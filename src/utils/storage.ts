@@ -1,27 +1,27 @@
-import { Vehicle, Settings, DailyStats } from '@/types/parking';
+import { Vehicle, Settings, VehicleCategory, Shift, Invoice } from '@/types/parking';
 import { apiService } from '@/services/api';
 
 const STORAGE_KEYS = {
   VEHICLES: 'parking_vehicles',
   SETTINGS: 'parking_settings',
-  DAILY_STATS: 'parking_daily_stats',
-  PERMANENT_CLIENTS: 'parking_permanent_clients'
+  PERMANENT_CLIENTS: 'parking_permanent_clients',
+  VEHICLE_TYPES: 'parking_vehicle_types',
+  CURRENT_SHIFT: 'parking_current_shift',
+  INVOICES: 'parking_invoices'
 };
 
 export const getDefaultSettings = (): Settings => ({
   siteName: 'Smart Parking System',
-  pricing: {
-    car: { baseHours: 10, baseFee: 100, extraHourFee: 10 },
-    bike: { baseHours: 10, baseFee: 50, extraHourFee: 5 },
-    rickshaw: { baseHours: 10, baseFee: 100, extraHourFee: 10 }
-  },
-  credentials: {
-    username: 'admin',
-    password: 'admin 1234'
-  },
   viewMode: 'list'
 });
 
+// Used only until the server's categories have been loaded once
+export const getDefaultVehicleTypes = (): VehicleCategory[] => [
+  { id: 'car', label: 'Car', icon: 'car', pricing: { baseHours: 10, baseFee: 100, extraHourFee: 10 }, sortOrder: 0 },
+  { id: 'bike', label: 'Bike', icon: 'bike', pricing: { baseHours: 10, baseFee: 50, extraHourFee: 5 }, sortOrder: 1 },
+  { id: 'rickshaw', label: 'Rickshaw', icon: 'truck', pricing: { baseHours: 10, baseFee: 100, extraHourFee: 10 }, sortOrder: 2 }
+];
+
 // Fallback to localStorage if API fails
 export const loadFromStorage = <T>(key: string, defaultValue: T): T => {
   try {
@@ -41,9 +41,9 @@ export const saveToStorage = <T>(key: string, data: T): void => {
 };
 
 // API-first functions with localStorage fallback
-export const loadVehicles = async (): Promise<Vehicle[]> => {
+export const loadVehicles = async (since?: Date): Promise<Vehicle[]> => {
   try {
-    return await apiService.getVehicles();
+    return await apiService.getVehicles(since);
   } catch (error) {
     console.warn('API failed, using localStorage:', error);
     return loadFromStorage(STORAGE_KEYS.VEHICLES, []);
@@ -69,6 +69,16 @@ export const loadSettings = async (): Promise<Settings> => {
   }
 };
 
+// Last settings seen from the server, used before login when the API is not yet reachable
+export const loadCachedSettings = (): Settings => {
+  return { ...getDefaultSettings(), ...loadFromStorage(STORAGE_KEYS.SETTINGS, {}) };
+};
+
+// Settings pulled from the change feed are already on the server, so only the local copy is updated
+export const cacheSettings = (settings: Settings): void => {
+  saveToStorage(STORAGE_KEYS.SETTINGS, settings);
+};
+
 export const saveSettings = async (settings: Settings): Promise<void> => {
   try {
     await apiService.updateSettings(settings);
@@ -79,25 +89,58 @@ export const saveSettings = async (settings: Settings): Promise<void> => {
   }
 };
 
-export const loadDailyStats = async (): Promise<DailyStats[]> => {
+export const loadVehicleTypes = async (): Promise<VehicleCategory[]> => {
+  try {
+    const vehicleTypes = await apiService.getVehicleTypes();
+    saveToStorage(STORAGE_KEYS.VEHICLE_TYPES, vehicleTypes);
+    return vehicleTypes;
+  } catch (error) {
+    console.warn('API failed, using localStorage:', error);
+    return loadFromStorage(STORAGE_KEYS.VEHICLE_TYPES, getDefaultVehicleTypes());
+  }
+};
+
+export const loadCachedVehicleTypes = (): VehicleCategory[] => {
+  return loadFromStorage(STORAGE_KEYS.VEHICLE_TYPES, getDefaultVehicleTypes());
+};
+
+// Categories are edited through their own API routes, so only the local copy is kept here
+export const cacheVehicleTypes = (vehicleTypes: VehicleCategory[]): void => {
+  saveToStorage(STORAGE_KEYS.VEHICLE_TYPES, vehicleTypes);
+};
+
+// The shift open on this counter, kept so entries and exits made offline are still tagged with it
+export const loadCurrentShift = async (): Promise<Shift | null> => {
   try {
-    return await apiService.getDailyStats();
+    const shift = await apiService.getCurrentShift();
+    saveToStorage(STORAGE_KEYS.CURRENT_SHIFT, shift);
+    return shift;
   } catch (error) {
     console.warn('API failed, using localStorage:', error);
-    return loadFromStorage(STORAGE_KEYS.DAILY_STATS, []);
+    return loadFromStorage<Shift | null>(STORAGE_KEYS.CURRENT_SHIFT, null);
   }
 };
 
-export const saveDailyStats = async (stats: DailyStats[]): Promise<void> => {
+export const cacheCurrentShift = (shift: Shift | null): void => {
+  saveToStorage(STORAGE_KEYS.CURRENT_SHIFT, shift);
+};
+
+// Kept locally so client billing status is still shown while the server is unreachable
+export const loadInvoices = async (): Promise<Invoice[]> => {
   try {
-    await apiService.updateDailyStats(stats);
-    saveToStorage(STORAGE_KEYS.DAILY_STATS, stats);
+    const invoices = await apiService.getInvoices();
+    saveToStorage(STORAGE_KEYS.INVOICES, invoices);
+    return invoices;
   } catch (error) {
-    console.error('Failed to save daily stats:', error);
-    saveToStorage(STORAGE_KEYS.DAILY_STATS, stats);
+    console.warn('API failed, using localStorage:', error);
+    return loadFromStorage(STORAGE_KEYS.INVOICES, []);
   }
 };
 
+export const cacheInvoices = (invoices: Invoice[]): void => {
+  saveToStorage(STORAGE_KEYS.INVOICES, invoices);
+};
+
 export const loadPermanentClients = async (): Promise<Vehicle[]> => {
   try {
     return await apiService.getPermanentClients();
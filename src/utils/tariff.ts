@@ -0,0 +1,128 @@
+import { DiscountReason, FeeBreakdown, FeeDiscount, FeeLine, LostTicket, NightBand, VehiclePricing } from '@/types/parking';
+
+const MINUTES_PER_DAY = 24 * 60;
+
+export const isNightHour = (hour: number, band: NightBand): boolean => {
+  if (band.startHour === band.endHour) return false;
+  return band.startHour < band.endHour
+    ? hour >= band.startHour && hour < band.endHour
+    : hour >= band.startHour || hour < band.endHour;
+};
+
+// Identifies which night a moment belongs to, so early-morning hours count towards the previous evening
+const nightKey = (moment: Date, band: NightBand): string => {
+  const day = new Date(moment);
+  if (band.startHour > band.endHour && moment.getHours() < band.endHour) {
+    day.setDate(day.getDate() - 1);
+  }
+  return day.toDateString();
+};
+
+const formatHours = (minutes: number): string => {
+  const hours = minutes / 60;
+  return `${Number.isInteger(hours) ? hours : hours.toFixed(2)} hr`;
+};
+
+// Works out what a stay costs and why. The stay is rounded up to the billing increment, the base fee
+// covers the first baseHours, and each later increment is charged at the day or night rate (or folded
+// into a flat overnight fee). Charges within each 24 hours from entry are capped at the daily maximum.
+export const calculateFeeBreakdown = (
+  entryTime: Date,
+  exitTime: Date,
+  pricing: VehiclePricing,
+  nightBand?: NightBand
+): FeeBreakdown => {
+  const stayMinutes = Math.max(0, (exitTime.getTime() - entryTime.getTime()) / (1000 * 60));
+  const graceMinutes = pricing.gracePeriodMinutes || 0;
+  if (graceMinutes > 0 && stayMinutes <= graceMinutes) {
+    return { total: 0, billedMinutes: 0, lines: [{ label: `Grace period (${graceMinutes} min)`, amount: 0 }] };
+  }
+
+  const increment = pricing.roundingMinutes || 60;
+  const billedMinutes = Math.ceil(stayMinutes / increment) * increment;
+  const baseMinutes = pricing.baseHours * 60;
+  const nightRate = pricing.nightHourFee ?? pricing.extraHourFee;
+  const useOvernight = !!nightBand && (pricing.overnightFee || 0) > 0;
+
+  // Charges are kept per 24-hour window so the daily maximum can be applied to each one
+  const windowTotals: number[] = [pricing.baseFee];
+  const addToWindow = (minute: number, amount: number) => {
+    const window = Math.floor(minute / MINUTES_PER_DAY);
+    windowTotals[window] = (windowTotals[window] || 0) + amount;
+  };
+
+  let dayMinutes = 0;
+  let nightMinutes = 0;
+  const nightsCharged = new Set<string>();
+
+  for (let minute = baseMinutes; minute < billedMinutes; minute += increment) {
+    const slotStart = new Date(entryTime.getTime() + minute * 60 * 1000);
+    if (nightBand && isNightHour(slotStart.getHours(), nightBand)) {
+      if (useOvernight) {
+        const key = nightKey(slotStart, nightBand);
+        if (!nightsCharged.has(key)) {
+          nightsCharged.add(key);
+          addToWindow(minute, pricing.overnightFee || 0);
+        }
+      } else {
+        nightMinutes += increment;
+        addToWindow(minute, nightRate * increment / 60);
+      }
+    } else {
+      dayMinutes += increment;
+      addToWindow(minute, pricing.extraHourFee * increment / 60);
+    }
+  }
+
+  const lines: FeeLine[] = [{ label: `Base fee (first ${pricing.baseHours} hr)`, amount: pricing.baseFee }];
+  if (dayMinutes > 0) {
+    lines.push({ label: `Extra ${formatHours(dayMinutes)} @ ${pricing.extraHourFee}/hr`, amount: pricing.extraHourFee * dayMinutes / 60 });
+  }
+  if (nightMinutes > 0) {
+    lines.push({ label: `Night ${formatHours(nightMinutes)} @ ${nightRate}/hr`, amount: nightRate * nightMinutes / 60 });
+  }
+  if (nightsCharged.size > 0) {
+    lines.push({ label: `Overnight x${nightsCharged.size}`, amount: (pricing.overnightFee || 0) * nightsCharged.size });
+  }
+
+  let total = windowTotals.reduce((sum, amount) => sum + (amount || 0), 0);
+  const dailyMaximum = pricing.dailyMaximum || 0;
+  if (dailyMaximum > 0) {
+    const capped = windowTotals.reduce((sum, amount) => sum + Math.min(amount || 0, dailyMaximum), 0);
+    if (capped < total) {
+      lines.push({ label: `Daily maximum (${dailyMaximum}/day)`, amount: capped - total });
+      total = capped;
+    }
+  }
+
+  return {
+    total: Math.round(total),
+    billedMinutes,
+    lines: lines.map(line => ({ ...line, amount: Math.round(line.amount) }))
+  };
+};
+
+// The penalty is listed as its own line so the receipt shows what the ticket itself would have cost
+export const addLostTicketPenalty = (breakdown: FeeBreakdown, lostTicket?: LostTicket): FeeBreakdown => {
+  if (!lostTicket) return breakdown;
+  return {
+    ...breakdown,
+    total: breakdown.total + lostTicket.penalty,
+    lines: [...breakdown.lines, { label: 'Lost ticket penalty', amount: lostTicket.penalty }]
+  };
+};
+
+// What is charged once a discount is applied; never less than zero
+export const applyDiscount = (fee: number, discount?: FeeDiscount): number => {
+  if (!discount) return fee;
+  if (discount.kind === 'waiver') return 0;
+  if (discount.kind === 'percent') return Math.max(0, Math.round(fee * (100 - (discount.value || 0)) / 100));
+  return Math.max(0, fee - (discount.value || 0));
+};
+
+// Receipt and report label; a reason code removed from Settings since is shown as the bare code
+export const describeDiscount = (discount: FeeDiscount, reasons: DiscountReason[] = []): string => {
+  const reason = reasons.find(candidate => candidate.code === discount.reasonCode)?.label || discount.reasonCode;
+  if (discount.kind === 'waiver') return `Waived (${reason})`;
+  return discount.kind === 'percent' ? `Discount ${discount.value || 0}% (${reason})` : `Discount (${reason})`;
+};
@@ -0,0 +1,3 @@
+// Formats checked wherever a driver's identity or phone number is captured
+export const CNIC_REGEX = /^\d{5}-\d{7}-\d{1}$/;
+export const CONTACT_REGEX = /^\+92\d{10}$/;
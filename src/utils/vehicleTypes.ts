@@ -0,0 +1,50 @@
+import { Bike, Bus, Car, CarTaxiFront, Caravan, Forklift, LucideIcon, Tractor, Truck } from 'lucide-react';
+import { Vehicle, VehicleCategory } from '@/types/parking';
+
+// Icons an owner can pick for a vehicle category; the key is what gets stored
+export const VEHICLE_ICONS: Record<string, LucideIcon> = {
+  car: Car,
+  bike: Bike,
+  truck: Truck,
+  bus: Bus,
+  taxi: CarTaxiFront,
+  van: Caravan,
+  tractor: Tractor,
+  loader: Forklift
+};
+
+export const getVehicleIcon = (icon: string): LucideIcon => VEHICLE_ICONS[icon] || Car;
+
+// Deleting a category that is still in use is refused by the server, so the fallback only covers
+// records that arrive before the category list has synced
+export const getVehicleCategory = (vehicleTypes: VehicleCategory[], id: string): VehicleCategory => {
+  return vehicleTypes.find(vehicleType => vehicleType.id === id) || {
+    id,
+    label: id,
+    icon: 'car',
+    pricing: { baseHours: 0, baseFee: 0, extraHourFee: 0 },
+    sortOrder: vehicleTypes.length
+  };
+};
+
+export const getVehicleLabel = (vehicleTypes: VehicleCategory[], id: string): string => {
+  return getVehicleCategory(vehicleTypes, id).label;
+};
+
+export interface Occupancy {
+  occupied: number;
+  capacity?: number;
+  percent: number; // 0 when the category has no capacity set
+  full: boolean;
+}
+
+export const getOccupancy = (currentlyParked: Vehicle[], vehicleType: VehicleCategory): Occupancy => {
+  const occupied = currentlyParked.filter(vehicle => vehicle.type === vehicleType.id).length;
+  const capacity = vehicleType.capacity || undefined;
+  return {
+    occupied,
+    capacity,
+    percent: capacity ? Math.min(100, Math.round((occupied / capacity) * 100)) : 0,
+    full: !!capacity && occupied >= capacity
+  };
+};